@@ -0,0 +1,51 @@
+import "reflect-metadata";
+import express from "express";
+import cors from "cors";
+import helmet from "helmet";
+import routes from "./routes";
+import { errorMiddleware } from "./middlewares";
+import { JwtKeyService, LoggerService } from "./services";
+
+const logger = LoggerService.getInstance();
+
+/**
+ * Express application, without the database connection and the listener started by index.ts
+ */
+const app = express();
+
+app.use(cors());
+app.use(helmet());
+app.use(express.json());
+app.use(express.urlencoded({ extended: true }));
+
+app.use((req, res, next) => {
+  logger.info(`${req.method} ${req.originalUrl}`, {
+    ip: req.ip,
+    userAgent: req.get('user-agent')
+  });
+  next();
+});
+
+app.use("/api", routes);
+
+app.get("/health", (_, res) => {
+  res.status(200).json({ status: "ok", timestamp: new Date() });
+});
+
+// Public keys for services that verify our tokens
+app.get("/.well-known/jwks.json", (_, res) => {
+  res.set("Cache-Control", "public, max-age=300");
+  res.status(200).json(JwtKeyService.getInstance().getJwks());
+});
+
+app.get("/check", (_, res) => {
+  res.status(200).json({ 
+    message: "App is running", 
+    status: "online", 
+    timestamp: new Date() 
+  });
+});
+
+app.use(errorMiddleware);
+
+export default app;
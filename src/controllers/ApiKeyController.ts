@@ -0,0 +1,117 @@
+import { Request, Response } from "express";
+import { body, param, validationResult } from "express-validator";
+import { PermissionType } from "../entities/Permission";
+import { ApiKeyService, LoggerService } from "../services";
+import { AppError } from "../middlewares";
+
+export class ApiKeyController {
+    private logger = LoggerService.getInstance();
+    private apiKeyService = new ApiKeyService();
+
+    /**
+     * Validation rules for API key ID
+     */
+    idValidation = [
+        param("id").isUUID().withMessage("Invalid API key ID format")
+    ];
+
+    /**
+     * Validation rules for creating API keys
+     */
+    createValidation = [
+        body("name")
+            .isString().withMessage("Name must be a string")
+            .trim()
+            .isLength({ min: 1, max: 100 }).withMessage("Name must be between 1 and 100 characters"),
+        body("scopes")
+            .isArray({ min: 1 }).withMessage("Scopes must be a non-empty array"),
+        body("scopes.*")
+            .isIn(Object.values(PermissionType)).withMessage("Invalid scope"),
+        body("expiresInDays")
+            .optional()
+            .isInt({ min: 1, max: 365 }).withMessage("expiresInDays must be between 1 and 365")
+            .toInt()
+    ];
+
+    /**
+     * List the API keys of the authenticated user or client
+     */
+    getAll = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            if (!req.authId) {
+                return res.status(401).json({ message: "Authentication required" });
+            }
+
+            const apiKeys = await this.apiKeyService.listApiKeys(req.authId);
+            return res.status(200).json(apiKeys);
+        } catch (error) {
+            if (error instanceof AppError) {
+                return res.status(error.statusCode).json({ message: error.message });
+            }
+            this.logger.error("Error fetching API keys:", error);
+            return res.status(500).json({ message: "Internal server error" });
+        }
+    };
+
+    /**
+     * Create an API key, the plain key is only returned in this response
+     */
+    create = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            // Check for validation errors
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return res.status(400).json({ errors: errors.array() });
+            }
+
+            if (!req.authId || !req.principal) {
+                return res.status(401).json({ message: "Authentication required" });
+            }
+
+            const { name, scopes, expiresInDays } = req.body;
+            const { apiKey, key } = await this.apiKeyService.createApiKey(req.authId, req.principal.permissions, {
+                name,
+                scopes,
+                expiresInDays
+            });
+
+            return res.status(201).json({
+                message: "API key created successfully. Store the key now, it will not be shown again",
+                apiKey,
+                key
+            });
+        } catch (error) {
+            if (error instanceof AppError) {
+                return res.status(error.statusCode).json({ message: error.message });
+            }
+            this.logger.error("Error creating API key:", error);
+            return res.status(500).json({ message: "Internal server error" });
+        }
+    };
+
+    /**
+     * Revoke an API key
+     */
+    revoke = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            // Check for validation errors
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return res.status(400).json({ errors: errors.array() });
+            }
+
+            if (!req.authId) {
+                return res.status(401).json({ message: "Authentication required" });
+            }
+
+            await this.apiKeyService.revokeApiKey(req.authId, req.params.id);
+            return res.status(200).json({ message: "API key revoked successfully" });
+        } catch (error) {
+            if (error instanceof AppError) {
+                return res.status(error.statusCode).json({ message: error.message });
+            }
+            this.logger.error("Error revoking API key:", error);
+            return res.status(500).json({ message: "Internal server error" });
+        }
+    };
+}
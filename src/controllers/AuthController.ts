@@ -1,13 +1,22 @@
 import { Request, Response } from "express";
-import { body, validationResult } from "express-validator";
+import { body, param, query, validationResult } from "express-validator";
 import { findUserById, findClientById, findAuthByEmail } from "../repositories";
 import { RoleType } from "../entities/Role";
 import { AuthType } from "../entities/Auth";
-import {AuthService, LoggerService} from "../services";
+import {AuthService, ClientInvitationService, ImpersonationService, LoggerService, LoginAttemptService, SecurityEventService} from "../services";
 import {AppError} from "../middlewares";
+import { checkPassword, getPasswordPolicy } from "../policies";
+import { LoginAttemptEvent } from "../entities/LoginAttempt";
+import { ImpersonationEvent } from "../entities/ImpersonationLog";
+import { SecurityEventType } from "../entities/SecurityEvent";
+import { getRequestContext } from "../utils/request.util";
 
 export class AuthController {
     private authService = new AuthService();
+    private loginAttemptService = new LoginAttemptService();
+    private clientInvitationService = new ClientInvitationService();
+    private impersonationService = new ImpersonationService();
+    private securityEventService = new SecurityEventService();
     private logger = LoggerService.getInstance();
 
     /**
@@ -17,8 +26,8 @@ export class AuthController {
         body("name").notEmpty().withMessage("Name is required"),
         body("email").isEmail().withMessage("Valid email is required"),
         body("password")
-            .isLength({ min: 6 })
-            .withMessage("Password must be at least 6 characters long"),
+            .isLength({ min: getPasswordPolicy().minLength })
+            .withMessage(`Password must be at least ${getPasswordPolicy().minLength} characters long`),
         body("role")
             .optional()
             .isIn(Object.values(RoleType))
@@ -33,6 +42,13 @@ export class AuthController {
         body("password").notEmpty().withMessage("Password is required")
     ];
 
+    /**
+     * Validation rules for token refresh
+     */
+    refreshValidation = [
+        body("refreshToken").isString().notEmpty().withMessage("Refresh token is required")
+    ];
+
     /**
      * Validation rules for password change
      */
@@ -40,8 +56,8 @@ export class AuthController {
         body("email").isEmail().withMessage("Valid email is required"),
         body("currentPassword").notEmpty().withMessage("Current password is required"),
         body("newPassword")
-            .isLength({ min: 6 })
-            .withMessage("New password must be at least 6 characters long")
+            .isLength({ min: getPasswordPolicy().minLength })
+            .withMessage(`New password must be at least ${getPasswordPolicy().minLength} characters long`)
     ];
 
     /**
@@ -50,8 +66,189 @@ export class AuthController {
     resetPasswordValidation = [
         body("email").isEmail().withMessage("Valid email is required"),
         body("newPassword")
-            .isLength({ min: 6 })
-            .withMessage("New password must be at least 6 characters long")
+            .isLength({ min: getPasswordPolicy().minLength })
+            .withMessage(`New password must be at least ${getPasswordPolicy().minLength} characters long`)
+    ];
+
+    /**
+     * Validation rules for requesting a password reset email
+     */
+    forgotPasswordValidation = [
+        body("email").isEmail().withMessage("Valid email is required")
+    ];
+
+    /**
+     * Validation rules for confirming a password reset
+     */
+    confirmPasswordResetValidation = [
+        body("token").isString().notEmpty().withMessage("Reset token is required"),
+        body("newPassword")
+            .isLength({ min: getPasswordPolicy().minLength })
+            .withMessage(`New password must be at least ${getPasswordPolicy().minLength} characters long`)
+    ];
+
+    /**
+     * Validation rules for verifying an email address
+     */
+    verifyEmailValidation = [
+        body("token").isString().notEmpty().withMessage("Verification token is required")
+    ];
+
+    /**
+     * Validation rules for requesting a new verification email
+     */
+    resendEmailVerificationValidation = [
+        body("email").isEmail().withMessage("Valid email is required")
+    ];
+
+    /**
+     * Validation rules for accepting a client invitation
+     */
+    acceptInvitationValidation = [
+        body("token").isString().notEmpty().withMessage("Invitation token is required"),
+        body("password")
+            .isString()
+            .withMessage("Password is required")
+            .bail()
+            .custom((value: string) => {
+                const violations = checkPassword(value);
+                if (violations.length > 0) {
+                    throw new Error(`Password ${violations.join(", ")}`);
+                }
+                return true;
+            })
+    ];
+
+    /**
+     * Validation rules for auth ID
+     */
+    authIdValidation = [
+        param("authId").isUUID().withMessage("Invalid account ID format")
+    ];
+
+    /**
+     * Validation rules for listing login attempts
+     */
+    loginAttemptsValidation = [
+        query("page")
+            .optional()
+            .isInt({ min: 1 }).withMessage("Page must be a positive integer"),
+        query("limit")
+            .optional()
+            .isInt({ min: 1, max: 100 }).withMessage("Limit must be between 1 and 100"),
+        query("authId")
+            .optional()
+            .isUUID().withMessage("Invalid account ID format"),
+        query("email")
+            .optional()
+            .isEmail().withMessage("Valid email is required"),
+        query("ipAddress")
+            .optional()
+            .isIP().withMessage("Valid IP address is required"),
+        query("event")
+            .optional()
+            .isIn(Object.values(LoginAttemptEvent)).withMessage("Invalid event"),
+        query("startDate")
+            .optional()
+            .isISO8601().withMessage("Start date must be a valid date in ISO 8601 format"),
+        query("endDate")
+            .optional()
+            .isISO8601().withMessage("End date must be a valid date in ISO 8601 format")
+    ];
+
+    /**
+     * Validation rules for the impersonation audit trail query
+     */
+    impersonationLogsValidation = [
+        query("page")
+            .optional()
+            .isInt({ min: 1 }).withMessage("Page must be a positive integer"),
+        query("limit")
+            .optional()
+            .isInt({ min: 1, max: 100 }).withMessage("Limit must be between 1 and 100"),
+        query("impersonatorAuthId")
+            .optional()
+            .isUUID().withMessage("Invalid impersonator account ID format"),
+        query("targetAuthId")
+            .optional()
+            .isUUID().withMessage("Invalid target account ID format"),
+        query("event")
+            .optional()
+            .isIn(Object.values(ImpersonationEvent)).withMessage("Invalid event"),
+        query("startDate")
+            .optional()
+            .isISO8601().withMessage("Start date must be a valid date in ISO 8601 format"),
+        query("endDate")
+            .optional()
+            .isISO8601().withMessage("End date must be a valid date in ISO 8601 format")
+    ];
+
+    /**
+     * Validation rules for the security events of the authenticated account
+     */
+    ownSecurityEventsValidation = [
+        query("page")
+            .optional()
+            .isInt({ min: 1 }).withMessage("Page must be a positive integer"),
+        query("limit")
+            .optional()
+            .isInt({ min: 1, max: 100 }).withMessage("Limit must be between 1 and 100"),
+        query("type")
+            .optional()
+            .isIn(Object.values(SecurityEventType)).withMessage("Invalid event type"),
+        query("startDate")
+            .optional()
+            .isISO8601().withMessage("Start date must be a valid date in ISO 8601 format"),
+        query("endDate")
+            .optional()
+            .isISO8601().withMessage("End date must be a valid date in ISO 8601 format")
+    ];
+
+    /**
+     * Validation rules for the security events of any account
+     */
+    securityEventsValidation = [
+        ...this.ownSecurityEventsValidation,
+        query("authId")
+            .optional()
+            .isUUID().withMessage("Invalid account ID format"),
+        query("email")
+            .optional()
+            .isEmail().withMessage("Valid email is required"),
+        query("ipAddress")
+            .optional()
+            .isIP().withMessage("Valid IP address is required")
+    ];
+
+    /**
+     * Validation rules for the second login step
+     */
+    verifyTwoFactorValidation = [
+        body("mfaToken").isString().notEmpty().withMessage("MFA token is required"),
+        body("code").isString().notEmpty().withMessage("Two-factor code is required")
+    ];
+
+    /**
+     * Validation rules for endpoints that take a two-factor code
+     */
+    twoFactorCodeValidation = [
+        body("code").isString().notEmpty().withMessage("Two-factor code is required")
+    ];
+
+    /**
+     * Validation rules for disabling two-factor authentication
+     */
+    disableTwoFactorValidation = [
+        body("password").notEmpty().withMessage("Password is required"),
+        body("code").isString().notEmpty().withMessage("Two-factor code is required")
+    ];
+
+    /**
+     * Validation rules for requiring two-factor authentication
+     */
+    twoFactorRequiredValidation = [
+        param("authId").isUUID().withMessage("Invalid account ID format"),
+        body("required").isBoolean().withMessage("Required must be a boolean")
     ];
 
     /**
@@ -93,7 +290,16 @@ export class AuthController {
             }
 
             const { email, password } = req.body;
-            const result = await this.authService.login(email, password);
+            const result = await this.authService.login(email, password, getRequestContext(req));
+
+            if ("mfaToken" in result) {
+                return res.status(200).json({
+                    message: result.mfaRequired
+                        ? "Two-factor authentication required"
+                        : "Two-factor authentication must be set up before logging in",
+                    ...result
+                });
+            }
 
             return res.status(200).json({
                 message: "Login successful",
@@ -108,6 +314,242 @@ export class AuthController {
         }
     };
 
+    /**
+     * Complete a login with a TOTP or recovery code
+     */
+    verifyTwoFactor = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            // Check for validation errors
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return res.status(400).json({ errors: errors.array() });
+            }
+
+            const { mfaToken, code } = req.body;
+            const result = await this.authService.verifyTwoFactorLogin(mfaToken, code, getRequestContext(req));
+
+            return res.status(200).json({
+                message: "Login successful",
+                ...result
+            });
+        } catch (error) {
+            if (error instanceof AppError) {
+                return res.status(error.statusCode).json({ message: error.message });
+            }
+            this.logger.error("Error verifying two-factor code:", error);
+            return res.status(500).json({ message: "Internal server error" });
+        }
+    };
+
+    /**
+     * Start two-factor enrolment
+     */
+    setupTwoFactor = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            if (!req.authId) {
+                return res.status(401).json({ message: "Authentication required" });
+            }
+
+            const result = await this.authService.setupTwoFactor(req.authId);
+            return res.status(200).json({
+                message: "Scan the QR code with your authenticator app and confirm with a code",
+                ...result
+            });
+        } catch (error) {
+            if (error instanceof AppError) {
+                return res.status(error.statusCode).json({ message: error.message });
+            }
+            this.logger.error("Error setting up two-factor authentication:", error);
+            return res.status(500).json({ message: "Internal server error" });
+        }
+    };
+
+    /**
+     * Confirm two-factor enrolment
+     */
+    enableTwoFactor = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            // Check for validation errors
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return res.status(400).json({ errors: errors.array() });
+            }
+
+            if (!req.authId) {
+                return res.status(401).json({ message: "Authentication required" });
+            }
+
+            const { recoveryCodes, session } = await this.authService.enableTwoFactor(
+                req.authId,
+                req.body.code,
+                getRequestContext(req),
+                req.mfaEnrollment === true
+            );
+
+            return res.status(200).json({
+                message: "Two-factor authentication enabled",
+                recoveryCodes,
+                ...session
+            });
+        } catch (error) {
+            if (error instanceof AppError) {
+                return res.status(error.statusCode).json({ message: error.message });
+            }
+            this.logger.error("Error enabling two-factor authentication:", error);
+            return res.status(500).json({ message: "Internal server error" });
+        }
+    };
+
+    /**
+     * Turn two-factor authentication off
+     */
+    disableTwoFactor = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            // Check for validation errors
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return res.status(400).json({ errors: errors.array() });
+            }
+
+            if (!req.authId) {
+                return res.status(401).json({ message: "Authentication required" });
+            }
+
+            const { password, code } = req.body;
+            await this.authService.disableTwoFactor(req.authId, password, code);
+            return res.status(200).json({ message: "Two-factor authentication disabled" });
+        } catch (error) {
+            if (error instanceof AppError) {
+                return res.status(error.statusCode).json({ message: error.message });
+            }
+            this.logger.error("Error disabling two-factor authentication:", error);
+            return res.status(500).json({ message: "Internal server error" });
+        }
+    };
+
+    /**
+     * Replace the two-factor recovery codes
+     */
+    regenerateRecoveryCodes = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            // Check for validation errors
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return res.status(400).json({ errors: errors.array() });
+            }
+
+            if (!req.authId) {
+                return res.status(401).json({ message: "Authentication required" });
+            }
+
+            const recoveryCodes = await this.authService.regenerateRecoveryCodes(req.authId, req.body.code);
+            return res.status(200).json({
+                message: "Recovery codes regenerated",
+                recoveryCodes
+            });
+        } catch (error) {
+            if (error instanceof AppError) {
+                return res.status(error.statusCode).json({ message: error.message });
+            }
+            this.logger.error("Error regenerating recovery codes:", error);
+            return res.status(500).json({ message: "Internal server error" });
+        }
+    };
+
+    /**
+     * Require or stop requiring two-factor authentication for an account (admin function)
+     */
+    setTwoFactorRequired = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            // Check for validation errors
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return res.status(400).json({ errors: errors.array() });
+            }
+
+            const required = req.body.required === true || req.body.required === "true";
+            await this.authService.setTwoFactorRequired(req.params.authId, required);
+            return res.status(200).json({
+                message: required
+                    ? "Two-factor authentication is now required for this account"
+                    : "Two-factor authentication is no longer required for this account"
+            });
+        } catch (error) {
+            if (error instanceof AppError) {
+                return res.status(error.statusCode).json({ message: error.message });
+            }
+            this.logger.error("Error updating two-factor requirement:", error);
+            return res.status(500).json({ message: "Internal server error" });
+        }
+    };
+
+    /**
+     * Exchange a refresh token for a new access/refresh token pair
+     */
+    refresh = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            // Check for validation errors
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return res.status(400).json({ errors: errors.array() });
+            }
+
+            const { refreshToken } = req.body;
+            const tokens = await this.authService.refresh(refreshToken, getRequestContext(req));
+
+            return res.status(200).json({
+                message: "Token refreshed successfully",
+                ...tokens
+            });
+        } catch (error) {
+            if (error instanceof AppError) {
+                return res.status(error.statusCode).json({ message: error.message });
+            }
+            this.logger.error("Error refreshing token:", error);
+            return res.status(500).json({ message: "Internal server error" });
+        }
+    };
+
+    /**
+     * Log out the current session
+     */
+    logout = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            if (!req.authId) {
+                return res.status(401).json({ message: "Authentication required" });
+            }
+
+            await this.authService.logout(req.authId, req.tokenId, req.tokenExpiresAt, req.sessionId);
+            return res.status(200).json({ message: "Logged out successfully" });
+        } catch (error) {
+            if (error instanceof AppError) {
+                return res.status(error.statusCode).json({ message: error.message });
+            }
+            this.logger.error("Error logging out:", error);
+            return res.status(500).json({ message: "Internal server error" });
+        }
+    };
+
+    /**
+     * Log out every session of the authenticated user or client
+     */
+    logoutAll = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            if (!req.authId) {
+                return res.status(401).json({ message: "Authentication required" });
+            }
+
+            await this.authService.revokeAllSessions(req.authId);
+            return res.status(200).json({ message: "All sessions logged out successfully" });
+        } catch (error) {
+            if (error instanceof AppError) {
+                return res.status(error.statusCode).json({ message: error.message });
+            }
+            this.logger.error("Error logging out all sessions:", error);
+            return res.status(500).json({ message: "Internal server error" });
+        }
+    };
+
     /**
      * Change password
      */
@@ -136,7 +578,7 @@ export class AuthController {
                 return res.status(403).json({ message: "You are not authorized to change this password" });
             }
 
-            await this.authService.changePassword(email, currentPassword, newPassword);
+            await this.authService.changePassword(email, currentPassword, newPassword, getRequestContext(req));
             return res.status(200).json({ message: "Password changed successfully" });
         } catch (error) {
             if (error instanceof AppError) {
@@ -159,7 +601,7 @@ export class AuthController {
             }
 
             const { email, newPassword } = req.body;
-            await this.authService.resetPassword(email, newPassword);
+            await this.authService.resetPassword(email, newPassword, getRequestContext(req));
             return res.status(200).json({ message: "Password reset successfully" });
         } catch (error) {
             if (error instanceof AppError) {
@@ -170,6 +612,341 @@ export class AuthController {
         }
     };
 
+    /**
+     * Request a password reset email
+     */
+    forgotPassword = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            // Check for validation errors
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return res.status(400).json({ errors: errors.array() });
+            }
+
+            const { email } = req.body;
+            await this.authService.requestPasswordReset(email);
+
+            // Same response whether or not the email exists
+            return res.status(200).json({
+                message: "If an account exists for this email, a password reset link has been sent"
+            });
+        } catch (error) {
+            this.logger.error("Error requesting password reset:", error);
+            return res.status(500).json({ message: "Internal server error" });
+        }
+    };
+
+    /**
+     * Set a new password using an emailed reset token
+     */
+    confirmPasswordReset = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            // Check for validation errors
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return res.status(400).json({ errors: errors.array() });
+            }
+
+            const { token, newPassword } = req.body;
+            await this.authService.confirmPasswordReset(token, newPassword, getRequestContext(req));
+            return res.status(200).json({ message: "Password reset successfully" });
+        } catch (error) {
+            if (error instanceof AppError) {
+                return res.status(error.statusCode).json({ message: error.message });
+            }
+            this.logger.error("Error confirming password reset:", error);
+            return res.status(500).json({ message: "Internal server error" });
+        }
+    };
+
+    /**
+     * Verify an email address using an emailed verification token
+     */
+    verifyEmail = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            // Check for validation errors
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return res.status(400).json({ errors: errors.array() });
+            }
+
+            await this.authService.verifyEmail(req.body.token);
+            return res.status(200).json({ message: "Email verified successfully" });
+        } catch (error) {
+            if (error instanceof AppError) {
+                return res.status(error.statusCode).json({ message: error.message });
+            }
+            this.logger.error("Error verifying email:", error);
+            return res.status(500).json({ message: "Internal server error" });
+        }
+    };
+
+    /**
+     * Request a new verification email
+     */
+    resendEmailVerification = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            // Check for validation errors
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return res.status(400).json({ errors: errors.array() });
+            }
+
+            await this.authService.resendEmailVerification(req.body.email);
+
+            // Same response whether or not the email exists
+            return res.status(200).json({
+                message: "If an unverified account exists for this email, a verification link has been sent"
+            });
+        } catch (error) {
+            this.logger.error("Error resending verification email:", error);
+            return res.status(500).json({ message: "Internal server error" });
+        }
+    };
+
+    /**
+     * Accept a client invitation and set the client's password
+     */
+    acceptInvitation = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            // Check for validation errors
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return res.status(400).json({ errors: errors.array() });
+            }
+
+            const { token, password } = req.body;
+            const client = await this.clientInvitationService.acceptInvitation(token, password);
+
+            return res.status(200).json({
+                message: "Invitation accepted. You can now log in",
+                email: client.email
+            });
+        } catch (error) {
+            if (error instanceof AppError) {
+                return res.status(error.statusCode).json({ message: error.message });
+            }
+            this.logger.error("Error accepting invitation:", error);
+            return res.status(500).json({ message: "Internal server error" });
+        }
+    };
+
+    /**
+     * Unlock an account locked after too many failed logins (admin function)
+     */
+    unlockAccount = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            // Check for validation errors
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return res.status(400).json({ errors: errors.array() });
+            }
+
+            await this.loginAttemptService.unlockAccount(req.params.authId, req.authId as string, getRequestContext(req));
+            return res.status(200).json({ message: "Account unlocked successfully" });
+        } catch (error) {
+            if (error instanceof AppError) {
+                return res.status(error.statusCode).json({ message: error.message });
+            }
+            this.logger.error("Error unlocking account:", error);
+            return res.status(500).json({ message: "Internal server error" });
+        }
+    };
+
+    /**
+     * Get login attempt history (admin function)
+     */
+    getLoginAttempts = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            // Check for validation errors
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return res.status(400).json({ errors: errors.array() });
+            }
+
+            const page = req.query.page ? parseInt(req.query.page as string) : 1;
+            const limit = req.query.limit ? parseInt(req.query.limit as string) : 20;
+
+            const { attempts, total } = await this.loginAttemptService.getLoginAttempts({
+                authId: req.query.authId as string | undefined,
+                email: req.query.email as string | undefined,
+                ipAddress: req.query.ipAddress as string | undefined,
+                event: req.query.event as LoginAttemptEvent | undefined,
+                startDate: req.query.startDate ? new Date(req.query.startDate as string) : undefined,
+                endDate: req.query.endDate ? new Date(req.query.endDate as string) : undefined
+            }, page, limit);
+
+            return res.status(200).json({
+                attempts,
+                pagination: {
+                    page,
+                    limit,
+                    total,
+                    totalPages: Math.ceil(total / limit)
+                }
+            });
+        } catch (error) {
+            if (error instanceof AppError) {
+                return res.status(error.statusCode).json({ message: error.message });
+            }
+            this.logger.error("Error fetching login attempts:", error);
+            return res.status(500).json({ message: "Internal server error" });
+        }
+    };
+
+    /**
+     * Get the security events of the authenticated user or client
+     */
+    getOwnSecurityEvents = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            // Check for validation errors
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return res.status(400).json({ errors: errors.array() });
+            }
+
+            if (!req.authId) {
+                return res.status(401).json({ message: "Authentication required" });
+            }
+
+            const page = req.query.page ? parseInt(req.query.page as string) : 1;
+            const limit = req.query.limit ? parseInt(req.query.limit as string) : 20;
+
+            const { events, total } = await this.securityEventService.getEvents({
+                authId: req.authId,
+                type: req.query.type as SecurityEventType | undefined,
+                startDate: req.query.startDate ? new Date(req.query.startDate as string) : undefined,
+                endDate: req.query.endDate ? new Date(req.query.endDate as string) : undefined
+            }, page, limit);
+
+            return res.status(200).json({
+                events,
+                pagination: {
+                    page,
+                    limit,
+                    total,
+                    totalPages: Math.ceil(total / limit)
+                }
+            });
+        } catch (error) {
+            if (error instanceof AppError) {
+                return res.status(error.statusCode).json({ message: error.message });
+            }
+            this.logger.error("Error fetching own security events:", error);
+            return res.status(500).json({ message: "Internal server error" });
+        }
+    };
+
+    /**
+     * Get the security events of any account (admin function)
+     */
+    getSecurityEvents = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            // Check for validation errors
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return res.status(400).json({ errors: errors.array() });
+            }
+
+            const page = req.query.page ? parseInt(req.query.page as string) : 1;
+            const limit = req.query.limit ? parseInt(req.query.limit as string) : 20;
+
+            const { events, total } = await this.securityEventService.getEvents({
+                authId: req.query.authId as string | undefined,
+                email: req.query.email as string | undefined,
+                ipAddress: req.query.ipAddress as string | undefined,
+                type: req.query.type as SecurityEventType | undefined,
+                startDate: req.query.startDate ? new Date(req.query.startDate as string) : undefined,
+                endDate: req.query.endDate ? new Date(req.query.endDate as string) : undefined
+            }, page, limit);
+
+            return res.status(200).json({
+                events,
+                pagination: {
+                    page,
+                    limit,
+                    total,
+                    totalPages: Math.ceil(total / limit)
+                }
+            });
+        } catch (error) {
+            if (error instanceof AppError) {
+                return res.status(error.statusCode).json({ message: error.message });
+            }
+            this.logger.error("Error fetching security events:", error);
+            return res.status(500).json({ message: "Internal server error" });
+        }
+    };
+
+    /**
+     * Impersonate an account (admin function)
+     */
+    impersonate = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            // Check for validation errors
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return res.status(400).json({ errors: errors.array() });
+            }
+
+            if (!req.authId) {
+                return res.status(401).json({ message: "Authentication required" });
+            }
+
+            const impersonation = await this.authService.impersonate(req.authId, req.params.authId, getRequestContext(req));
+            return res.status(200).json({
+                message: `Impersonating ${impersonation.target.email}. Every request made with this token is audited`,
+                ...impersonation
+            });
+        } catch (error) {
+            if (error instanceof AppError) {
+                return res.status(error.statusCode).json({ message: error.message });
+            }
+            this.logger.error("Error impersonating account:", error);
+            return res.status(500).json({ message: "Internal server error" });
+        }
+    };
+
+    /**
+     * Get the impersonation audit trail (admin function)
+     */
+    getImpersonationLogs = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            // Check for validation errors
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return res.status(400).json({ errors: errors.array() });
+            }
+
+            const page = req.query.page ? parseInt(req.query.page as string) : 1;
+            const limit = req.query.limit ? parseInt(req.query.limit as string) : 20;
+
+            const { logs, total } = await this.impersonationService.getLogs({
+                impersonatorAuthId: req.query.impersonatorAuthId as string | undefined,
+                targetAuthId: req.query.targetAuthId as string | undefined,
+                event: req.query.event as ImpersonationEvent | undefined,
+                startDate: req.query.startDate ? new Date(req.query.startDate as string) : undefined,
+                endDate: req.query.endDate ? new Date(req.query.endDate as string) : undefined
+            }, page, limit);
+
+            return res.status(200).json({
+                logs,
+                pagination: {
+                    page,
+                    limit,
+                    total,
+                    totalPages: Math.ceil(total / limit)
+                }
+            });
+        } catch (error) {
+            if (error instanceof AppError) {
+                return res.status(error.statusCode).json({ message: error.message });
+            }
+            this.logger.error("Error fetching impersonation logs:", error);
+            return res.status(500).json({ message: "Internal server error" });
+        }
+    };
+
     /**
      * Get the profile of the authenticated user or client
      */
@@ -1,14 +1,19 @@
 import { Request, Response } from "express";
 import { body, param, query, validationResult } from "express-validator";
 import { MaritalStatus } from "../entities/Client";
-import {findAllDailyTransaction} from "../repositories";
-import {AuthService, ClientService, LoggerService} from "../services";
+import { ActivityType } from "../repositories/activityRepository";
+import {ActivityService, ClientInvitationService, ClientService, LoggerService, StatsService} from "../services";
 import {AppError} from "../middlewares";
+import {authorize, canAccessAllClients, PolicyAction} from "../policies";
+import { getRequestContext } from "../utils/request.util";
+import type { StatsInterval } from "../services/StatsService";
 
 export class ClientController {
     private logger = LoggerService.getInstance();
     private clientService = new ClientService();
-    private authService = new AuthService();
+    private clientInvitationService = new ClientInvitationService();
+    private statsService = new StatsService();
+    private activityService = new ActivityService();
 
     /**
      * Validation rules for creating/updating clients
@@ -49,12 +54,15 @@ export class ClientController {
         body("maritalStatus")
             .optional()
             .isIn(Object.values(MaritalStatus)).withMessage("Invalid marital status"),
+        body("currentPassword")
+            .optional()
+            .isString().withMessage("Current password must be a string"),
     ];
     clientValidation = [
         ...this.clientUpdateValidation,
-        body("password")
-            .isLength({ min: 6 }).withMessage("Password must be at least 6 characters long")
-            .optional(),
+        body("managerId")
+            .optional()
+            .isUUID().withMessage("Invalid manager ID format"),
     ];
 
     /**
@@ -85,6 +93,41 @@ export class ClientController {
             .isIn(["ASC", "DESC"]).withMessage("Sort order must be ASC or DESC")
     ];
 
+    /**
+     * Validation rules for the dashboard statistics
+     */
+    dashboardStatsValidation = [
+        query("startDate")
+            .optional()
+            .isISO8601().withMessage("Start date must be a valid date in ISO 8601 format"),
+        query("endDate")
+            .optional()
+            .isISO8601().withMessage("End date must be a valid date in ISO 8601 format"),
+        query("interval")
+            .optional()
+            .isIn(["day", "week", "month"]).withMessage("Interval must be day, week or month")
+    ];
+
+    /**
+     * Validation rules for the activity feed
+     * type takes a comma-separated list of activity types
+     */
+    activityFeedValidation = [
+        query("cursor")
+            .optional()
+            .isString().withMessage("Cursor must be a string"),
+        query("limit")
+            .optional()
+            .isInt({ min: 1, max: 100 }).withMessage("Limit must be between 1 and 100"),
+        query("clientId")
+            .optional()
+            .isUUID().withMessage("Invalid client ID format"),
+        query("type")
+            .optional()
+            .custom((value: string) => String(value).split(",").every(type => (Object.values(ActivityType) as string[]).includes(type)))
+            .withMessage(`Type must be a comma-separated list of ${Object.values(ActivityType).join(", ")}`)
+    ];
+
     /**
      * Get all clients with pagination, filtering, and sorting
      */
@@ -105,8 +148,13 @@ export class ClientController {
             const isActive = req.query.isActive === "true" ? true : 
                              req.query.isActive === "false" ? false : undefined;
 
-            // Check if user is requesting their managed clients
-            if (req.query.managed === 'true' && req.userId) {
+            // Managers only see the clients they manage, admins see all of them unless they ask for their own
+            const managedOnly = req.query.managed === 'true' || !(req.principal && canAccessAllClients(req.principal));
+            if (managedOnly) {
+                if (!req.userId) {
+                    return res.status(403).json({ message: "You are not authorized to list clients" });
+                }
+
                 const { clients, total } = await this.clientService.getClientsByManagerPaginated(
                     req.userId,
                     page,
@@ -128,7 +176,7 @@ export class ClientController {
                 });
             }
             
-            // Otherwise return all clients (admin only)
+            // Otherwise return all clients
             const { clients, total } = await this.clientService.getAllClientsPaginated(
                 page,
                 limit,
@@ -171,12 +219,7 @@ export class ClientController {
             const client = await this.clientService.getClientById(id);
             
             // Check if user is authorized to view this client
-            if (req.userId && client.managerId !== req.userId) {
-                // Allow if client is accessing their own data
-                if (!(req.clientId && req.clientId === id)) {
-                    return res.status(403).json({ message: "You are not authorized to view this client" });
-                }
-            }
+            authorize(req.principal, PolicyAction.READ, client);
             
             return res.status(200).json(client);
         } catch (error) {
@@ -189,7 +232,7 @@ export class ClientController {
     };
 
     /**
-     * Create a new client with authentication
+     * Create a new client and invite them to set up their login
      */
     registerClient = async (req: Request, res: Response): Promise<Response> => {
         try {
@@ -213,21 +256,20 @@ export class ClientController {
                 zipCode,
                 complement,
                 maritalStatus,
-                password,
                 managerId
             } = req.body;
 
-            // Password is required for registration
-            if (!password) {
-                return res.status(400).json({ message: "Password is required for client registration" });
-            }
-
             // Use authenticated user as manager if not specified
             const effectiveManagerId = managerId || req.userId;
             if (!effectiveManagerId) {
                 return res.status(400).json({ message: "Manager ID is required" });
             }
 
+            // Only admins can register clients for another manager
+            if (effectiveManagerId !== req.userId && !(req.principal && canAccessAllClients(req.principal))) {
+                return res.status(403).json({ message: "You are not authorized to register clients for another manager" });
+            }
+
             // Create client
             const client = await this.clientService.createClient({
                 name,
@@ -246,12 +288,12 @@ export class ClientController {
                 managerId: effectiveManagerId
             });
 
-            // Register client for authentication
-            await this.authService.registerClient(client, password);
+            // The client chooses their own password when accepting the invitation
+            const invitedClient = await this.clientInvitationService.inviteClient(client.id, req.userId);
 
             return res.status(201).json({
-                message: "Client registered successfully",
-                client
+                message: "Client registered and invitation sent successfully",
+                client: invitedClient
             });
         } catch (error) {
             if (error instanceof AppError) {
@@ -288,7 +330,6 @@ export class ClientController {
                 zipCode,
                 complement,
                 maritalStatus,
-                password,
             } = req.body;
 
             // Use authenticated user as manager if not specified
@@ -315,11 +356,6 @@ export class ClientController {
                 managerId: effectiveManagerId
             });
 
-            // Register client for authentication if password provided
-            if (password) {
-                await this.authService.registerClient(client, password);
-            }
-
             return res.status(201).json(client);
         } catch (error) {
             if (error instanceof AppError) {
@@ -358,26 +394,32 @@ export class ClientController {
                 maritalStatus,
                 isActive,
                 managerId,
-                password
+                password,
+                currentPassword
             } = req.body;
 
             // Get current client
             const currentClient = await this.clientService.getClientById(id);
             
             // Check if user is authorized to update this client
-            if (req.userId && currentClient.managerId !== req.userId) {
-                // Allow if client is updating their own data
-                if (!(req.clientId && req.clientId === id)) {
-                    return res.status(403).json({ message: "You are not authorized to update this client" });
-                }
-                
-                // Clients can't update certain fields
-                if (req.clientId && (managerId || isActive !== undefined)) {
-                    return res.status(403).json({ message: "You are not authorized to update these fields" });
-                }
+            authorize(req.principal, PolicyAction.UPDATE, currentClient);
+
+            // Clients can't update certain fields
+            if (req.clientId && (managerId || isActive !== undefined)) {
+                return res.status(403).json({ message: "You are not authorized to update these fields" });
             }
 
-            // Update client
+            // Only admins can move a client to another manager
+            if (managerId && managerId !== currentClient.managerId && !(req.principal && canAccessAllClients(req.principal))) {
+                return res.status(403).json({ message: "You are not authorized to change this client's manager" });
+            }
+
+            // Only the client sets their password; managers send an invitation or a reset link instead
+            if (password && req.clientId !== id) {
+                return res.status(403).json({ message: "You are not authorized to set this client's password" });
+            }
+
+            // Clients changing their own email or password confirm it with their current password
             const client = await this.clientService.updateClient(id, {
                 name,
                 email,
@@ -394,8 +436,9 @@ export class ClientController {
                 maritalStatus,
                 isActive,
                 managerId,
-                password
-            });
+                password,
+                currentPassword
+            }, getRequestContext(req), { requireCurrentPassword: req.clientId === id });
 
             return res.status(200).json({
                 message: "Client updated successfully",
@@ -427,12 +470,10 @@ export class ClientController {
             const currentClient = await this.clientService.getClientById(id);
             
             // Check if user is authorized to deactivate this client
-            if (req.userId && currentClient.managerId !== req.userId) {
-                return res.status(403).json({ message: "You are not authorized to deactivate this client" });
-            }
+            authorize(req.principal, PolicyAction.UPDATE, currentClient);
 
             // Deactivate client
-            const client = await this.clientService.updateClient(id, { isActive: false });
+            const client = await this.clientService.updateClient(id, { isActive: false }, getRequestContext(req));
 
             return res.status(200).json({
                 message: "Client deactivated successfully",
@@ -464,9 +505,7 @@ export class ClientController {
             const currentClient = await this.clientService.getClientById(id);
             
             // Check if user is authorized to delete this client
-            if (req.userId && currentClient.managerId !== req.userId) {
-                return res.status(403).json({ message: "You are not authorized to delete this client" });
-            }
+            authorize(req.principal, PolicyAction.DELETE, currentClient);
 
             // Delete client
             await this.clientService.deleteClient(id);
@@ -481,29 +520,134 @@ export class ClientController {
     };
 
     /**
-     * Get dashboard stats for admin
-     * - Total clients
-     * - Active clients
-     * - System status
-     * - Last login date
+     * Invite an existing client to set up their login
      */
-    getDashboardStats = async (req: Request, res: Response): Promise<Response> => {
+    invite = async (req: Request, res: Response): Promise<Response> => {
         try {
-            // Get total clients count
-            const { clients: allClients, total: totalClients } = await this.clientService.getAllClientsPaginated(1, 1);
-            
-            // Get active clients count
-            const { total: activeClients } = await this.clientService.getAllClientsPaginated(1, 1, undefined, undefined, undefined, true);
-            
-            // For now, hardcode some values that would normally come from other services
-            const lastLoginDate = new Date().toISOString(); // Would normally come from auth service
-            
-            return res.status(200).json({ data:
-                allClients,
-                totalClients,
-                activeClients,
-                lastLoginDate
+            // Check for validation errors
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return res.status(400).json({ errors: errors.array() });
+            }
+
+            const id = req.params.id;
+
+            // Get current client
+            const currentClient = await this.clientService.getClientById(id);
+
+            // Check if user is authorized to invite this client
+            authorize(req.principal, PolicyAction.UPDATE, currentClient);
+
+            const client = await this.clientInvitationService.inviteClient(id, req.userId);
+
+            return res.status(200).json({
+                message: "Invitation sent successfully",
+                client
             });
+        } catch (error) {
+            if (error instanceof AppError) {
+                return res.status(error.statusCode).json({ message: error.message });
+            }
+            this.logger.error("Error inviting client:", error);
+            return res.status(500).json({ message: "Internal server error" });
+        }
+    };
+
+    /**
+     * Resend a client's pending invitation with a new link
+     */
+    resendInvitation = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            // Check for validation errors
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return res.status(400).json({ errors: errors.array() });
+            }
+
+            const id = req.params.id;
+
+            // Get current client
+            const currentClient = await this.clientService.getClientById(id);
+
+            // Check if user is authorized to invite this client
+            authorize(req.principal, PolicyAction.UPDATE, currentClient);
+
+            const client = await this.clientInvitationService.resendInvitation(id, req.userId);
+
+            return res.status(200).json({
+                message: "Invitation resent successfully",
+                client
+            });
+        } catch (error) {
+            if (error instanceof AppError) {
+                return res.status(error.statusCode).json({ message: error.message });
+            }
+            this.logger.error("Error resending client invitation:", error);
+            return res.status(500).json({ message: "Internal server error" });
+        }
+    };
+
+    /**
+     * Revoke a client's pending invitation
+     */
+    revokeInvitation = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            // Check for validation errors
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return res.status(400).json({ errors: errors.array() });
+            }
+
+            const id = req.params.id;
+
+            // Get current client
+            const currentClient = await this.clientService.getClientById(id);
+
+            // Check if user is authorized to revoke this invitation
+            authorize(req.principal, PolicyAction.UPDATE, currentClient);
+
+            const client = await this.clientInvitationService.revokeInvitation(id);
+
+            return res.status(200).json({
+                message: "Invitation revoked successfully",
+                client
+            });
+        } catch (error) {
+            if (error instanceof AppError) {
+                return res.status(error.statusCode).json({ message: error.message });
+            }
+            this.logger.error("Error revoking client invitation:", error);
+            return res.status(500).json({ message: "Internal server error" });
+        }
+    };
+
+    /**
+     * Get dashboard stats
+     * - Active and inactive clients, new clients per period and clients per manager
+     * - Logins in the last 7 and 30 days and the last login date
+     * - Budgets created this month and tracked spend per month
+     * Managers only get the statistics of the clients they manage.
+     */
+    getDashboardStats = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            // Check for validation errors
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return res.status(400).json({ errors: errors.array() });
+            }
+
+            const allClients = !!req.principal && canAccessAllClients(req.principal);
+            if (!allClients && !req.userId) {
+                return res.status(403).json({ message: "You are not authorized to view statistics" });
+            }
+
+            const stats = await this.statsService.getDashboardStats({
+                startDate: req.query.startDate ? new Date(req.query.startDate as string) : undefined,
+                endDate: req.query.endDate ? new Date(req.query.endDate as string) : undefined,
+                interval: req.query.interval as StatsInterval | undefined
+            }, allClients ? undefined : req.userId);
+
+            return res.status(200).json(stats);
         } catch (error) {
             if (error instanceof AppError) {
                 return res.status(error.statusCode).json({ message: error.message });
@@ -514,17 +658,40 @@ export class ClientController {
     }
 
     /**
-     * Get recent client activities
-     * Based on recent transactions
+     * Get recent client activities: transactions, budget changes, registrations and logins, newest first
+     * Managers only see the activity of the clients they manage, clients only their own.
      */
     getRecentActivities = async (req: Request, res: Response): Promise<Response> => {
         try {
+            // Check for validation errors
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return res.status(400).json({ errors: errors.array() });
+            }
+
+            const limit = req.query.limit ? parseInt(req.query.limit as string) : 20;
+            const types = req.query.type ? (req.query.type as string).split(",") as ActivityType[] : undefined;
+            let clientId = req.query.clientId as string | undefined;
 
-            // Get all clients first (limited to improve performance)
-            const transactions = await findAllDailyTransaction();
+            // A single client's activity follows the ownership policy of the client
+            if (clientId) {
+                const client = await this.clientService.getClientById(clientId);
+                authorize(req.principal, PolicyAction.READ, client);
+            }
+
+            let managerId: string | undefined;
+            if (!(req.principal && canAccessAllClients(req.principal))) {
+                if (req.userId) {
+                    managerId = req.userId;
+                } else if (req.clientId) {
+                    clientId = req.clientId;
+                } else {
+                    return res.status(403).json({ message: "You are not authorized to view activities" });
+                }
+            }
 
-            const limitedActivities = transactions.slice(0, 10);
-            return res.status(200).json(limitedActivities);
+            const feed = await this.activityService.getFeed({ managerId, clientId, types }, req.query.cursor as string | undefined, limit);
+            return res.status(200).json(feed);
         } catch (error) {
             if (error instanceof AppError) {
                 return res.status(error.statusCode).json({ message: error.message });
@@ -1,12 +1,14 @@
 import { Request, Response } from "express";
 import { body, param, query, validationResult } from "express-validator";
 import { TransactionType } from "../entities/DailyTransaction";
-import {DailyTransactionService, LoggerService} from "../services";
+import {ClientService, DailyTransactionService, LoggerService} from "../services";
 import {AppError} from "../middlewares";
+import {authorize, PolicyAction} from "../policies";
 
 export class DailyTransactionController {
     private logger = LoggerService.getInstance();
     private dailyTransactionService = new DailyTransactionService();
+    private clientService = new ClientService();
 
     /**
      * Validation rules for daily transaction ID
@@ -64,14 +66,42 @@ export class DailyTransactionController {
     ];
 
     /**
-     * Get all daily transactions for the authenticated client
+     * Get the client whose transactions are accessed: the client in the route for the manager routes
+     * (checked against the ownership policy), otherwise the authenticated client
+     * @param req Request object
+     * @param action Action to authorize
+     * @returns Client ID, or undefined when there is none
+     */
+    private async resolveClientId(req: Request, action: PolicyAction): Promise<string | undefined> {
+        if (req.params.clientId) {
+            const client = await this.clientService.getClientById(req.params.clientId);
+            authorize(req.principal, action, client);
+            return client.id;
+        }
+        return req.clientId;
+    }
+
+    /**
+     * Get all daily transactions for the authenticated client or a managed client
      */
     getAll = async (req: Request, res: Response): Promise<Response> => {
         try {
+            // Check for validation errors
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return res.status(400).json({ errors: errors.array() });
+            }
+
+            // Ensure a client is authenticated or selected
+            const clientId = await this.resolveClientId(req, PolicyAction.READ);
+            if (!clientId) {
+                return res.status(403).json({ message: "Only clients can access their daily transactions" });
+            }
+
             const page = req.query.page ? parseInt(req.query.page as string) : 1;
             const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
 
-            const { transactions, total } = await this.dailyTransactionService.getDailyTransactionsByClient(req.clientId, page, limit);
+            const { transactions, total } = await this.dailyTransactionService.getDailyTransactionsByClient(clientId, page, limit);
             return res.status(200).json({
                 transactions,
                 pagination: {
@@ -100,13 +130,14 @@ export class DailyTransactionController {
                 return res.status(400).json({ errors: errors.array() });
             }
 
-            // Ensure client is authenticated
-            if (!req.clientId) {
+            // Ensure a client is authenticated or selected
+            const clientId = await this.resolveClientId(req, PolicyAction.READ);
+            if (!clientId) {
                 return res.status(403).json({ message: "Only clients can access their daily transactions" });
             }
 
             const date = new Date(req.params.date);
-            const transactions = await this.dailyTransactionService.getDailyTransactionsByDate(req.clientId, date);
+            const transactions = await this.dailyTransactionService.getDailyTransactionsByDate(clientId, date);
             
             return res.status(200).json(transactions);
         } catch (error) {
@@ -129,15 +160,16 @@ export class DailyTransactionController {
                 return res.status(400).json({ errors: errors.array() });
             }
 
-            // Ensure client is authenticated
-            if (!req.clientId) {
+            // Ensure a client is authenticated or selected
+            const clientId = await this.resolveClientId(req, PolicyAction.READ);
+            if (!clientId) {
                 return res.status(403).json({ message: "Only clients can access their daily transactions" });
             }
 
             const year = parseInt(req.params.year);
             const month = parseInt(req.params.month);
             
-            const transactions = await this.dailyTransactionService.getDailyTransactionsByMonth(req.clientId, year, month);
+            const transactions = await this.dailyTransactionService.getDailyTransactionsByMonth(clientId, year, month);
             
             return res.status(200).json(transactions);
         } catch (error) {
@@ -160,17 +192,15 @@ export class DailyTransactionController {
                 return res.status(400).json({ errors: errors.array() });
             }
 
-            // Ensure client is authenticated
-            if (!req.clientId) {
-                return res.status(403).json({ message: "Only clients can access their daily transactions" });
-            }
-
             const id = req.params.id;
             const transaction = await this.dailyTransactionService.getDailyTransactionById(id);
             
-            // Ensure client can only access their own transactions
-            if (transaction.clientId !== req.clientId) {
-                return res.status(403).json({ message: "You are not authorized to view this transaction" });
+            // Ensure the transaction belongs to the client or to a client of the manager
+            authorize(req.principal, PolicyAction.READ, transaction);
+
+            // On the manager routes, the transaction must belong to the client in the route
+            if (req.params.clientId && transaction.clientId !== req.params.clientId) {
+                return res.status(404).json({ message: "Daily transaction not found" });
             }
             
             return res.status(200).json(transaction);
@@ -193,7 +223,12 @@ export class DailyTransactionController {
                 return res.status(400).json({ errors: errors.array() });
             }
 
-            const clientId = req.params.clientId;
+            // Ensure the authenticated account can access this client
+            const clientId = await this.resolveClientId(req, PolicyAction.READ);
+            if (!clientId) {
+                return res.status(403).json({ message: "Only clients can access their daily transactions" });
+            }
+
             const transactions = await this.dailyTransactionService.getDailyTransactionsByClient(clientId);
 
             return res.status(200).json(transactions);
@@ -217,8 +252,9 @@ export class DailyTransactionController {
                 return res.status(400).json({ errors: errors.array() });
             }
 
-            // Ensure client is authenticated
-            if (!req.clientId) {
+            // Ensure a client is authenticated or selected
+            const clientId = await this.resolveClientId(req, PolicyAction.CREATE);
+            if (!clientId) {
                 return res.status(403).json({ message: "Only clients can create daily transactions" });
             }
 
@@ -229,7 +265,7 @@ export class DailyTransactionController {
                 amount,
                 type,
                 date: new Date(date),
-                clientId: req.clientId,
+                clientId,
                 categoryId
             });
             
@@ -257,20 +293,18 @@ export class DailyTransactionController {
                 return res.status(400).json({ errors: errors.array() });
             }
 
-            // Ensure client is authenticated
-            if (!req.clientId) {
-                return res.status(403).json({ message: "Only clients can update daily transactions" });
-            }
-
             const id = req.params.id;
             const { description, amount, type, date, categoryId } = req.body;
             
             // Get transaction to check ownership
             const transaction = await this.dailyTransactionService.getDailyTransactionById(id);
             
-            // Ensure client can only update their own transactions
-            if (transaction.clientId !== req.clientId) {
-                return res.status(403).json({ message: "You are not authorized to update this transaction" });
+            // Ensure the transaction belongs to the client or to a client of the manager
+            authorize(req.principal, PolicyAction.UPDATE, transaction);
+
+            // On the manager routes, the transaction must belong to the client in the route
+            if (req.params.clientId && transaction.clientId !== req.params.clientId) {
+                return res.status(404).json({ message: "Daily transaction not found" });
             }
             
             const updatedTransaction = await this.dailyTransactionService.updateDailyTransaction(id, {
@@ -305,19 +339,17 @@ export class DailyTransactionController {
                 return res.status(400).json({ errors: errors.array() });
             }
 
-            // Ensure client is authenticated
-            if (!req.clientId) {
-                return res.status(403).json({ message: "Only clients can delete daily transactions" });
-            }
-
             const id = req.params.id;
             
             // Get transaction to check ownership
             const transaction = await this.dailyTransactionService.getDailyTransactionById(id);
             
-            // Ensure client can only delete their own transactions
-            if (transaction.clientId !== req.clientId) {
-                return res.status(403).json({ message: "You are not authorized to delete this transaction" });
+            // Ensure the transaction belongs to the client or to a client of the manager
+            authorize(req.principal, PolicyAction.DELETE, transaction);
+
+            // On the manager routes, the transaction must belong to the client in the route
+            if (req.params.clientId && transaction.clientId !== req.params.clientId) {
+                return res.status(404).json({ message: "Daily transaction not found" });
             }
             
             await this.dailyTransactionService.deleteDailyTransaction(id);
@@ -345,13 +377,14 @@ export class DailyTransactionController {
                 return res.status(400).json({ errors: errors.array() });
             }
 
-            // Ensure client is authenticated
-            if (!req.clientId) {
+            // Ensure a client is authenticated or selected
+            const clientId = await this.resolveClientId(req, PolicyAction.READ);
+            if (!clientId) {
                 return res.status(403).json({ message: "Only clients can access their daily transactions sum" });
             }
 
             const date = new Date(req.params.date);
-            const sum = await this.dailyTransactionService.getDailyTransactionsSumByDate(req.clientId, date);
+            const sum = await this.dailyTransactionService.getDailyTransactionsSumByDate(clientId, date);
             
             return res.status(200).json({ sum });
         } catch (error) {
@@ -374,15 +407,16 @@ export class DailyTransactionController {
                 return res.status(400).json({ errors: errors.array() });
             }
 
-            // Ensure client is authenticated
-            if (!req.clientId) {
+            // Ensure a client is authenticated or selected
+            const clientId = await this.resolveClientId(req, PolicyAction.READ);
+            if (!clientId) {
                 return res.status(403).json({ message: "Only clients can access their daily transactions sum" });
             }
 
             const year = parseInt(req.params.year);
             const month = parseInt(req.params.month);
             
-            const sum = await this.dailyTransactionService.getDailyTransactionsSumByMonth(req.clientId, year, month);
+            const sum = await this.dailyTransactionService.getDailyTransactionsSumByMonth(clientId, year, month);
             
             return res.status(200).json({ sum });
         } catch (error) {
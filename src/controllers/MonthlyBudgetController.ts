@@ -1,12 +1,21 @@
 import { Request, Response } from "express";
-import { body, param, validationResult } from "express-validator";
+import { body, param, query, validationResult } from "express-validator";
 import { AppError } from "../middlewares/error.middleware";
 import { LoggerService } from "../services/LoggerService";
 import { MonthlyBudgetService } from "../services/MonthlyBudgetService";
+import { ClientService } from "../services/ClientService";
+import { BudgetLedgerService } from "../services/BudgetLedgerService";
+import { CategoryBudgetService } from "../services/CategoryBudgetService";
+import { authorize, PolicyAction } from "../policies";
+import { RolloverPolicy } from "../entities/Client";
+import { MonthlyBudget } from "../entities/MonthlyBudget";
 
 export class MonthlyBudgetController {
     private logger = LoggerService.getInstance();
     private monthlyBudgetService = new MonthlyBudgetService();
+    private clientService = new ClientService();
+    private budgetLedgerService = new BudgetLedgerService();
+    private categoryBudgetService = new CategoryBudgetService();
 
     /**
      * Validation rules for monthly budget ID
@@ -15,6 +24,13 @@ export class MonthlyBudgetController {
         param("id").isUUID().withMessage("Invalid monthly budget ID format")
     ];
 
+    /**
+     * Validation rules for client ID
+     */
+    clientIdValidation = [
+        param("clientId").isUUID().withMessage("Invalid client ID format")
+    ];
+
     /**
      * Validation rules for monthly salary
      */
@@ -49,16 +65,119 @@ export class MonthlyBudgetController {
     ];
 
     /**
-     * Get all monthly budgets for the authenticated client
+     * Validation rules for the rollover settings
+     */
+    rolloverSettingsValidation = [
+        body("rolloverPolicy")
+            .optional()
+            .isIn(Object.values(RolloverPolicy))
+            .withMessage("Rollover policy must be none, surplus, deficit or both"),
+        body("copyPreviousBudget")
+            .optional()
+            .isBoolean()
+            .withMessage("copyPreviousBudget must be a boolean")
+    ];
+
+    /**
+     * Validation rules for category budget ID
+     */
+    categoryBudgetIdValidation = [
+        param("categoryBudgetId").isUUID().withMessage("Invalid category budget ID format")
+    ];
+
+    /**
+     * Validation rules for creating a category budget
+     */
+    createCategoryBudgetValidation = [
+        body("categoryId").isUUID().withMessage("Invalid category ID format"),
+        body("amount")
+            .isFloat({ min: 0 })
+            .withMessage("Amount must be a positive number"),
+        body("isPercentage")
+            .optional()
+            .isBoolean()
+            .withMessage("isPercentage must be a boolean")
+    ];
+
+    /**
+     * Validation rules for updating a category budget
+     */
+    updateCategoryBudgetValidation = [
+        body("amount")
+            .optional()
+            .isFloat({ min: 0 })
+            .withMessage("Amount must be a positive number"),
+        body("isPercentage")
+            .optional()
+            .isBoolean()
+            .withMessage("isPercentage must be a boolean")
+    ];
+
+    /**
+     * Validation rules for checking the ledger of one budget or all of them
+     */
+    ledgerCheckValidation = [
+        query("budgetId").optional().isUUID().withMessage("Invalid monthly budget ID format")
+    ];
+
+    /**
+     * Validation rules for rebuilding the ledger of one budget or all of them
+     */
+    ledgerRebuildValidation = [
+        body("budgetId").optional().isUUID().withMessage("Invalid monthly budget ID format")
+    ];
+
+    /**
+     * Get the client whose budgets are accessed: the client in the route for the manager routes
+     * (checked against the ownership policy), otherwise the authenticated client
+     * @param req Request object
+     * @param action Action to authorize
+     * @returns Client ID, or undefined when there is none
+     */
+    private async resolveClientId(req: Request, action: PolicyAction): Promise<string | undefined> {
+        if (req.params.clientId) {
+            const client = await this.clientService.getClientById(req.params.clientId);
+            authorize(req.principal, action, client);
+            return client.id;
+        }
+        return req.clientId;
+    }
+
+    /**
+     * Get the monthly budget in the route, checked against the ownership policy.
+     * On the manager routes, the budget must also belong to the client in the route.
+     * @param req Request object
+     * @param action Action to authorize
+     * @throws AppError 404 when the budget does not exist or belongs to another client, 403 when not allowed
+     */
+    private async getAuthorizedBudget(req: Request, action: PolicyAction): Promise<MonthlyBudget> {
+        const budget = await this.monthlyBudgetService.getMonthlyBudgetById(req.params.id);
+        authorize(req.principal, action, budget);
+
+        if (req.params.clientId && budget.clientId !== req.params.clientId) {
+            throw new AppError("Monthly budget not found", 404);
+        }
+        return budget;
+    }
+
+    /**
+     * Get all monthly budgets for the authenticated client or a managed client
      */
     getAll = async (req: Request, res: Response): Promise<Response> => {
         try {
-            // Ensure client is authenticated
-            if (!req.clientId) {
+            // Check for validation errors
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return res.status(400).json({ errors: errors.array() });
+            }
+
+            // Ensure a client is authenticated or selected
+            const clientId = await this.resolveClientId(req, PolicyAction.READ);
+            if (!clientId) {
                 return res.status(403).json({ message: "Only clients can access their monthly budgets" });
             }
 
-            const budgets = await this.monthlyBudgetService.getMonthlyBudgetsByClient(req.clientId);
+            const budgets = await this.monthlyBudgetService.getMonthlyBudgetsByClient(clientId);
             return res.status(200).json(budgets);
         } catch (error) {
             if (error instanceof AppError) {
@@ -80,31 +199,47 @@ export class MonthlyBudgetController {
                 return res.status(400).json({ errors: errors.array() });
             }
 
-            // Ensure client is authenticated
-            if (!req.clientId) {
-                return res.status(403).json({ message: "Only clients can access their monthly budgets" });
+            // Ensure the budget belongs to the client or to a client of the manager
+            const budget = await this.getAuthorizedBudget(req, PolicyAction.READ);
+
+            const envelopes = await this.categoryBudgetService.getEnvelopes(budget);
+            return res.status(200).json({ ...budget, ...envelopes });
+        } catch (error) {
+            if (error instanceof AppError) {
+                return res.status(error.statusCode).json({ message: error.message });
             }
+            this.logger.error("Error fetching monthly budget:", error);
+            return res.status(500).json({ message: "Internal server error" });
+        }
+    };
 
-            const id = req.params.id;
-            const budget = await this.monthlyBudgetService.getMonthlyBudgetById(id);
-            
-            // Ensure client can only access their own budgets
-            if (budget.clientId !== req.clientId) {
-                return res.status(403).json({ message: "You are not authorized to view this budget" });
+    /**
+     * Get the pacing of a monthly budget: safe to spend today, pace and projected end-of-month balance
+     */
+    getPacing = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            // Check for validation errors
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return res.status(400).json({ errors: errors.array() });
             }
-            
-            return res.status(200).json(budget);
+
+            // Ensure the budget belongs to the client or to a client of the manager
+            const budget = await this.getAuthorizedBudget(req, PolicyAction.READ);
+
+            const pacing = await this.monthlyBudgetService.getPacing(budget.id);
+            return res.status(200).json(pacing);
         } catch (error) {
             if (error instanceof AppError) {
                 return res.status(error.statusCode).json({ message: error.message });
             }
-            this.logger.error("Error fetching monthly budget:", error);
+            this.logger.error("Error fetching monthly budget pacing:", error);
             return res.status(500).json({ message: "Internal server error" });
         }
     };
 
     /**
-     * Get or create a monthly budget for a specific year and month
+     * Get or create the monthly budget of a specific year and month
      */
     getOrCreateByYearMonth = async (req: Request, res: Response): Promise<Response> => {
         try {
@@ -114,16 +249,18 @@ export class MonthlyBudgetController {
                 return res.status(400).json({ errors: errors.array() });
             }
 
-            // Ensure client is authenticated
-            if (!req.clientId) {
+            // Ensure a client is authenticated or selected
+            const clientId = await this.resolveClientId(req, PolicyAction.READ);
+            if (!clientId) {
                 return res.status(403).json({ message: "Only clients can access their monthly budgets" });
             }
 
             const year = parseInt(req.params.year);
             const month = parseInt(req.params.month);
             
-            const budget = await this.monthlyBudgetService.getOrCreateMonthlyBudget(req.clientId, year, month);
-            return res.status(200).json(budget);
+            const budget = await this.monthlyBudgetService.getOrCreateMonthlyBudget(clientId, year, month);
+            const envelopes = await this.categoryBudgetService.getEnvelopes(budget);
+            return res.status(200).json({ ...budget, ...envelopes });
         } catch (error) {
             if (error instanceof AppError) {
                 return res.status(error.statusCode).json({ message: error.message });
@@ -144,23 +281,12 @@ export class MonthlyBudgetController {
                 return res.status(400).json({ errors: errors.array() });
             }
 
-            // Ensure client is authenticated
-            if (!req.clientId) {
-                return res.status(403).json({ message: "Only clients can update their monthly salary" });
-            }
-
-            const id = req.params.id;
             const { monthlySalary } = req.body;
-            
-            // Get budget to check ownership
-            const budget = await this.monthlyBudgetService.getMonthlyBudgetById(id);
-            
-            // Ensure client can only update their own budgets
-            if (budget.clientId !== req.clientId) {
-                return res.status(403).json({ message: "You are not authorized to update this budget" });
-            }
-            
-            const updatedBudget = await this.monthlyBudgetService.updateMonthlySalary(id, monthlySalary);
+
+            // Ensure the budget belongs to the client or to a client of the manager
+            const budget = await this.getAuthorizedBudget(req, PolicyAction.UPDATE);
+
+            const updatedBudget = await this.monthlyBudgetService.updateMonthlySalary(budget.id, monthlySalary);
             return res.status(200).json({
                 message: "Monthly salary updated successfully",
                 budget: updatedBudget
@@ -185,23 +311,12 @@ export class MonthlyBudgetController {
                 return res.status(400).json({ errors: errors.array() });
             }
 
-            // Ensure client is authenticated
-            if (!req.clientId) {
-                return res.status(403).json({ message: "Only clients can update their budget amount" });
-            }
-
-            const id = req.params.id;
             const { budgetAmount, isPercentage } = req.body;
-            
-            // Get budget to check ownership
-            const budget = await this.monthlyBudgetService.getMonthlyBudgetById(id);
-            
-            // Ensure client can only update their own budgets
-            if (budget.clientId !== req.clientId) {
-                return res.status(403).json({ message: "You are not authorized to update this budget" });
-            }
-            
-            const updatedBudget = await this.monthlyBudgetService.updateBudgetAmount(id, budgetAmount, isPercentage);
+
+            // Ensure the budget belongs to the client or to a client of the manager
+            const budget = await this.getAuthorizedBudget(req, PolicyAction.UPDATE);
+
+            const updatedBudget = await this.monthlyBudgetService.updateBudgetAmount(budget.id, budgetAmount, isPercentage);
             return res.status(200).json({
                 message: "Budget amount updated successfully",
                 budget: updatedBudget
@@ -214,4 +329,229 @@ export class MonthlyBudgetController {
             return res.status(500).json({ message: "Internal server error" });
         }
     };
+
+    /**
+     * Get the rollover settings of the authenticated client or a managed client
+     */
+    getRolloverSettings = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            // Check for validation errors
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return res.status(400).json({ errors: errors.array() });
+            }
+
+            // Ensure a client is authenticated or selected
+            const clientId = await this.resolveClientId(req, PolicyAction.READ);
+            if (!clientId) {
+                return res.status(403).json({ message: "Only clients can access their monthly budgets" });
+            }
+
+            const settings = await this.monthlyBudgetService.getRolloverSettings(clientId);
+            return res.status(200).json(settings);
+        } catch (error) {
+            if (error instanceof AppError) {
+                return res.status(error.statusCode).json({ message: error.message });
+            }
+            this.logger.error("Error fetching rollover settings:", error);
+            return res.status(500).json({ message: "Internal server error" });
+        }
+    };
+
+    /**
+     * Update the rollover settings of the authenticated client or a managed client
+     */
+    updateRolloverSettings = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            // Check for validation errors
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return res.status(400).json({ errors: errors.array() });
+            }
+
+            // Ensure a client is authenticated or selected
+            const clientId = await this.resolveClientId(req, PolicyAction.UPDATE);
+            if (!clientId) {
+                return res.status(403).json({ message: "Only clients can access their monthly budgets" });
+            }
+
+            const { rolloverPolicy, copyPreviousBudget } = req.body;
+            const settings = await this.monthlyBudgetService.updateRolloverSettings(clientId, {
+                rolloverPolicy,
+                copyPreviousBudget
+            });
+            return res.status(200).json({
+                message: "Rollover settings updated successfully",
+                settings
+            });
+        } catch (error) {
+            if (error instanceof AppError) {
+                return res.status(error.statusCode).json({ message: error.message });
+            }
+            this.logger.error("Error updating rollover settings:", error);
+            return res.status(500).json({ message: "Internal server error" });
+        }
+    };
+
+    /**
+     * Get the category budgets of a monthly budget with their spent and remaining amounts
+     */
+    getCategoryBudgets = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            // Check for validation errors
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return res.status(400).json({ errors: errors.array() });
+            }
+
+            // Ensure the budget belongs to the client or to a client of the manager
+            const budget = await this.getAuthorizedBudget(req, PolicyAction.READ);
+
+            const envelopes = await this.categoryBudgetService.getEnvelopes(budget);
+            return res.status(200).json(envelopes);
+        } catch (error) {
+            if (error instanceof AppError) {
+                return res.status(error.statusCode).json({ message: error.message });
+            }
+            this.logger.error("Error fetching category budgets:", error);
+            return res.status(500).json({ message: "Internal server error" });
+        }
+    };
+
+    /**
+     * Add a category budget to a monthly budget
+     */
+    createCategoryBudget = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            // Check for validation errors
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return res.status(400).json({ errors: errors.array() });
+            }
+
+            // Ensure the budget belongs to the client or to a client of the manager
+            const budget = await this.getAuthorizedBudget(req, PolicyAction.UPDATE);
+
+            const { categoryId, amount, isPercentage = false } = req.body;
+            const categoryBudget = await this.categoryBudgetService.createCategoryBudget(budget.id, {
+                categoryId,
+                amount,
+                isPercentage
+            });
+            return res.status(201).json({
+                message: "Category budget created successfully",
+                categoryBudget
+            });
+        } catch (error) {
+            if (error instanceof AppError) {
+                return res.status(error.statusCode).json({ message: error.message });
+            }
+            this.logger.error("Error creating category budget:", error);
+            return res.status(500).json({ message: "Internal server error" });
+        }
+    };
+
+    /**
+     * Update the amount of a category budget
+     */
+    updateCategoryBudget = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            // Check for validation errors
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return res.status(400).json({ errors: errors.array() });
+            }
+
+            // Ensure the budget belongs to the client or to a client of the manager
+            const budget = await this.getAuthorizedBudget(req, PolicyAction.UPDATE);
+
+            const { amount, isPercentage } = req.body;
+            const categoryBudget = await this.categoryBudgetService.updateCategoryBudget(budget.id, req.params.categoryBudgetId, {
+                amount,
+                isPercentage
+            });
+            return res.status(200).json({
+                message: "Category budget updated successfully",
+                categoryBudget
+            });
+        } catch (error) {
+            if (error instanceof AppError) {
+                return res.status(error.statusCode).json({ message: error.message });
+            }
+            this.logger.error("Error updating category budget:", error);
+            return res.status(500).json({ message: "Internal server error" });
+        }
+    };
+
+    /**
+     * Remove a category budget from a monthly budget
+     */
+    deleteCategoryBudget = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            // Check for validation errors
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return res.status(400).json({ errors: errors.array() });
+            }
+
+            // Ensure the budget belongs to the client or to a client of the manager
+            const budget = await this.getAuthorizedBudget(req, PolicyAction.UPDATE);
+
+            await this.categoryBudgetService.deleteCategoryBudget(budget.id, req.params.categoryBudgetId);
+            return res.status(200).json({ message: "Category budget deleted successfully" });
+        } catch (error) {
+            if (error instanceof AppError) {
+                return res.status(error.statusCode).json({ message: error.message });
+            }
+            this.logger.error("Error deleting category budget:", error);
+            return res.status(500).json({ message: "Internal server error" });
+        }
+    };
+
+    /**
+     * Report budgets whose stored balances drifted from their transactions (admin function)
+     */
+    checkLedger = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            // Check for validation errors
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return res.status(400).json({ errors: errors.array() });
+            }
+
+            const result = await this.budgetLedgerService.check(req.query.budgetId as string | undefined);
+            return res.status(200).json(result);
+        } catch (error) {
+            if (error instanceof AppError) {
+                return res.status(error.statusCode).json({ message: error.message });
+            }
+            this.logger.error("Error checking budget ledger:", error);
+            return res.status(500).json({ message: "Internal server error" });
+        }
+    };
+
+    /**
+     * Rebuild the balances of one budget or all of them from their transactions (admin function)
+     */
+    rebuildLedger = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            // Check for validation errors
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return res.status(400).json({ errors: errors.array() });
+            }
+
+            const result = await this.budgetLedgerService.rebuild(req.body.budgetId);
+            return res.status(200).json({
+                message: "Budget ledger rebuilt successfully",
+                ...result
+            });
+        } catch (error) {
+            if (error instanceof AppError) {
+                return res.status(error.statusCode).json({ message: error.message });
+            }
+            this.logger.error("Error rebuilding budget ledger:", error);
+            return res.status(500).json({ message: "Internal server error" });
+        }
+    };
 }
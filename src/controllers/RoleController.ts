@@ -3,7 +3,7 @@ import { body, param, validationResult } from "express-validator";
 import { AppError } from "../middlewares/error.middleware";
 import { LoggerService } from "../services/LoggerService";
 import { RoleService } from "../services/RoleService";
-import { RoleType } from "../entities/Role";
+import { PermissionType } from "../entities/Permission";
 
 export class RoleController {
     private logger = LoggerService.getInstance();
@@ -15,13 +15,19 @@ export class RoleController {
     roleValidation = [
         body("name")
             .optional()
-            .isIn(Object.values(RoleType)).withMessage("Invalid role name"),
+            .isString().trim()
+            .isLength({ min: 1, max: 50 }).withMessage("Role name must be between 1 and 50 characters"),
         body("description")
             .optional()
             .isString().withMessage("Description must be a string"),
         body("isActive")
             .optional()
-            .isBoolean().withMessage("isActive must be a boolean")
+            .isBoolean().withMessage("isActive must be a boolean"),
+        body("permissions")
+            .optional()
+            .isArray().withMessage("Permissions must be an array"),
+        body("permissions.*")
+            .isIn(Object.values(PermissionType)).withMessage("Invalid permission")
     ];
 
     /**
@@ -47,6 +53,22 @@ export class RoleController {
         }
     };
 
+    /**
+     * Get all permissions that can be granted to roles
+     */
+    getPermissions = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            const permissions = await this.roleService.getAllPermissions();
+            return res.status(200).json(permissions);
+        } catch (error) {
+            if (error instanceof AppError) {
+                return res.status(error.statusCode).json({ message: error.message });
+            }
+            this.logger.error("Error fetching permissions:", error);
+            return res.status(500).json({ message: "Internal server error" });
+        }
+    };
+
     /**
      * Get a role by ID
      */
@@ -81,7 +103,7 @@ export class RoleController {
                 return res.status(400).json({ errors: errors.array() });
             }
 
-            const { name, description } = req.body;
+            const { name, description, permissions } = req.body;
 
             // Validate required fields
             if (!name) {
@@ -91,7 +113,8 @@ export class RoleController {
             // Create role
             const role = await this.roleService.createRole({
                 name,
-                description
+                description,
+                permissions
             });
 
             return res.status(201).json(role);
@@ -116,13 +139,14 @@ export class RoleController {
             }
 
             const id = req.params.id;
-            const { name, description, isActive } = req.body;
+            const { name, description, isActive, permissions } = req.body;
 
             // Update role
             const role = await this.roleService.updateRole(id, {
                 name,
                 description,
-                isActive
+                isActive,
+                permissions
             });
 
             return res.status(200).json(role);
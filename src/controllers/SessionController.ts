@@ -0,0 +1,113 @@
+import { Request, Response } from "express";
+import { param, validationResult } from "express-validator";
+import { LoggerService, SessionService } from "../services";
+import { AppError } from "../middlewares";
+
+export class SessionController {
+    private logger = LoggerService.getInstance();
+    private sessionService = new SessionService();
+
+    /**
+     * Validation rules for session ID
+     */
+    idValidation = [
+        param("id").isUUID().withMessage("Invalid session ID format")
+    ];
+
+    /**
+     * Validation rules for auth ID
+     */
+    authIdValidation = [
+        param("authId").isUUID().withMessage("Invalid auth ID format")
+    ];
+
+    /**
+     * List the active sessions of the authenticated user or client
+     */
+    getOwn = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            if (!req.authId) {
+                return res.status(401).json({ message: "Authentication required" });
+            }
+
+            const sessions = await this.sessionService.listSessions(req.authId, req.sessionId);
+            return res.status(200).json(sessions);
+        } catch (error) {
+            if (error instanceof AppError) {
+                return res.status(error.statusCode).json({ message: error.message });
+            }
+            this.logger.error("Error fetching sessions:", error);
+            return res.status(500).json({ message: "Internal server error" });
+        }
+    };
+
+    /**
+     * End one of the authenticated account's sessions, e.g. on a lost device
+     */
+    endOwn = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            // Check for validation errors
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return res.status(400).json({ errors: errors.array() });
+            }
+
+            if (!req.authId) {
+                return res.status(401).json({ message: "Authentication required" });
+            }
+
+            await this.sessionService.endSession(req.params.id, req.authId);
+            return res.status(200).json({ message: "Session ended successfully" });
+        } catch (error) {
+            if (error instanceof AppError) {
+                return res.status(error.statusCode).json({ message: error.message });
+            }
+            this.logger.error("Error ending session:", error);
+            return res.status(500).json({ message: "Internal server error" });
+        }
+    };
+
+    /**
+     * List the active sessions of any account (admin only)
+     */
+    getByAccount = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            // Check for validation errors
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return res.status(400).json({ errors: errors.array() });
+            }
+
+            const sessions = await this.sessionService.listSessions(req.params.authId, req.sessionId);
+            return res.status(200).json(sessions);
+        } catch (error) {
+            if (error instanceof AppError) {
+                return res.status(error.statusCode).json({ message: error.message });
+            }
+            this.logger.error("Error fetching account sessions:", error);
+            return res.status(500).json({ message: "Internal server error" });
+        }
+    };
+
+    /**
+     * End a session of any account (admin only)
+     */
+    endForAccount = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            // Check for validation errors
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return res.status(400).json({ errors: errors.array() });
+            }
+
+            await this.sessionService.endSession(req.params.id, req.params.authId);
+            return res.status(200).json({ message: "Session ended successfully" });
+        } catch (error) {
+            if (error instanceof AppError) {
+                return res.status(error.statusCode).json({ message: error.message });
+            }
+            this.logger.error("Error ending account session:", error);
+            return res.status(500).json({ message: "Internal server error" });
+        }
+    };
+}
@@ -4,10 +4,13 @@ import { TransactionType } from "../entities/Transaction";
 import { AppError } from "../middlewares/error.middleware";
 import { LoggerService } from "../services/LoggerService";
 import { TransactionService } from "../services/TransactionService";
+import { ClientService } from "../services/ClientService";
+import { authorize, PolicyAction } from "../policies";
 
 export class TransactionController {
     private logger = LoggerService.getInstance();
     private transactionService = new TransactionService();
+    private clientService = new ClientService();
 
     /**
      * Validation rules for creating/updating transactions
@@ -78,9 +81,22 @@ export class TransactionController {
         return req.userId as string;
     }
 
+    /**
+     * Load the client owning the transactions and check the authenticated account can access it
+     * @param req Request object
+     * @param action Action to authorize
+     * @returns Owner ID
+     */
+    private async authorizeOwner(req: Request, action: PolicyAction): Promise<string> {
+        const ownerId = this.getOwnerId(req);
+        const owner = await this.clientService.getClientById(ownerId);
+        authorize(req.principal, action, owner);
+        return ownerId;
+    }
+
     getAll = async (req: Request, res: Response): Promise<Response> => {
         try {
-            const ownerId = this.getOwnerId(req);
+            const ownerId = await this.authorizeOwner(req, PolicyAction.READ);
             const { startDate, endDate, type, categoryId } = req.query;
 
             const transactions = await this.transactionService.getAllTransactions(ownerId, {
@@ -112,6 +128,8 @@ export class TransactionController {
             const ownerId = this.getOwnerId(req);
 
             const transaction = await this.transactionService.getTransactionById(id, ownerId);
+            authorize(req.principal, PolicyAction.READ, transaction);
+
             return res.status(200).json(transaction);
         } catch (error) {
             if (error instanceof AppError) {
@@ -131,7 +149,7 @@ export class TransactionController {
             }
 
             const { description, amount, type, date, categoryId } = req.body;
-            const ownerId = this.getOwnerId(req);
+            const ownerId = await this.authorizeOwner(req, PolicyAction.CREATE);
 
             const transaction = await this.transactionService.createTransaction(ownerId, {
                 description,
@@ -163,6 +181,10 @@ export class TransactionController {
             const ownerId = this.getOwnerId(req);
             const { description, amount, type, date, categoryId } = req.body;
 
+            // Get transaction to check ownership
+            const currentTransaction = await this.transactionService.getTransactionById(id, ownerId);
+            authorize(req.principal, PolicyAction.UPDATE, currentTransaction);
+
             const transaction = await this.transactionService.updateTransaction(id, ownerId, {
                 description,
                 amount,
@@ -192,6 +214,10 @@ export class TransactionController {
             const id = req.params.id;
             const ownerId = this.getOwnerId(req);
 
+            // Get transaction to check ownership
+            const transaction = await this.transactionService.getTransactionById(id, ownerId);
+            authorize(req.principal, PolicyAction.DELETE, transaction);
+
             await this.transactionService.deleteTransaction(id, ownerId);
             return res.status(204).send();
         } catch (error) {
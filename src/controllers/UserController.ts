@@ -1,8 +1,10 @@
 import { Request, Response } from "express";
 import { body, param, validationResult } from "express-validator";
-import * as bcrypt from "bcryptjs";
 import {LoggerService, UserService} from "../services";
 import {AppError} from "../middlewares";
+import { getPasswordPolicy } from "../policies";
+import { getRequestContext } from "../utils/request.util";
+import { PermissionType } from "../entities/Permission";
 
 
 export class UserController {
@@ -17,9 +19,10 @@ export class UserController {
         body("email").optional().isEmail().withMessage("Valid email is required"),
         body("password")
             .optional()
-            .isLength({ min: 6 })
-            .withMessage("Password must be at least 6 characters long"),
-        body("isActive").optional().isBoolean().withMessage("isActive must be a boolean")
+            .isLength({ min: getPasswordPolicy().minLength })
+            .withMessage(`Password must be at least ${getPasswordPolicy().minLength} characters long`),
+        body("isActive").optional().isBoolean().withMessage("isActive must be a boolean"),
+        body("currentPassword").optional().isString().withMessage("Current password must be a string")
     ];
 
     /**
@@ -31,8 +34,15 @@ export class UserController {
             .withMessage("Current password is required"),
         body("newPassword")
             .exists()
-            .isLength({ min: 6 })
-            .withMessage("New password must be at least 6 characters long")
+            .isLength({ min: getPasswordPolicy().minLength })
+            .withMessage(`New password must be at least ${getPasswordPolicy().minLength} characters long`)
+    ];
+
+    /**
+     * Validation rules for assigning a role
+     */
+    roleValidation = [
+        body("roleId").isUUID().withMessage("Invalid role ID format")
     ];
 
     /**
@@ -110,14 +120,22 @@ export class UserController {
             }
 
             const id = req.params.id;
-            const { name, email, password, isActive } = req.body;
+            const { name, email, password, isActive, currentPassword } = req.body;
 
+            // Users can update themselves, other users only with the users:admin permission
+            const isSelf = !!req.userId && req.userId === id;
+            if (!isSelf && !req.principal?.permissions.includes(PermissionType.USERS_ADMIN)) {
+                return res.status(403).json({ message: "You can only update your own user" });
+            }
+
+            // Users changing their own email or password confirm it with their current password
             const updatedUser = await this.userService.updateUser(id, {
                 name,
                 email,
                 password,
-                isActive
-            });
+                isActive,
+                currentPassword
+            }, getRequestContext(req), { requireCurrentPassword: isSelf });
 
             return res.status(200).json(updatedUser);
         } catch (error) {
@@ -129,6 +147,28 @@ export class UserController {
         }
     };
 
+    /**
+     * Assign a role to a user (admin function)
+     */
+    changeRole = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            // Check for validation errors
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return res.status(400).json({ errors: errors.array() });
+            }
+
+            const user = await this.userService.changeUserRole(req.params.id, req.body.roleId, getRequestContext(req));
+            return res.status(200).json(user);
+        } catch (error) {
+            if (error instanceof AppError) {
+                return res.status(error.statusCode).json({ message: error.message });
+            }
+            this.logger.error("Error changing user role:", error);
+            return res.status(500).json({ message: "Internal server error" });
+        }
+    };
+
     delete = async (req: Request, res: Response): Promise<Response> => {
         try {
             // Check for validation errors
@@ -159,25 +199,13 @@ export class UserController {
 
             const id = req.params.id;
             const { currentPassword, newPassword } = req.body;
-            
-            // Verify user exists and get user with password
-            const user = await this.userService.getUserWithPassword(id);
-            if (!user) {
-                return res.status(404).json({ message: "User not found" });
-            }
 
             if (req.userId !== id) {
                 return res.status(403).json({ message: "You can only change your own password" });
             }
-            
-            // Verify current password
-            const isPasswordValid = await bcrypt.compare(currentPassword, user.password);
-            if (!isPasswordValid) {
-                return res.status(401).json({ message: "Current password is incorrect" });
-            }
-            
-            // Update password
-            await this.userService.updatePassword(id, newPassword);
+
+            // Checks the current password and updates it on the user's login
+            await this.userService.updatePassword(id, currentPassword, newPassword, getRequestContext(req));
             
             return res.status(200).json({ message: "Password updated successfully" });
         } catch (error) {
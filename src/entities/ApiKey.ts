@@ -0,0 +1,47 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Index } from "typeorm";
+import { Auth } from "./Auth";
+import { PermissionType } from "./Permission";
+
+/**
+ * ApiKey entity - Personal API key of a user or client, for scripts and integrations.
+ * Keys look like `afk_<prefix>_<secret>`: the prefix identifies the key, only the hash of the whole key is stored.
+ * A key can never do more than its scopes, nor more than the role of its owner.
+ */
+@Entity("api_keys")
+export class ApiKey {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @Column({ length: 100 })
+  name: string;
+
+  @Index({ unique: true })
+  @Column({ length: 16 })
+  prefix: string;
+
+  @Column({ select: false })
+  keyHash: string;
+
+  @Column("simple-array")
+  scopes: PermissionType[];
+
+  @ManyToOne(() => Auth, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "authId" })
+  auth: Auth;
+
+  @Index()
+  @Column()
+  authId: string;
+
+  @Column()
+  expiresAt: Date;
+
+  @Column({ type: "timestamp", nullable: true })
+  lastUsedAt: Date | null;
+
+  @Column({ type: "timestamp", nullable: true })
+  revokedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -1,4 +1,4 @@
-import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn } from "typeorm";
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn, Index } from "typeorm";
 import { User } from "./User";
 import { Client } from "./Client";
 
@@ -34,6 +34,16 @@ export class Auth {
   @Column({ default: true })
   isActive: boolean;
 
+  @Column({ type: "timestamp", nullable: true })
+  emailVerifiedAt: Date | null;
+
+  @Index()
+  @Column({ type: "varchar", nullable: true, select: false })
+  emailVerificationToken: string | null;
+
+  @Column({ type: "timestamp", nullable: true })
+  emailVerificationExpiry: Date | null;
+
   @Column({ nullable: true })
   lastLogin: Date;
 
@@ -43,6 +53,40 @@ export class Auth {
   @Column({ nullable: true })
   refreshTokenExpiry: Date;
 
+  @Column({ type: "int", default: 0 })
+  tokenVersion: number;
+
+  @Index()
+  @Column({ type: "varchar", nullable: true, select: false })
+  passwordResetToken: string | null;
+
+  @Column({ type: "timestamp", nullable: true })
+  passwordResetExpiry: Date | null;
+
+  @Column({ type: "int", default: 0 })
+  failedLoginAttempts: number;
+
+  @Column({ type: "timestamp", nullable: true })
+  lastFailedLoginAt: Date | null;
+
+  @Column({ type: "timestamp", nullable: true })
+  lockedUntil: Date | null;
+
+  @Column({ default: false })
+  twoFactorEnabled: boolean;
+
+  @Column({ default: false })
+  twoFactorRequired: boolean;
+
+  @Column({ type: "varchar", nullable: true, select: false })
+  twoFactorSecret: string | null;
+
+  @Column({ type: "simple-array", nullable: true, select: false })
+  twoFactorRecoveryCodes: string[] | null;
+
+  @Column({ type: "int", nullable: true })
+  twoFactorLastUsedStep: number | null;
+
   @ManyToOne(() => User, { nullable: true })
   @JoinColumn({ name: "userId" })
   user: User;
@@ -0,0 +1,40 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, CreateDateColumn, UpdateDateColumn, JoinColumn, Unique } from "typeorm";
+import { MonthlyBudget } from "./MonthlyBudget";
+import { Category } from "./Category";
+
+/**
+ * CategoryBudget entity - A spending limit (envelope) for one category within a monthly budget.
+ * The limit is a fixed amount, or a percentage of the monthly budget total when isPercentage is set.
+ */
+@Entity("category_budgets")
+@Unique(["monthlyBudgetId", "categoryId"])
+export class CategoryBudget {
+    @PrimaryGeneratedColumn("uuid")
+    id: string;
+
+    @ManyToOne(() => MonthlyBudget, monthlyBudget => monthlyBudget.categoryBudgets, { onDelete: "CASCADE" })
+    @JoinColumn({ name: "monthlyBudgetId" })
+    monthlyBudget: MonthlyBudget;
+
+    @Column()
+    monthlyBudgetId: string;
+
+    @ManyToOne(() => Category, { onDelete: "CASCADE" })
+    @JoinColumn({ name: "categoryId" })
+    category: Category;
+
+    @Column()
+    categoryId: string;
+
+    @Column({ type: "decimal", precision: 10, scale: 2 })
+    amount: number;
+
+    @Column({ type: "boolean", default: false })
+    isPercentage: boolean;
+
+    @CreateDateColumn()
+    createdAt: Date;
+
+    @UpdateDateColumn()
+    updatedAt: Date;
+}
@@ -16,6 +16,26 @@ export enum MaritalStatus {
   OTHER = "other"
 }
 
+/**
+ * Enum for the state of a client's invitation
+ */
+export enum InvitationStatus {
+  NONE = "none",
+  PENDING = "pending",
+  ACCEPTED = "accepted",
+  REVOKED = "revoked"
+}
+
+/**
+ * Enum for what a new monthly budget carries over from the previous month's remaining balance
+ */
+export enum RolloverPolicy {
+  NONE = "none",
+  SURPLUS = "surplus",
+  DEFICIT = "deficit",
+  BOTH = "both"
+}
+
 /**
  * Client entity
  */
@@ -70,6 +90,23 @@ export class Client {
   @Column({ default: true })
   isActive: boolean;
 
+  @Column({
+    type: "enum",
+    enum: InvitationStatus,
+    default: InvitationStatus.NONE
+  })
+  invitationStatus: InvitationStatus;
+
+  @Column({
+    type: "enum",
+    enum: RolloverPolicy,
+    default: RolloverPolicy.NONE
+  })
+  rolloverPolicy: RolloverPolicy;
+
+  @Column({ default: false })
+  copyPreviousBudget: boolean;
+
   @ManyToOne(() => User)
   @JoinColumn({ name: "managerId" })
   manager: User;
@@ -0,0 +1,48 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Index } from "typeorm";
+import { Client } from "./Client";
+import { User } from "./User";
+
+/**
+ * ClientInvitation entity - Single-use invitation a manager sends to a client.
+ * Only the hash of the emailed token is stored; accepting it creates the client's login.
+ */
+@Entity("client_invitations")
+export class ClientInvitation {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @Index({ unique: true })
+  @Column()
+  tokenHash: string;
+
+  @ManyToOne(() => Client, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "clientId" })
+  client: Client;
+
+  @Index()
+  @Column()
+  clientId: string;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: "SET NULL" })
+  @JoinColumn({ name: "invitedById" })
+  invitedBy: User;
+
+  @Column({ nullable: true })
+  invitedById: string;
+
+  // Address the link was sent to: only this address is proven by accepting it
+  @Column({ type: "varchar", nullable: true })
+  email: string | null;
+
+  @Column()
+  expiresAt: Date;
+
+  @Column({ type: "timestamp", nullable: true })
+  acceptedAt: Date | null;
+
+  @Column({ type: "timestamp", nullable: true })
+  revokedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
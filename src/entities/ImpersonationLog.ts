@@ -0,0 +1,54 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from "typeorm";
+
+/**
+ * Enum for impersonation log events
+ */
+export enum ImpersonationEvent {
+  START = "start",
+  REQUEST = "request"
+}
+
+/**
+ * ImpersonationLog entity - Audit trail of admins acting as another account.
+ * Both identities are copied, so the trail survives the deletion of either account.
+ */
+@Entity("impersonation_logs")
+export class ImpersonationLog {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @Column({
+    type: "enum",
+    enum: ImpersonationEvent
+  })
+  event: ImpersonationEvent;
+
+  @Index()
+  @Column({ type: "uuid" })
+  impersonatorAuthId: string;
+
+  @Column()
+  impersonatorEmail: string;
+
+  @Index()
+  @Column({ type: "uuid" })
+  targetAuthId: string;
+
+  @Column()
+  targetEmail: string;
+
+  @Column({ type: "varchar", length: 10, nullable: true })
+  method: string | null;
+
+  @Column({ type: "varchar", length: 2048, nullable: true })
+  path: string | null;
+
+  @Column({ type: "int", nullable: true })
+  statusCode: number | null;
+
+  @Column({ type: "varchar", nullable: true })
+  ipAddress: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
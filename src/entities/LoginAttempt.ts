@@ -0,0 +1,53 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Index } from "typeorm";
+import { Auth } from "./Auth";
+
+/**
+ * Enum for login attempt events
+ */
+export enum LoginAttemptEvent {
+  SUCCESS = "success",
+  FAILURE = "failure",
+  BLOCKED = "blocked",
+  LOCKOUT = "lockout",
+  UNLOCK = "unlock"
+}
+
+/**
+ * LoginAttempt entity - History of login attempts, lockouts and unlocks
+ */
+@Entity("login_attempts")
+@Index(["ipAddress", "createdAt"])
+export class LoginAttempt {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @Column({
+    type: "enum",
+    enum: LoginAttemptEvent
+  })
+  event: LoginAttemptEvent;
+
+  @Index()
+  @Column()
+  email: string;
+
+  @Column({ nullable: true })
+  ipAddress: string;
+
+  @Column({ nullable: true })
+  userAgent: string;
+
+  @ManyToOne(() => Auth, { nullable: true, onDelete: "CASCADE" })
+  @JoinColumn({ name: "authId" })
+  auth: Auth;
+
+  @Index()
+  @Column({ nullable: true })
+  authId: string;
+
+  @Column({ nullable: true })
+  performedById: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -1,6 +1,7 @@
 import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, CreateDateColumn, UpdateDateColumn, JoinColumn, OneToMany } from "typeorm";
 import { Client } from "./Client";
 import { DailyTransaction } from "./DailyTransaction";
+import { CategoryBudget } from "./CategoryBudget";
 
 /**
  * MonthlyBudget entity - Stores the client's monthly budget information
@@ -34,6 +35,16 @@ export class MonthlyBudget {
     @Column({ type: "int" })
     daysInMonth: number;
 
+    @Column({ type: "decimal", precision: 10, scale: 2, default: 0 })
+    carriedOverAmount: number;
+
+    @ManyToOne(() => MonthlyBudget, { nullable: true, onDelete: "SET NULL" })
+    @JoinColumn({ name: "carriedOverFromId" })
+    carriedOverFrom: MonthlyBudget;
+
+    @Column({ type: "uuid", nullable: true })
+    carriedOverFromId: string | null;
+
     @ManyToOne(() => Client, client => client.monthlyBudgets)
     @JoinColumn({ name: "clientId" })
     client: Client;
@@ -44,6 +55,9 @@ export class MonthlyBudget {
     @OneToMany(() => DailyTransaction, dailyTransaction => dailyTransaction.monthlyBudget)
     dailyTransactions: DailyTransaction[];
 
+    @OneToMany(() => CategoryBudget, categoryBudget => categoryBudget.monthlyBudget)
+    categoryBudgets: CategoryBudget[];
+
     @CreateDateColumn()
     createdAt: Date;
 
@@ -0,0 +1,26 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Index } from "typeorm";
+import { Auth } from "./Auth";
+
+/**
+ * PasswordHistory entity - Hash of a password an account has used.
+ * The most recent ones (PASSWORD_HISTORY_SIZE) cannot be chosen again.
+ */
+@Entity("password_history")
+export class PasswordHistory {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @ManyToOne(() => Auth, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "authId" })
+  auth: Auth;
+
+  @Index()
+  @Column()
+  authId: string;
+
+  @Column({ select: false })
+  passwordHash: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
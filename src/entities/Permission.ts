@@ -0,0 +1,50 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToMany, CreateDateColumn, UpdateDateColumn } from "typeorm";
+import { Role } from "./Role";
+
+/**
+ * Enum for permission names (resource:action)
+ */
+export enum PermissionType {
+  CLIENTS_READ = "clients:read",
+  CLIENTS_WRITE = "clients:write",
+  CLIENTS_ALL = "clients:all",
+  BUDGETS_READ = "budgets:read",
+  BUDGETS_MANAGE = "budgets:manage",
+  BUDGETS_ADMIN = "budgets:admin",
+  TRANSACTIONS_READ = "transactions:read",
+  TRANSACTIONS_MANAGE = "transactions:manage",
+  CATEGORIES_READ = "categories:read",
+  CATEGORIES_ADMIN = "categories:admin",
+  ROLES_ADMIN = "roles:admin",
+  USERS_ADMIN = "users:admin",
+  AUTH_ADMIN = "auth:admin",
+  STATS_READ = "stats:read"
+}
+
+/**
+ * Permission entity - a single action a role can be granted
+ */
+@Entity("permissions")
+export class Permission {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @Column({
+    type: "enum",
+    enum: PermissionType,
+    unique: true
+  })
+  name: PermissionType;
+
+  @Column({ length: 255, nullable: true })
+  description: string;
+
+  @ManyToMany(() => Role, role => role.permissions)
+  roles: Role[];
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
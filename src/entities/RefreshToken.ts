@@ -0,0 +1,40 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Index } from "typeorm";
+import { Auth } from "./Auth";
+
+/**
+ * RefreshToken entity - Stores hashed refresh tokens.
+ * Every rotation creates a new token in the same family, so reuse of a
+ * rotated token can revoke every token descended from the same login.
+ */
+@Entity("refresh_tokens")
+export class RefreshToken {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @Index({ unique: true })
+  @Column()
+  tokenHash: string;
+
+  @Index()
+  @Column({ type: "uuid" })
+  familyId: string;
+
+  @ManyToOne(() => Auth, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "authId" })
+  auth: Auth;
+
+  @Column()
+  authId: string;
+
+  @Column()
+  expiresAt: Date;
+
+  @Column({ nullable: true })
+  revokedAt: Date;
+
+  @Column({ nullable: true })
+  replacedById: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
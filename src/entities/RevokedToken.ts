@@ -0,0 +1,20 @@
+import { Entity, PrimaryColumn, Column, CreateDateColumn, Index } from "typeorm";
+
+/**
+ * RevokedToken entity - Denylist of access tokens (by JWT ID) revoked before they expire
+ */
+@Entity("revoked_tokens")
+export class RevokedToken {
+  @PrimaryColumn()
+  jti: string;
+
+  @Column()
+  authId: string;
+
+  @Index()
+  @Column()
+  expiresAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -1,8 +1,9 @@
-import { Entity, PrimaryGeneratedColumn, Column, OneToMany, CreateDateColumn, UpdateDateColumn } from "typeorm";
+import { Entity, PrimaryGeneratedColumn, Column, OneToMany, ManyToMany, JoinTable, CreateDateColumn, UpdateDateColumn } from "typeorm";
 import { User } from "./User";
+import { Permission } from "./Permission";
 
 /**
- * Enum for role types
+ * Enum for the built-in role names. Admins can create other roles with any name.
  */
 export enum RoleType {
   ADMIN = "admin",
@@ -12,18 +13,15 @@ export enum RoleType {
 
 /**
  * Role entity for access control
+ * What a role may do is defined by its permissions
  */
 @Entity("roles")
 export class Role {
   @PrimaryGeneratedColumn("uuid")
   id: string;
 
-  @Column({
-    type: "enum",
-    enum: RoleType,
-    default: RoleType.CLIENT
-  })
-  name: RoleType;
+  @Column({ length: 50, unique: true })
+  name: string;
 
   @Column({ length: 255, nullable: true })
   description: string;
@@ -34,6 +32,14 @@ export class Role {
   @OneToMany(() => User, user => user.role)
   users: User[];
 
+  @ManyToMany(() => Permission, permission => permission.roles)
+  @JoinTable({
+    name: "role_permissions",
+    joinColumn: { name: "roleId" },
+    inverseJoinColumn: { name: "permissionId" }
+  })
+  permissions: Permission[];
+
   @CreateDateColumn()
   createdAt: Date;
 
@@ -0,0 +1,59 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Index } from "typeorm";
+import { Auth } from "./Auth";
+
+/**
+ * Enum for security event types
+ */
+export enum SecurityEventType {
+  LOGIN_SUCCESS = "login_success",
+  LOGIN_FAILURE = "login_failure",
+  PASSWORD_CHANGE = "password_change",
+  PASSWORD_RESET = "password_reset",
+  ROLE_CHANGE = "role_change",
+  ACCOUNT_DEACTIVATION = "account_deactivation"
+}
+
+/**
+ * SecurityEvent entity - Security-relevant history of an account: logins, password changes and resets,
+ * role changes and deactivations, with the request they came from.
+ * actorAuthId is the account that performed the change when it is not the account itself (e.g. an admin).
+ */
+@Entity("security_events")
+@Index(["authId", "createdAt"])
+export class SecurityEvent {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @Column({
+    type: "enum",
+    enum: SecurityEventType
+  })
+  type: SecurityEventType;
+
+  @ManyToOne(() => Auth, { nullable: true, onDelete: "CASCADE" })
+  @JoinColumn({ name: "authId" })
+  auth: Auth;
+
+  @Column({ type: "uuid", nullable: true })
+  authId: string | null;
+
+  @Index()
+  @Column({ type: "varchar", nullable: true })
+  email: string | null;
+
+  @Column({ type: "uuid", nullable: true })
+  actorAuthId: string | null;
+
+  @Column({ type: "varchar", length: 64, nullable: true })
+  ipAddress: string | null;
+
+  @Column({ type: "varchar", length: 512, nullable: true })
+  userAgent: string | null;
+
+  @Column({ type: "simple-json", nullable: true })
+  details: Record<string, unknown> | null;
+
+  @Index()
+  @CreateDateColumn()
+  createdAt: Date;
+}
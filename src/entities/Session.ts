@@ -0,0 +1,42 @@
+import { Entity, PrimaryColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Index } from "typeorm";
+import { Auth } from "./Auth";
+
+/**
+ * Session entity - One login of a user or client on a device.
+ * The session ID is the refresh token family of the login and the `sid` claim of its access tokens,
+ * so ending a session revokes both.
+ */
+@Entity("sessions")
+export class Session {
+  @PrimaryColumn("uuid")
+  id: string;
+
+  @ManyToOne(() => Auth, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "authId" })
+  auth: Auth;
+
+  @Index()
+  @Column()
+  authId: string;
+
+  @Column({ type: "varchar", length: 100, nullable: true })
+  device: string | null;
+
+  @Column({ type: "varchar", length: 512, nullable: true })
+  userAgent: string | null;
+
+  @Column({ type: "varchar", length: 64, nullable: true })
+  ipAddress: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @Column()
+  lastSeenAt: Date;
+
+  @Column()
+  expiresAt: Date;
+
+  @Column({ type: "timestamp", nullable: true })
+  revokedAt: Date | null;
+}
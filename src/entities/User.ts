@@ -4,6 +4,7 @@ import { Client } from "./Client";
 
 /**
  * User entity - represents system users (managers/admins)
+ * Credentials are stored on the user's Auth record only.
  */
 @Entity("users")
 export class User {
@@ -16,9 +17,6 @@ export class User {
     @Column({ unique: true })
     email: string;
 
-    @Column({ select: false })
-    password: string;
-
     @Column({ default: true })
     isActive: boolean;
 
@@ -1,9 +1,86 @@
 import { Request, Response, NextFunction } from "express";
-import { AuthService } from "../services/AuthService";
-import { findUserById, findClientById, findAuthById } from "../repositories";
+import { AuthService, TokenPayload } from "../services/AuthService";
+import { ApiKeyService } from "../services/ApiKeyService";
+import { SessionService } from "../services/SessionService";
+import { ImpersonationService } from "../services/ImpersonationService";
+import { findUserById, findClientById, findAuthById, isTokenRevoked, findRoleById, findRoleByName } from "../repositories";
 import { LoggerService } from "../services/LoggerService";
 import { AppError } from "./error.middleware";
-import { AuthType } from "../entities/Auth";
+import { Auth, AuthType } from "../entities/Auth";
+import { RoleType } from "../entities/Role";
+import { User } from "../entities/User";
+import { Client } from "../entities/Client";
+import { Role } from "../entities/Role";
+import { PermissionType } from "../entities/Permission";
+
+/**
+ * The authenticated account behind a request: a user (manager/admin) or a client.
+ * The role of a user comes from its Role, a client always has the client role.
+ * Requests made with an API key only get the permissions in the key's scopes.
+ * Requests made with an impersonation token also carry the admin behind them.
+ */
+export interface Principal {
+    authId: string;
+    type: AuthType;
+    role?: string;
+    permissions: PermissionType[];
+    user?: User;
+    client?: Client;
+    apiKeyId?: string;
+    impersonatorAuthId?: string;
+}
+
+/**
+ * Permissions granted by a role (none when the role is missing or inactive)
+ */
+const getRolePermissions = (role: Role | null): PermissionType[] => {
+    if (!role || !role.isActive) {
+        return [];
+    }
+    return (role.permissions ?? []).map(permission => permission.name);
+};
+
+/**
+ * Load the principal of an authenticated account
+ * Checks that the user/client behind the account exists and is active
+ */
+const loadPrincipal = async (auth: Auth): Promise<Principal> => {
+    if (auth.type === AuthType.ADMIN && auth.userId) {
+        const user = await findUserById(auth.userId);
+        if (!user) {
+            throw new AppError("User not found", 401);
+        }
+        if (!user.isActive) {
+            throw new AppError("User account is inactive", 403);
+        }
+        const role = user.role ? await findRoleById(user.role.id) : null;
+        return {
+            authId: auth.id,
+            type: AuthType.ADMIN,
+            role: role?.name,
+            permissions: getRolePermissions(role),
+            user
+        };
+    } else if (auth.type === AuthType.CLIENT && auth.clientId) {
+        const client = await findClientById(auth.clientId);
+        if (!client) {
+            throw new AppError("Client not found", 401);
+        }
+        if (!client.isActive) {
+            throw new AppError("Client account is inactive", 403);
+        }
+        const role = await findRoleByName(RoleType.CLIENT);
+        return {
+            authId: auth.id,
+            type: AuthType.CLIENT,
+            role: RoleType.CLIENT,
+            permissions: getRolePermissions(role),
+            client
+        };
+    } else {
+        throw new AppError("Invalid authentication type", 401);
+    }
+};
 
 // Extend Express Request interface to include userId and clientId
 declare global {
@@ -13,13 +90,73 @@ declare global {
             clientId?: string;
             authId?: string;
             authType?: AuthType;
+            tokenId?: string;
+            tokenExpiresAt?: Date;
+            sessionId?: string;
+            mfaEnrollment?: boolean;
+            principal?: Principal;
+            apiKeyId?: string;
+            impersonatorAuthId?: string;
         }
     }
 }
 
+/**
+ * Authenticate a request made with an API key
+ * The principal only keeps the permissions of its role that are in the key's scopes
+ */
+const authenticateApiKey = async (req: Request, key: string): Promise<void> => {
+    const apiKey = await new ApiKeyService().authenticate(key);
+
+    // Check if auth exists and is active
+    const auth = await findAuthById(apiKey.authId);
+    if (!auth) {
+        throw new AppError("Invalid API key", 401);
+    }
+    if (!auth.isActive) {
+        throw new AppError("Account is inactive", 403);
+    }
+
+    // Attach auth info to request
+    req.authId = auth.id;
+    req.authType = auth.type;
+    req.userId = auth.userId;
+    req.clientId = auth.clientId;
+    req.apiKeyId = apiKey.id;
+
+    const principal = await loadPrincipal(auth);
+    req.principal = {
+        ...principal,
+        permissions: principal.permissions.filter(permission => apiKey.scopes.includes(permission)),
+        apiKeyId: apiKey.id
+    };
+};
+
+/**
+ * Mark the response of an impersonated request and log the request with both identities once it is sent
+ */
+const auditImpersonatedRequest = (req: Request, res: Response, impersonator: Auth, target: Auth): void => {
+    res.setHeader("X-Impersonated-By", impersonator.email);
+    res.on("finish", () => {
+        void new ImpersonationService().recordRequest({
+            impersonatorAuthId: impersonator.id,
+            impersonatorEmail: impersonator.email,
+            targetAuthId: target.id,
+            targetEmail: target.email
+        }, {
+            method: req.method,
+            path: req.originalUrl,
+            statusCode: res.statusCode,
+            ipAddress: req.ip
+        });
+    });
+};
+
 /**
  * Authentication middleware
- * Verifies JWT token from Authorization header and attaches userId/clientId to request
+ * Verifies JWT token from Authorization header, rejects revoked tokens and attaches userId/clientId
+ * and the loaded principal to request.
+ * API keys are accepted in the X-API-Key header or as a bearer token.
  */
 export const authMiddleware = async (req: Request, res: Response, next: NextFunction) => {
     const logger = LoggerService.getInstance();
@@ -27,6 +164,18 @@ export const authMiddleware = async (req: Request, res: Response, next: NextFunc
     try {
         // Get token from Authorization header
         const authHeader = req.headers.authorization;
+
+        // Authenticate with an API key if one is given
+        const apiKeyHeader = req.headers['x-api-key'];
+        const bearerToken = authHeader && authHeader.startsWith('Bearer ') ? authHeader.split(' ')[1] : undefined;
+        const apiKey = typeof apiKeyHeader === 'string' && apiKeyHeader
+            ? apiKeyHeader
+            : bearerToken && ApiKeyService.isApiKey(bearerToken) ? bearerToken : undefined;
+        if (apiKey) {
+            await authenticateApiKey(req, apiKey);
+            return next();
+        }
+
         if (!authHeader || !authHeader.startsWith('Bearer ')) {
             throw new AppError("Authentication required", 401);
         }
@@ -41,11 +190,19 @@ export const authMiddleware = async (req: Request, res: Response, next: NextFunc
         const authService = new AuthService();
         const decoded = authService.verifyToken(token);
 
+        // Two-factor tokens are only accepted by the two-factor endpoints
+        if (decoded.purpose) {
+            throw new AppError("Invalid token", 401);
+        }
+
         // Attach auth info to request
         req.authId = decoded.id;
         req.authType = decoded.type;
         req.userId = decoded.userId;
         req.clientId = decoded.clientId;
+        req.tokenId = decoded.jti;
+        req.tokenExpiresAt = decoded.exp ? new Date(decoded.exp * 1000) : undefined;
+        req.sessionId = decoded.sid;
 
         // Check if auth exists
         const auth = await findAuthById(decoded.id);
@@ -53,30 +210,38 @@ export const authMiddleware = async (req: Request, res: Response, next: NextFunc
             throw new AppError("Invalid token", 401);
         }
 
+        // Check if the token was revoked by "log out all sessions" or a password change
+        if ((decoded.tv ?? 0) !== auth.tokenVersion) {
+            throw new AppError("Token has been revoked", 401);
+        }
+
+        // Check if the token was revoked by logout
+        if (decoded.jti && await isTokenRevoked(decoded.jti)) {
+            throw new AppError("Token has been revoked", 401);
+        }
+
         // Check if auth is active
         if (!auth.isActive) {
             throw new AppError("Account is inactive", 403);
         }
 
-        // Check if user/client exists based on auth type
-        if (auth.type === AuthType.ADMIN && auth.userId) {
-            const user = await findUserById(auth.userId);
-            if (!user) {
-                throw new AppError("User not found", 401);
-            }
-            if (!user.isActive) {
-                throw new AppError("User account is inactive", 403);
-            }
-        } else if (auth.type === AuthType.CLIENT && auth.clientId) {
-            const client = await findClientById(auth.clientId);
-            if (!client) {
-                throw new AppError("Client not found", 401);
-            }
-            if (!client.isActive) {
-                throw new AppError("Client account is inactive", 403);
-            }
-        } else {
-            throw new AppError("Invalid authentication type", 401);
+        // Check if the session was ended from another device or by an admin
+        if (decoded.sid) {
+            await new SessionService().checkSession(decoded.sid);
+        }
+
+        // Impersonation tokens stay valid only while the admin behind them does
+        const impersonator = decoded.act ? await findAuthById(decoded.act.id) : null;
+        if (decoded.act && (!impersonator || !impersonator.isActive || (decoded.act.tv ?? 0) !== impersonator.tokenVersion)) {
+            throw new AppError("Token has been revoked", 401);
+        }
+
+        req.principal = await loadPrincipal(auth);
+
+        if (impersonator) {
+            req.impersonatorAuthId = impersonator.id;
+            req.principal.impersonatorAuthId = impersonator.id;
+            auditImpersonatedRequest(req, res, impersonator, auth);
         }
 
         // Continue to next middleware/route handler
@@ -98,28 +263,77 @@ export const authMiddleware = async (req: Request, res: Response, next: NextFunc
 };
 
 /**
- * Role-based access control middleware
- * Checks if the authenticated user has the required role
- * @param roles Array of allowed roles
+ * Two-factor enrolment middleware
+ * Accepts the mfa_setup token returned by login when 2FA is required but not set up yet,
+ * otherwise falls back to the regular authentication middleware
  */
-export const roleMiddleware = (roles: string[]) => {
-    return async (req: Request, res: Response, next: NextFunction) => {
-        const logger = LoggerService.getInstance();
-        
+export const mfaEnrollmentMiddleware = async (req: Request, res: Response, next: NextFunction) => {
+    const logger = LoggerService.getInstance();
+    const authHeader = req.headers.authorization;
+    const token = authHeader && authHeader.startsWith('Bearer ') ? authHeader.split(' ')[1] : undefined;
+
+    const authService = new AuthService();
+    let decoded: TokenPayload | undefined;
+    try {
+        decoded = token ? authService.verifyToken(token) : undefined;
+    } catch (error) {
+        decoded = undefined;
+    }
+
+    if (!decoded || decoded.purpose !== "mfa_setup") {
+        return authMiddleware(req, res, next);
+    }
+
+    try {
+        const auth = await findAuthById(decoded.id);
+        if (!auth || (decoded.tv ?? 0) !== auth.tokenVersion) {
+            throw new AppError("Invalid token", 401);
+        }
+
+        if (!auth.isActive) {
+            throw new AppError("Account is inactive", 403);
+        }
+
+        req.authId = auth.id;
+        req.authType = auth.type;
+        req.userId = auth.userId;
+        req.clientId = auth.clientId;
+        req.mfaEnrollment = true;
+
+        next();
+    } catch (error) {
+        if (error instanceof AppError) {
+            return res.status(error.statusCode).json({ 
+                status: "error", 
+                message: error.message 
+            });
+        }
+
+        logger.error("Two-factor enrolment authentication error:", error);
+        return res.status(401).json({ 
+            status: "error", 
+            message: "Authentication failed" 
+        });
+    }
+};
+
+/**
+ * Permission-based access control middleware
+ * Checks if the authenticated user or client has every required permission through its role.
+ * Must run after authMiddleware, which loads the principal.
+ * @param permissions Required permissions
+ */
+export const requirePermission = (...permissions: PermissionType[]) => {
+    return (req: Request, res: Response, next: NextFunction) => {
         try {
             // Check if user is authenticated
-            if (!req.userId) {
+            const principal = req.principal;
+            if (!principal) {
                 throw new AppError("Authentication required", 401);
             }
 
-            // Get user with role
-            const user = await findUserById(req.userId);
-            if (!user) {
-                throw new AppError("User not found", 401);
-            }
-
-            // Check if user has required role
-            if (!user.role || !roles.includes(user.role.name)) {
+            // Check if the principal has every required permission
+            if (!permissions.every(permission => principal.permissions.includes(permission))) {
                 throw new AppError("Access denied", 403);
             }
 
@@ -132,8 +346,8 @@ export const roleMiddleware = (roles: string[]) => {
                     message: error.message 
                 });
             }
-            
-            logger.error("Role authorization error:", error);
+
+            LoggerService.getInstance().error("Permission authorization error:", error);
             return res.status(403).json({ 
                 status: "error", 
                 message: "Access denied" 
@@ -141,3 +355,27 @@ export const roleMiddleware = (roles: string[]) => {
         }
     };
 };
+
+/**
+ * Interactive session middleware
+ * Rejects requests made with an API key or while impersonating, for actions only the account owner may take
+ * after signing in (managing API keys, sessions, passwords and two-factor authentication, impersonating).
+ * Must run after authMiddleware.
+ */
+export const requireSession = (req: Request, res: Response, next: NextFunction) => {
+    if (req.apiKeyId) {
+        return res.status(403).json({ 
+            status: "error", 
+            message: "This action is not allowed with an API key" 
+        });
+    }
+
+    if (req.impersonatorAuthId) {
+        return res.status(403).json({ 
+            status: "error", 
+            message: "This action is not allowed while impersonating" 
+        });
+    }
+
+    next();
+};
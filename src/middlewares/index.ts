@@ -1,9 +1,13 @@
-import { authMiddleware, roleMiddleware } from './auth.middleware';
+import { authMiddleware, mfaEnrollmentMiddleware, requirePermission, requireSession, Principal } from './auth.middleware';
 import { errorMiddleware, AppError } from './error.middleware';
 
 export {
   authMiddleware,
-  roleMiddleware,
+  mfaEnrollmentMiddleware,
+  requirePermission,
+  requireSession,
   errorMiddleware,
   AppError
 };
+
+export type { Principal };
@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * Role names become free text so admins can create custom roles.
+ * Must run on existing databases before the application starts with the new entities,
+ * otherwise schema synchronization would drop and recreate the column.
+ * The permissions and role_permissions tables are created by synchronization and seeded by DatabaseService.
+ */
+export class AddRolePermissions1760900000000 implements MigrationInterface {
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TABLE "roles" ALTER COLUMN "name" DROP DEFAULT;
+            ALTER TABLE "roles" ALTER COLUMN "name" TYPE varchar(50) USING "name"::text;
+            ALTER TABLE "roles" DROP CONSTRAINT IF EXISTS "UQ_roles_name";
+            ALTER TABLE "roles" ADD CONSTRAINT "UQ_roles_name" UNIQUE ("name");
+            DROP TYPE IF EXISTS "roles_name_enum";
+        `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            DELETE FROM "roles" WHERE "name" NOT IN ('admin', 'manager', 'client');
+            ALTER TABLE "roles" DROP CONSTRAINT IF EXISTS "UQ_roles_name";
+            CREATE TYPE "roles_name_enum" AS ENUM ('admin', 'manager', 'client');
+            ALTER TABLE "roles" ALTER COLUMN "name" TYPE "roles_name_enum" USING "name"::"roles_name_enum";
+            ALTER TABLE "roles" ALTER COLUMN "name" SET DEFAULT 'client';
+        `);
+    }
+}
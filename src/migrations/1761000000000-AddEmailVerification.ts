@@ -0,0 +1,26 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * Logins need a verified email address.
+ * Accounts that existed before verification was introduced are marked as verified,
+ * otherwise they could no longer log in. Accounts created since always got a verification token,
+ * so they are left for their own verification. The token index is created by synchronization.
+ */
+export class AddEmailVerification1761000000000 implements MigrationInterface {
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TABLE "auth" ADD COLUMN IF NOT EXISTS "emailVerifiedAt" TIMESTAMP;
+            ALTER TABLE "auth" ADD COLUMN IF NOT EXISTS "emailVerificationToken" varchar;
+            ALTER TABLE "auth" ADD COLUMN IF NOT EXISTS "emailVerificationExpiry" TIMESTAMP;
+            UPDATE "auth" SET "emailVerifiedAt" = "createdAt" WHERE "emailVerifiedAt" IS NULL AND "emailVerificationToken" IS NULL;
+        `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TABLE "auth" DROP COLUMN IF EXISTS "emailVerificationExpiry";
+            ALTER TABLE "auth" DROP COLUMN IF EXISTS "emailVerificationToken";
+            ALTER TABLE "auth" DROP COLUMN IF EXISTS "emailVerifiedAt";
+        `);
+    }
+}
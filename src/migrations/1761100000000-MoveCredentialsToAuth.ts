@@ -0,0 +1,46 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * Credentials live on the auth table only.
+ * Users created without a login get one from their stored password, login emails that drifted
+ * from the user or client email are brought back in sync, then users.password is dropped.
+ * Must run on existing databases before the application starts with the new entities,
+ * otherwise schema synchronization would drop the column before the passwords are copied.
+ */
+export class MoveCredentialsToAuth1761100000000 implements MigrationInterface {
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Already moved on databases upgraded before migrations were recorded
+        if (!(await queryRunner.hasColumn("users", "password"))) {
+            return;
+        }
+
+        await queryRunner.query(`
+            INSERT INTO "auth" ("email", "password", "type", "isActive", "userId", "emailVerifiedAt")
+            SELECT u."email", u."password", 'admin', u."isActive", u."id", u."createdAt"
+            FROM "users" u
+            WHERE NOT EXISTS (SELECT 1 FROM "auth" a WHERE a."userId" = u."id")
+              AND NOT EXISTS (SELECT 1 FROM "auth" a WHERE a."email" = u."email");
+
+            UPDATE "auth" a SET "email" = u."email"
+            FROM "users" u
+            WHERE a."userId" = u."id" AND a."email" <> u."email"
+              AND NOT EXISTS (SELECT 1 FROM "auth" other WHERE other."email" = u."email");
+
+            UPDATE "auth" a SET "email" = c."email"
+            FROM "clients" c
+            WHERE a."clientId" = c."id" AND a."email" <> c."email"
+              AND NOT EXISTS (SELECT 1 FROM "auth" other WHERE other."email" = c."email");
+
+            ALTER TABLE "users" DROP COLUMN IF EXISTS "password";
+        `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "password" character varying;
+            UPDATE "users" u SET "password" = a."password" FROM "auth" a WHERE a."userId" = u."id";
+            UPDATE "users" SET "password" = '' WHERE "password" IS NULL;
+            ALTER TABLE "users" ALTER COLUMN "password" SET NOT NULL;
+        `);
+    }
+}
@@ -0,0 +1,16 @@
+import { can, authorize, canAccessAllClients, PolicyAction } from './ownership.policy';
+import type { PolicyResource } from './ownership.policy';
+import { getPasswordPolicy, checkPassword, assertPasswordAllowed } from './password.policy';
+import type { PasswordPolicyConfig, PasswordContext } from './password.policy';
+
+export {
+  can,
+  authorize,
+  canAccessAllClients,
+  PolicyAction,
+  getPasswordPolicy,
+  checkPassword,
+  assertPasswordAllowed
+};
+
+export type { PolicyResource, PasswordPolicyConfig, PasswordContext };
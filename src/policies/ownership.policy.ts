@@ -0,0 +1,85 @@
+import { AppError } from "../middlewares/error.middleware";
+import type { Principal } from "../middlewares/auth.middleware";
+import { AuthType } from "../entities/Auth";
+import { PermissionType } from "../entities/Permission";
+import { Client } from "../entities/Client";
+import { MonthlyBudget } from "../entities/MonthlyBudget";
+import { DailyTransaction } from "../entities/DailyTransaction";
+import { Transaction } from "../entities/Transaction";
+
+/**
+ * Actions checked by the ownership policy
+ */
+export enum PolicyAction {
+    READ = "read",
+    CREATE = "create",
+    UPDATE = "update",
+    DELETE = "delete"
+}
+
+/**
+ * Resources protected by the ownership policy.
+ * Budgets and transactions must be loaded with their client relation, otherwise access is denied.
+ */
+export type PolicyResource = Client | MonthlyBudget | DailyTransaction | Transaction;
+
+/**
+ * Whether the principal can access every client, granted by the clients:all permission
+ */
+export const canAccessAllClients = (principal: Principal): boolean => {
+    return principal.permissions.includes(PermissionType.CLIENTS_ALL);
+};
+
+/**
+ * Client that owns a resource
+ */
+const getOwnerClient = (resource: PolicyResource): Client | undefined => {
+    if (resource instanceof Client) {
+        return resource;
+    }
+    return resource.client ?? undefined;
+};
+
+/**
+ * Ownership policy
+ * - accounts with the clients:all permission (admins by default) can do everything
+ * - managers can only access the clients they manage and their data
+ * - clients can only access their own data, and cannot delete their own client record
+ * @param principal Authenticated user or client
+ * @param action Action to check
+ * @param resource Resource the action applies to
+ */
+export const can = (principal: Principal, action: PolicyAction, resource: PolicyResource): boolean => {
+    if (canAccessAllClients(principal)) {
+        return true;
+    }
+
+    const owner = getOwnerClient(resource);
+    if (!owner) {
+        return false;
+    }
+
+    if (principal.type === AuthType.ADMIN) {
+        return !!principal.user && owner.managerId === principal.user.id;
+    }
+
+    if (principal.type === AuthType.CLIENT && principal.client?.id === owner.id) {
+        return !(resource instanceof Client && action === PolicyAction.DELETE);
+    }
+
+    return false;
+};
+
+/**
+ * Enforce the ownership policy
+ * @throws AppError 401 without a principal, 403 when the action is not allowed
+ */
+export const authorize = (principal: Principal | undefined, action: PolicyAction, resource: PolicyResource): void => {
+    if (!principal) {
+        throw new AppError("Authentication required", 401);
+    }
+
+    if (!can(principal, action, resource)) {
+        throw new AppError("You are not authorized to access this resource", 403);
+    }
+};
@@ -0,0 +1,151 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { LoggerService } from "../services/LoggerService";
+import { AppError } from "../middlewares/error.middleware";
+
+/**
+ * Password rules, configured with the PASSWORD_* environment variables
+ */
+export interface PasswordPolicyConfig {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  historySize: number;
+}
+
+/**
+ * Personal data a password must not contain
+ */
+export interface PasswordContext {
+  name?: string | null;
+  email?: string | null;
+  cpf?: string | null;
+}
+
+const logger = LoggerService.getInstance();
+
+const DEFAULT_BLOCKLIST_FILE = join(__dirname, "..", "..", "data", "common-passwords.txt");
+
+let blocklist: Set<string> | null = null;
+
+const parseCount = (value: string | undefined, fallback: number, min: number): number => {
+  const parsed = parseInt(value || String(fallback));
+  return isNaN(parsed) || parsed < min ? fallback : parsed;
+};
+
+const parseFlag = (value: string | undefined, fallback: boolean): boolean => {
+  return value === undefined || value === "" ? fallback : value === "true";
+};
+
+/**
+ * Get the password policy
+ */
+export const getPasswordPolicy = (): PasswordPolicyConfig => ({
+  minLength: parseCount(process.env.PASSWORD_MIN_LENGTH, 8, 1),
+  requireUppercase: parseFlag(process.env.PASSWORD_REQUIRE_UPPERCASE, true),
+  requireLowercase: parseFlag(process.env.PASSWORD_REQUIRE_LOWERCASE, true),
+  requireDigit: parseFlag(process.env.PASSWORD_REQUIRE_DIGIT, true),
+  requireSymbol: parseFlag(process.env.PASSWORD_REQUIRE_SYMBOL, false),
+  historySize: parseCount(process.env.PASSWORD_HISTORY_SIZE, 5, 0)
+});
+
+/**
+ * Load the common-password blocklist (PASSWORD_BLOCKLIST_FILE, one password per line).
+ * Read once; a missing file disables the check instead of blocking every password change.
+ */
+const getBlocklist = (): Set<string> => {
+  if (blocklist) {
+    return blocklist;
+  }
+
+  const file = process.env.PASSWORD_BLOCKLIST_FILE || DEFAULT_BLOCKLIST_FILE;
+  try {
+    blocklist = new Set(
+      readFileSync(file, "utf8")
+        .split(/\r?\n/)
+        .map(line => line.trim().toLowerCase())
+        .filter(line => line && !line.startsWith("#"))
+    );
+  } catch (error) {
+    logger.warn(`Password blocklist ${file} could not be read, common passwords are not rejected`);
+    blocklist = new Set();
+  }
+  return blocklist;
+};
+
+/**
+ * Parts of the personal data long enough to be worth looking for in a password
+ */
+const personalTokens = (context: PasswordContext): string[] => {
+  const tokens: string[] = [];
+
+  if (context.name) {
+    tokens.push(...context.name.toLowerCase().split(/\s+/));
+  }
+
+  if (context.email) {
+    const localPart = context.email.toLowerCase().split("@")[0];
+    tokens.push(localPart, ...localPart.split(/[._+-]+/));
+  }
+
+  if (context.cpf) {
+    tokens.push(context.cpf.replace(/\D/g, ""));
+  }
+
+  return tokens.filter(token => token.length >= 3);
+};
+
+/**
+ * Check a password against the policy
+ * @param password Password to check
+ * @param context Personal data of the account
+ * @returns The rules the password breaks, empty when it is allowed
+ */
+export const checkPassword = (password: string, context: PasswordContext = {}): string[] => {
+  const policy = getPasswordPolicy();
+  const violations: string[] = [];
+
+  if (password.length < policy.minLength) {
+    violations.push(`must be at least ${policy.minLength} characters long`);
+  }
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    violations.push("must contain an uppercase letter");
+  }
+  if (policy.requireLowercase && !/[a-z]/.test(password)) {
+    violations.push("must contain a lowercase letter");
+  }
+  if (policy.requireDigit && !/\d/.test(password)) {
+    violations.push("must contain a digit");
+  }
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    violations.push("must contain a symbol");
+  }
+  if (getBlocklist().has(password.toLowerCase())) {
+    violations.push("is too common");
+  }
+
+  // The CPF is compared on digits only, so it is found with or without its separators
+  const lowered = password.toLowerCase();
+  const digits = password.replace(/\D/g, "");
+  const containsPersonalData = personalTokens(context).some(token =>
+    lowered.includes(token) || (/^\d+$/.test(token) && digits.includes(token))
+  );
+  if (containsPersonalData) {
+    violations.push("must not contain your name, email or CPF");
+  }
+
+  return violations;
+};
+
+/**
+ * Reject a password that breaks the policy
+ * @throws AppError 400 listing the broken rules
+ */
+export const assertPasswordAllowed = (password: string, context: PasswordContext = {}): void => {
+  const violations = checkPassword(password, context);
+  if (violations.length > 0) {
+    throw new AppError(`Password ${violations.join(", ")}`, 400);
+  }
+};
@@ -0,0 +1,143 @@
+import { AppDataSource } from "../config/data-source";
+import { SecurityEventType } from "../entities/SecurityEvent";
+import { LoggerService } from "../services/LoggerService";
+
+/**
+ * Kinds of activity in the feed
+ */
+export enum ActivityType {
+  TRANSACTION = "transaction",
+  BUDGET = "budget",
+  CLIENT_REGISTRATION = "client_registration",
+  LOGIN = "login"
+}
+
+/**
+ * An entry of the activity feed
+ * cursorAt is occurredAt with microseconds, so a page can resume exactly after its last entry.
+ */
+export interface ActivityRow {
+  type: ActivityType;
+  id: string;
+  occurredAt: Date;
+  cursorAt: string;
+  clientId: string;
+  clientName: string;
+  details: Record<string, unknown>;
+}
+
+/**
+ * Position in the feed: entries strictly older than it are returned
+ */
+export interface ActivityCursor {
+  occurredAt: string;
+  id: string;
+}
+
+const logger = LoggerService.getInstance();
+
+/**
+ * Every source of the feed as one timeline.
+ * Budgets appear once, at their latest change.
+ */
+const ACTIVITY_FEED_SQL = `
+  SELECT '${ActivityType.TRANSACTION}' AS "type", t."id", t."createdAt" AS "occurredAt",
+    c."id" AS "clientId", c."name" AS "clientName", c."managerId",
+    json_build_object(
+      'description', t."description",
+      'amount', t."amount",
+      'transactionType', t."type",
+      'date', t."date",
+      'monthlyBudgetId', t."monthlyBudgetId"
+    ) AS "details"
+  FROM "daily_transactions" t
+  INNER JOIN "clients" c ON c."id" = t."clientId"
+  UNION ALL
+  SELECT '${ActivityType.BUDGET}', b."id", b."updatedAt",
+    c."id", c."name", c."managerId",
+    json_build_object(
+      'year', b."year",
+      'month', b."month",
+      'monthlySalary', b."monthlySalary",
+      'budgetAmount', b."budgetAmount",
+      'isPercentage', b."isPercentage",
+      'created', b."createdAt" = b."updatedAt"
+    )
+  FROM "monthly_budgets" b
+  INNER JOIN "clients" c ON c."id" = b."clientId"
+  UNION ALL
+  SELECT '${ActivityType.CLIENT_REGISTRATION}', c."id", c."createdAt",
+    c."id", c."name", c."managerId",
+    json_build_object('email', c."email")
+  FROM "clients" c
+  UNION ALL
+  SELECT '${ActivityType.LOGIN}', e."id", e."createdAt",
+    c."id", c."name", c."managerId",
+    json_build_object('ipAddress', e."ipAddress", 'userAgent', e."userAgent")
+  FROM "security_events" e
+  INNER JOIN "auth" a ON a."id" = e."authId"
+  INNER JOIN "clients" c ON c."id" = a."clientId"
+  WHERE e."type" = '${SecurityEventType.LOGIN_SUCCESS}'
+`;
+
+/**
+ * Find a page of the activity feed, newest first
+ * @param filters Optional filters (managerId, clientId, types)
+ * @param cursor Position of the last entry of the previous page
+ * @param limit Maximum number of entries
+ * @returns Feed entries
+ */
+export const findActivityFeed = async (
+  filters: {
+    managerId?: string;
+    clientId?: string;
+    types?: ActivityType[];
+  },
+  cursor: ActivityCursor | undefined,
+  limit: number
+): Promise<ActivityRow[]> => {
+  try {
+    const conditions: string[] = [];
+    const parameters: unknown[] = [];
+    const parameter = (value: unknown): string => {
+      parameters.push(value);
+      return `$${parameters.length}`;
+    };
+
+    if (filters.managerId) {
+      conditions.push(`feed."managerId" = ${parameter(filters.managerId)}`);
+    }
+
+    if (filters.clientId) {
+      conditions.push(`feed."clientId" = ${parameter(filters.clientId)}`);
+    }
+
+    if (filters.types && filters.types.length > 0) {
+      conditions.push(`feed."type" = ANY(${parameter(filters.types)})`);
+    }
+
+    if (cursor) {
+      conditions.push(
+        `(feed."occurredAt", feed."id") < (${parameter(cursor.occurredAt)}::timestamp, ${parameter(cursor.id)}::uuid)`
+      );
+    }
+
+    const rows = await AppDataSource.query(
+      `SELECT feed."type", feed."id", feed."occurredAt",
+        to_char(feed."occurredAt", 'YYYY-MM-DD"T"HH24:MI:SS.US') AS "cursorAt",
+        feed."clientId", feed."clientName", feed."details"
+      FROM (${ACTIVITY_FEED_SQL}) feed
+      ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+      ORDER BY feed."occurredAt" DESC, feed."id" DESC
+      LIMIT ${parameter(limit)}`,
+      parameters
+    );
+
+    return rows.map((row: ActivityRow) => ({ ...row, occurredAt: new Date(row.occurredAt) }));
+  } catch (error) {
+    logger.error("Error finding activity feed:", error);
+    throw error;
+  }
+};
+
+export default { findActivityFeed };
@@ -0,0 +1,113 @@
+import { IsNull, MoreThan } from "typeorm";
+import { AppDataSource } from "../config/data-source";
+import { ApiKey } from "../entities/ApiKey";
+import { Auth } from "../entities/Auth";
+import { LoggerService } from "../services/LoggerService";
+
+/**
+ * Repository for ApiKey entity
+ */
+const apiKeyRepository = AppDataSource.getRepository(ApiKey);
+const logger = LoggerService.getInstance();
+
+/**
+ * Find an API key by its public prefix, including the key hash
+ * @param prefix Key prefix
+ * @returns API key or null if not found
+ */
+export const findApiKeyByPrefix = async (prefix: string): Promise<ApiKey | null> => {
+  try {
+    return await apiKeyRepository
+      .createQueryBuilder("apiKey")
+      .addSelect("apiKey.keyHash")
+      .where("apiKey.prefix = :prefix", { prefix })
+      .getOne();
+  } catch (error) {
+    logger.error("Error finding API key by prefix:", error);
+    throw error;
+  }
+};
+
+/**
+ * Find the API keys of an account, newest first
+ * @param authId Auth ID
+ * @returns Array of API keys
+ */
+export const findApiKeysByAuthId = async (authId: string): Promise<ApiKey[]> => {
+  try {
+    return await apiKeyRepository.find({
+      where: { authId },
+      order: { createdAt: "DESC" }
+    });
+  } catch (error) {
+    logger.error(`Error finding API keys for auth ${authId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Create a new API key unless the account already has the maximum number of active keys.
+ * The auth row is locked while counting, so concurrent requests of one account cannot pass the limit together.
+ * @param apiKeyData API key data, including the auth ID
+ * @param maxActiveKeys Maximum number of keys that are neither revoked nor expired
+ * @param now Current time, keys expiring before it do not count
+ * @returns Created API key, or null when the limit is reached
+ */
+export const createApiKeyWithinLimit = async (
+  apiKeyData: Partial<ApiKey> & { authId: string },
+  maxActiveKeys: number,
+  now: Date = new Date()
+): Promise<ApiKey | null> => {
+  try {
+    return await AppDataSource.transaction(async manager => {
+      await manager.findOne(Auth, { where: { id: apiKeyData.authId }, lock: { mode: "pessimistic_write" } });
+
+      const activeKeys = await manager.count(ApiKey, {
+        where: { authId: apiKeyData.authId, revokedAt: IsNull(), expiresAt: MoreThan(now) }
+      });
+      if (activeKeys >= maxActiveKeys) {
+        return null;
+      }
+
+      return await manager.save(ApiKey, manager.create(ApiKey, apiKeyData));
+    });
+  } catch (error) {
+    logger.error(`Error creating API key for auth ${apiKeyData.authId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Revoke an API key of an account
+ * @param id API key ID
+ * @param authId Auth ID owning the key
+ * @returns True if the key was revoked
+ */
+export const revokeApiKey = async (id: string, authId: string): Promise<boolean> => {
+  try {
+    const result = await apiKeyRepository.update(
+      { id, authId, revokedAt: IsNull() },
+      { revokedAt: new Date() }
+    );
+    return (result.affected ?? 0) > 0;
+  } catch (error) {
+    logger.error(`Error revoking API key with ID ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Record when an API key was last used
+ * @param id API key ID
+ * @param usedAt Time of use
+ */
+export const updateApiKeyLastUsed = async (id: string, usedAt: Date): Promise<void> => {
+  try {
+    await apiKeyRepository.update({ id }, { lastUsedAt: usedAt });
+  } catch (error) {
+    logger.error(`Error updating last use of API key with ID ${id}:`, error);
+    throw error;
+  }
+};
+
+export default apiKeyRepository;
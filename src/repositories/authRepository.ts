@@ -52,8 +52,8 @@ export const findAuthByEmail = async (
 ): Promise<Auth | null> => {
   try {
     const select = includePassword
-      ? ["id", "email", "password", "type", "isActive", "lastLogin", "refreshToken", "refreshTokenExpiry", "userId", "clientId", "createdAt", "updatedAt"]
-      : ["id", "email", "type", "isActive", "lastLogin", "refreshToken", "refreshTokenExpiry", "userId", "clientId", "createdAt", "updatedAt"];
+      ? ["id", "email", "password", "type", "isActive", "emailVerifiedAt", "emailVerificationExpiry", "lastLogin", "refreshToken", "refreshTokenExpiry", "tokenVersion", "passwordResetExpiry", "failedLoginAttempts", "lastFailedLoginAt", "lockedUntil", "twoFactorEnabled", "twoFactorRequired", "twoFactorLastUsedStep", "userId", "clientId", "createdAt", "updatedAt"]
+      : ["id", "email", "type", "isActive", "emailVerifiedAt", "emailVerificationExpiry", "lastLogin", "refreshToken", "refreshTokenExpiry", "tokenVersion", "passwordResetExpiry", "failedLoginAttempts", "lastFailedLoginAt", "lockedUntil", "twoFactorEnabled", "twoFactorRequired", "twoFactorLastUsedStep", "userId", "clientId", "createdAt", "updatedAt"];
 
     return await authRepository.findOne({
       where: { email },
@@ -66,6 +66,60 @@ export const findAuthByEmail = async (
   }
 };
 
+/**
+ * Find an auth record by the hash of a password reset token
+ * @param tokenHash Hashed reset token
+ * @returns Auth record or null if not found
+ */
+export const findAuthByPasswordResetToken = async (tokenHash: string): Promise<Auth | null> => {
+  try {
+    return await authRepository.findOne({
+      where: { passwordResetToken: tokenHash },
+      relations: ["user", "client"]
+    });
+  } catch (error) {
+    logger.error("Error finding auth by password reset token:", error);
+    throw error;
+  }
+};
+
+/**
+ * Find an auth record by the hash of an email verification token
+ * @param tokenHash Hashed verification token
+ * @returns Auth record or null if not found
+ */
+export const findAuthByEmailVerificationToken = async (tokenHash: string): Promise<Auth | null> => {
+  try {
+    return await authRepository.findOne({
+      where: { emailVerificationToken: tokenHash },
+      relations: ["user", "client"]
+    });
+  } catch (error) {
+    logger.error("Error finding auth by email verification token:", error);
+    throw error;
+  }
+};
+
+/**
+ * Find an auth record by ID including its password and two-factor secrets
+ * @param id Auth ID
+ * @returns Auth record or null if not found
+ */
+export const findAuthWithTwoFactorSecrets = async (id: string): Promise<Auth | null> => {
+  try {
+    return await authRepository
+      .createQueryBuilder("auth")
+      .addSelect(["auth.password", "auth.twoFactorSecret", "auth.twoFactorRecoveryCodes"])
+      .leftJoinAndSelect("auth.user", "user")
+      .leftJoinAndSelect("auth.client", "client")
+      .where("auth.id = :id", { id })
+      .getOne();
+  } catch (error) {
+    logger.error(`Error finding auth with two-factor secrets for ID ${id}:`, error);
+    throw error;
+  }
+};
+
 /**
  * Find an auth record by user ID
  * @param userId User ID
@@ -161,4 +215,90 @@ export const updateLastLogin = async (id: string): Promise<Auth | null> => {
   }
 };
 
+/**
+ * Increment the token version of an auth record, invalidating every access token issued before
+ * @param id Auth ID
+ */
+export const incrementTokenVersion = async (id: string): Promise<void> => {
+  try {
+    await authRepository.increment({ id }, "tokenVersion", 1);
+  } catch (error) {
+    logger.error(`Error incrementing token version for auth with ID ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Failure counters of an auth record after a failed login
+ */
+export interface FailedLoginCount {
+  failedLoginAttempts: number;
+  lockedUntil: Date | null;
+}
+
+/**
+ * Count a failed login in a single statement, so concurrent failures cannot overwrite each other's increments.
+ * A lock that has expired is cleared and the count starts again from 1.
+ * @param id Auth ID
+ * @param now Time of the failure
+ * @returns Counters after the failure, or null when the auth record does not exist
+ */
+export const incrementFailedLoginAttempts = async (id: string, now: Date = new Date()): Promise<FailedLoginCount | null> => {
+  try {
+    const result = await authRepository
+      .createQueryBuilder()
+      .update(Auth)
+      .set({
+        failedLoginAttempts: () => `CASE WHEN "lockedUntil" <= :now THEN 1 ELSE "failedLoginAttempts" + 1 END`,
+        lockedUntil: () => `CASE WHEN "lockedUntil" <= :now THEN NULL ELSE "lockedUntil" END`,
+        lastFailedLoginAt: now
+      })
+      .where("id = :id", { id, now })
+      .returning(["failedLoginAttempts", "lockedUntil"])
+      .execute();
+
+    const row = result.raw[0];
+    return row ? { failedLoginAttempts: Number(row.failedLoginAttempts), lockedUntil: row.lockedUntil } : null;
+  } catch (error) {
+    logger.error(`Error incrementing failed login attempts for auth with ID ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Lock an auth record unless it is already locked
+ * @param id Auth ID
+ * @param lockedUntil End of the lock
+ * @param now Current time, a lock ending before it no longer counts
+ * @returns Whether this call locked the account
+ */
+export const lockAuthUntil = async (id: string, lockedUntil: Date, now: Date = new Date()): Promise<boolean> => {
+  try {
+    const result = await authRepository
+      .createQueryBuilder()
+      .update(Auth)
+      .set({ lockedUntil })
+      .where("id = :id", { id })
+      .andWhere(`("lockedUntil" IS NULL OR "lockedUntil" <= :now)`, { now })
+      .execute();
+    return (result.affected ?? 0) > 0;
+  } catch (error) {
+    logger.error(`Error locking auth with ID ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Clear the failed login counters and the lock of an auth record, without touching its other columns
+ * @param id Auth ID
+ */
+export const resetFailedLoginAttempts = async (id: string): Promise<void> => {
+  try {
+    await authRepository.update({ id }, { failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null });
+  } catch (error) {
+    logger.error(`Error resetting failed login attempts for auth with ID ${id}:`, error);
+    throw error;
+  }
+};
+
 export default authRepository;
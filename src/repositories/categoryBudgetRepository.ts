@@ -0,0 +1,144 @@
+import { AppDataSource } from "../config/data-source";
+import { CategoryBudget } from "../entities/CategoryBudget";
+import { MonthlyBudget } from "../entities/MonthlyBudget";
+import { LoggerService } from "../services/LoggerService";
+
+/**
+ * Repository for CategoryBudget entity
+ */
+const categoryBudgetRepository = AppDataSource.getRepository(CategoryBudget);
+const logger = LoggerService.getInstance();
+
+/**
+ * Find the category budgets of a monthly budget
+ * @param monthlyBudgetId Monthly budget ID
+ * @returns Array of category budgets with their category, by category name
+ */
+export const findCategoryBudgetsByMonthlyBudget = async (monthlyBudgetId: string): Promise<CategoryBudget[]> => {
+  try {
+    return await categoryBudgetRepository.find({
+      where: { monthlyBudgetId },
+      relations: ["category"],
+      order: { category: { name: "ASC" } }
+    });
+  } catch (error) {
+    logger.error(`Error finding category budgets for monthly budget ${monthlyBudgetId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Find a category budget by ID
+ * @param id Category budget ID
+ * @returns Category budget or null if not found
+ */
+export const findCategoryBudgetById = async (id: string): Promise<CategoryBudget | null> => {
+  try {
+    return await categoryBudgetRepository.findOne({
+      where: { id },
+      relations: ["category"]
+    });
+  } catch (error) {
+    logger.error(`Error finding category budget with ID ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Find the category budget of a category within a monthly budget
+ * @param monthlyBudgetId Monthly budget ID
+ * @param categoryId Category ID
+ * @returns Category budget or null if not found
+ */
+export const findCategoryBudgetByCategory = async (
+  monthlyBudgetId: string,
+  categoryId: string
+): Promise<CategoryBudget | null> => {
+  try {
+    return await categoryBudgetRepository.findOne({
+      where: { monthlyBudgetId, categoryId }
+    });
+  } catch (error) {
+    logger.error(`Error finding category budget for category ${categoryId} in monthly budget ${monthlyBudgetId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Create a new category budget
+ * @param categoryBudgetData Category budget data
+ * @returns Created category budget
+ */
+export const createCategoryBudget = async (categoryBudgetData: Partial<CategoryBudget>): Promise<CategoryBudget> => {
+  try {
+    const categoryBudget = categoryBudgetRepository.create(categoryBudgetData);
+    return await categoryBudgetRepository.save(categoryBudget);
+  } catch (error) {
+    logger.error("Error creating category budget:", error);
+    throw error;
+  }
+};
+
+/**
+ * Update a category budget
+ * @param categoryBudget Category budget to update
+ * @returns Updated category budget
+ */
+export const updateCategoryBudget = async (categoryBudget: CategoryBudget): Promise<CategoryBudget> => {
+  try {
+    return await categoryBudgetRepository.save(categoryBudget);
+  } catch (error) {
+    logger.error(`Error updating category budget with ID ${categoryBudget.id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Create or update a category budget under a lock on its monthly budget row.
+ * The check runs with the locked budget and its other category budgets, so concurrent writes to the same budget are
+ * checked one after the other and cannot exceed it together. Budget amount changes take the same lock.
+ * @param categoryBudget New or changed category budget
+ * @param check Check of the write, throws to reject it
+ * @returns Saved category budget
+ * @throws Error when the monthly budget does not exist
+ */
+export const saveCategoryBudgetWithinBudget = async (
+  categoryBudget: Partial<CategoryBudget>,
+  check: (budget: MonthlyBudget, others: CategoryBudget[]) => void
+): Promise<CategoryBudget> => {
+  try {
+    return await AppDataSource.transaction(async manager => {
+      const budget = await manager.findOne(MonthlyBudget, {
+        where: { id: categoryBudget.monthlyBudgetId },
+        lock: { mode: "pessimistic_write" }
+      });
+      if (!budget) {
+        throw new Error(`Monthly budget ${categoryBudget.monthlyBudgetId} not found`);
+      }
+
+      const others = await manager.find(CategoryBudget, { where: { monthlyBudgetId: budget.id } });
+      check(budget, others.filter(other => other.id !== categoryBudget.id));
+
+      return await manager.save(CategoryBudget, manager.create(CategoryBudget, categoryBudget));
+    });
+  } catch (error) {
+    logger.error(`Error saving category budget for monthly budget ${categoryBudget.monthlyBudgetId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Delete a category budget
+ * @param categoryBudget Category budget to delete
+ * @returns Deleted category budget
+ */
+export const deleteCategoryBudget = async (categoryBudget: CategoryBudget): Promise<CategoryBudget> => {
+  try {
+    return await categoryBudgetRepository.remove(categoryBudget);
+  } catch (error) {
+    logger.error(`Error deleting category budget with ID ${categoryBudget.id}:`, error);
+    throw error;
+  }
+};
+
+export default categoryBudgetRepository;
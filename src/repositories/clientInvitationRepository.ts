@@ -0,0 +1,81 @@
+import { IsNull } from "typeorm";
+import { AppDataSource } from "../config/data-source";
+import { ClientInvitation } from "../entities/ClientInvitation";
+import { LoggerService } from "../services/LoggerService";
+
+/**
+ * Repository for ClientInvitation entity
+ */
+const clientInvitationRepository = AppDataSource.getRepository(ClientInvitation);
+const logger = LoggerService.getInstance();
+
+/**
+ * Find an invitation by the hash of its token
+ * @param tokenHash Hashed invitation token
+ * @returns Invitation or null if not found
+ */
+export const findClientInvitationByHash = async (tokenHash: string): Promise<ClientInvitation | null> => {
+  try {
+    return await clientInvitationRepository.findOne({
+      where: { tokenHash },
+      relations: ["client"]
+    });
+  } catch (error) {
+    logger.error("Error finding client invitation by hash:", error);
+    throw error;
+  }
+};
+
+/**
+ * Create a new invitation
+ * @param invitationData Invitation data
+ * @returns Created invitation
+ */
+export const createClientInvitation = async (invitationData: Partial<ClientInvitation>): Promise<ClientInvitation> => {
+  try {
+    const invitation = clientInvitationRepository.create(invitationData);
+    return await clientInvitationRepository.save(invitation);
+  } catch (error) {
+    logger.error("Error creating client invitation:", error);
+    throw error;
+  }
+};
+
+/**
+ * Mark an invitation as accepted.
+ * Only succeeds if the invitation is still open, so a link cannot be used twice.
+ * @param id Invitation ID
+ * @returns True if the invitation was accepted
+ */
+export const markClientInvitationAccepted = async (id: string): Promise<boolean> => {
+  try {
+    const result = await clientInvitationRepository.update(
+      { id, acceptedAt: IsNull(), revokedAt: IsNull() },
+      { acceptedAt: new Date() }
+    );
+    return (result.affected ?? 0) > 0;
+  } catch (error) {
+    logger.error(`Error accepting client invitation with ID ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Revoke every open invitation of a client
+ * @param clientId Client ID
+ * @returns Number of revoked invitations
+ */
+export const revokeOpenClientInvitations = async (clientId: string): Promise<number> => {
+  try {
+    const result = await clientInvitationRepository.update(
+      { clientId, acceptedAt: IsNull(), revokedAt: IsNull() },
+      { revokedAt: new Date() }
+    );
+    return result.affected ?? 0;
+  } catch (error) {
+    logger.error(`Error revoking invitations for client ${clientId}:`, error);
+    throw error;
+  }
+};
+
+export default clientInvitationRepository;
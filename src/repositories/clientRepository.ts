@@ -1,6 +1,7 @@
 import { ILike } from "typeorm";
 import { AppDataSource } from "../config/data-source";
 import { Client } from "../entities/Client";
+import { Auth } from "../entities/Auth";
 import { LoggerService } from "../services/LoggerService";
 
 /**
@@ -223,6 +224,27 @@ export const updateClient = async (client: Client): Promise<Client> => {
   }
 };
 
+/**
+ * Update a client and its auth record in one transaction, so the login email cannot go stale
+ * @param client Client to update
+ * @param auth Auth record of the client, or null if the client has no login yet
+ * @returns Updated client
+ */
+export const updateClientWithAuth = async (client: Client, auth: Auth | null): Promise<Client> => {
+  try {
+    return await AppDataSource.transaction(async manager => {
+      const savedClient = await manager.save(Client, client);
+      if (auth) {
+        await manager.save(Auth, auth);
+      }
+      return savedClient;
+    });
+  } catch (error) {
+    logger.error(`Error updating client with auth for ID ${client.id}:`, error);
+    throw error;
+  }
+};
+
 /**
  * Delete a client
  * @param client Client to delete
@@ -237,4 +259,117 @@ export const deleteClient = async (client: Client): Promise<Client> => {
   }
 };
 
+/**
+ * Client counts grouped by a period of their creation date
+ */
+export interface ClientsPerPeriod {
+  period: Date;
+  count: number;
+}
+
+/**
+ * Client counts grouped by manager
+ */
+export interface ClientsPerManager {
+  managerId: string;
+  managerName: string;
+  count: number;
+}
+
+/**
+ * Count active and inactive clients
+ * @param managerId Only count the clients of this manager
+ * @returns Active and inactive counts
+ */
+export const countClientsByStatus = async (managerId?: string): Promise<{ active: number; inactive: number }> => {
+  try {
+    const query = clientRepository
+      .createQueryBuilder("client")
+      .select("COUNT(*) FILTER (WHERE client.isActive = true)", "active")
+      .addSelect("COUNT(*) FILTER (WHERE client.isActive = false)", "inactive");
+
+    if (managerId) {
+      query.where("client.managerId = :managerId", { managerId });
+    }
+
+    const result = await query.getRawOne();
+    return {
+      active: parseInt(result.active, 10),
+      inactive: parseInt(result.inactive, 10)
+    };
+  } catch (error) {
+    logger.error("Error counting clients by status:", error);
+    throw error;
+  }
+};
+
+/**
+ * Count the clients created in a date range, grouped by day, week or month
+ * @param interval Grouping period
+ * @param startDate Start of the range
+ * @param endDate End of the range
+ * @param managerId Only count the clients of this manager
+ * @returns Counts per period, oldest first; periods without new clients are omitted
+ */
+export const countNewClientsByPeriod = async (
+  interval: "day" | "week" | "month",
+  startDate: Date,
+  endDate: Date,
+  managerId?: string
+): Promise<ClientsPerPeriod[]> => {
+  try {
+    const query = clientRepository
+      .createQueryBuilder("client")
+      .select("DATE_TRUNC(:interval, client.createdAt)", "period")
+      .addSelect("COUNT(*)", "count")
+      .where("client.createdAt BETWEEN :startDate AND :endDate", { startDate, endDate })
+      .setParameter("interval", interval)
+      .groupBy("period")
+      .orderBy("period", "ASC");
+
+    if (managerId) {
+      query.andWhere("client.managerId = :managerId", { managerId });
+    }
+
+    const rows = await query.getRawMany();
+    return rows.map(row => ({ period: new Date(row.period), count: parseInt(row.count, 10) }));
+  } catch (error) {
+    logger.error("Error counting new clients by period:", error);
+    throw error;
+  }
+};
+
+/**
+ * Count clients per manager
+ * @param managerId Only count the clients of this manager
+ * @returns Counts per manager, largest first
+ */
+export const countClientsByManager = async (managerId?: string): Promise<ClientsPerManager[]> => {
+  try {
+    const query = clientRepository
+      .createQueryBuilder("client")
+      .innerJoin("client.manager", "manager")
+      .select("manager.id", "managerId")
+      .addSelect("manager.name", "managerName")
+      .addSelect("COUNT(client.id)", "count")
+      .groupBy("manager.id")
+      .addGroupBy("manager.name")
+      .orderBy("count", "DESC");
+
+    if (managerId) {
+      query.where("client.managerId = :managerId", { managerId });
+    }
+
+    const rows = await query.getRawMany();
+    return rows.map(row => ({
+      managerId: row.managerId,
+      managerName: row.managerName,
+      count: parseInt(row.count, 10)
+    }));
+  } catch (error) {
+    logger.error("Error counting clients by manager:", error);
+    throw error;
+  }
+};
+
 export default clientRepository;
@@ -1,8 +1,12 @@
-import { Between, LessThanOrEqual, MoreThanOrEqual } from "typeorm";
+import { Between, EntityManager, LessThanOrEqual, MoreThanOrEqual } from "typeorm";
 import { AppDataSource } from "../config/data-source";
+import { CategoryBudget } from "../entities/CategoryBudget";
 import { DailyTransaction } from "../entities/DailyTransaction";
+import { MonthlyBudget } from "../entities/MonthlyBudget";
+import { computeLedger, getCarriedOverAmount } from "../utils/ledger.util";
 import { LoggerService } from "../services";
 import {Client} from "../entities/Client";
+import { findLatestMonthlyBudgetBefore } from "./monthlyBudgetRepository";
 
 /**
  * Repository for DailyTransaction entity
@@ -45,22 +49,6 @@ export const findDailyTransactionsByClient = async (
     throw error;
   }
 };
-/**
- * Find all daily transactions for a client by date
- * @returns Array of daily transactions
- */
-export const findAllDailyTransaction= async () => {
-  try {
-    return await dailyTransactionRepository.find({
-      relations: ["category", "monthlyBudget", 'client'],
-      order: {date: "ASC", createdAt: "ASC"}
-    });
-  } catch (error) {
-    logger.error(`Error finding daily transactions:`, error);
-    throw error;
-  }
-}
-
 /**
  * Find daily transactions for a client by date
  * @param clientId Client ID
@@ -161,29 +149,327 @@ export const createDailyTransaction = async (transactionData: Partial<DailyTrans
 };
 
 /**
- * Update a daily transaction
- * @param transaction Daily transaction to update
+ * Delete a daily transaction
+ * @param transaction Daily transaction to delete
+ * @returns Deleted daily transaction
+ */
+export const deleteDailyTransaction = async (transaction: DailyTransaction): Promise<DailyTransaction> => {
+  try {
+    return await dailyTransactionRepository.remove(transaction);
+  } catch (error) {
+    logger.error(`Error deleting daily transaction with ID ${transaction.id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Balances of a budget after its ledger was rebuilt
+ */
+export interface LedgerRebuild {
+  budget: MonthlyBudget;
+  previousRemainingBalance: number;
+  runningBalances: Map<string, number>;
+  transactionsUpdated: number;
+}
+
+/**
+ * Lock monthly budgets for the rest of the database transaction.
+ * Every ledger write locks its budgets first, in ID order, and only then its daily transaction, so two writers
+ * touching the same rows wait for each other instead of deadlocking.
+ * @throws Error when a budget does not exist
+ */
+const lockMonthlyBudgets = async (manager: EntityManager, ids: string[]): Promise<Map<string, MonthlyBudget>> => {
+  const budgets = new Map<string, MonthlyBudget>();
+  for (const id of [...new Set(ids)].sort()) {
+    const budget = await manager.findOne(MonthlyBudget, { where: { id }, lock: { mode: "pessimistic_write" } });
+    if (!budget) {
+      throw new Error(`Monthly budget ${id} not found`);
+    }
+    budgets.set(id, budget);
+  }
+  return budgets;
+};
+
+/**
+ * Lock a daily transaction for the rest of the database transaction and read its stored values
+ * @throws Error when the transaction does not exist
+ */
+const lockDailyTransaction = async (manager: EntityManager, id: string): Promise<DailyTransaction> => {
+  const stored = await manager.findOne(DailyTransaction, { where: { id }, lock: { mode: "pessimistic_write" } });
+  if (!stored) {
+    throw new Error(`Daily transaction ${id} not found`);
+  }
+  return stored;
+};
+
+/**
+ * A daily transaction moved to a budget that was not locked, between reading and locking it
+ */
+class DailyTransactionMovedError extends Error {}
+
+const MAX_LOCK_ATTEMPTS = 3;
+
+/**
+ * Run a ledger write on an existing daily transaction in a database transaction.
+ * Its current budget and the other given budgets are locked first, then the daily transaction itself. When a
+ * concurrent write moved it to another budget in between, the database transaction is rolled back and retried.
+ * @param id Daily transaction ID
+ * @param budgetIds Other budgets the write touches
+ * @param write Write to run with the stored daily transaction and the locked budgets
+ * @throws Error when the transaction does not exist
+ */
+const withLockedDailyTransaction = async <T>(
+  id: string,
+  budgetIds: string[],
+  write: (manager: EntityManager, stored: DailyTransaction, budgets: Map<string, MonthlyBudget>) => Promise<T>
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await AppDataSource.transaction(async manager => {
+        const current = await manager.findOne(DailyTransaction, { where: { id } });
+        if (!current) {
+          throw new Error(`Daily transaction ${id} not found`);
+        }
+
+        const budgets = await lockMonthlyBudgets(manager, [current.monthlyBudgetId, ...budgetIds]);
+        const stored = await lockDailyTransaction(manager, id);
+        if (!budgets.has(stored.monthlyBudgetId)) {
+          throw new DailyTransactionMovedError(`Daily transaction ${id} moved to monthly budget ${stored.monthlyBudgetId}`);
+        }
+
+        return await write(manager, stored, budgets);
+      });
+    } catch (error) {
+      if (!(error instanceof DailyTransactionMovedError) || attempt >= MAX_LOCK_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+};
+
+/**
+ * Amount a budget carries over and the budget it comes from
+ */
+export interface CarriedOver {
+  carriedOverAmount: number;
+  carriedOverFromId: string | null;
+}
+
+/**
+ * Derive what a budget carries over: the remaining balance of the client's latest earlier budget, under the client's
+ * rollover policy. The earlier budget need not be the month right before.
+ * Ledger rebuilds and checks both use it, so a check reports exactly what a rebuild would change.
+ * @param budget Monthly budget
+ * @param manager Entity manager of the database transaction to read in, if any
+ * @returns Carried amount, and the earlier budget when the amount is not zero
+ */
+export const deriveCarriedOver = async (
+  budget: MonthlyBudget,
+  manager: EntityManager = AppDataSource.manager
+): Promise<CarriedOver> => {
+  try {
+    const client = await manager.findOne(Client, { where: { id: budget.clientId } });
+    const previous = await findLatestMonthlyBudgetBefore(budget.clientId, budget.year, budget.month, manager);
+
+    const carriedOverAmount = client && previous ? getCarriedOverAmount(client.rolloverPolicy, previous.remainingBalance) : 0;
+    return { carriedOverAmount, carriedOverFromId: carriedOverAmount !== 0 ? previous!.id : null };
+  } catch (error) {
+    logger.error(`Error deriving the carried over amount of monthly budget ${budget.id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Derive the balances of a locked budget from the carried amount and its transactions and save the values that changed
+ */
+const rebuildLedger = async (manager: EntityManager, budget: MonthlyBudget): Promise<LedgerRebuild> => {
+  Object.assign(budget, await deriveCarriedOver(budget, manager));
+
+  const transactions = await manager.find(DailyTransaction, { where: { monthlyBudgetId: budget.id } });
+  const { remainingBalance, runningBalances } = computeLedger(budget, transactions);
+
+  const changed = transactions.filter(
+    transaction => Number(transaction.remainingBalanceAfterTransaction) !== runningBalances.get(transaction.id)
+  );
+  for (const transaction of changed) {
+    transaction.remainingBalanceAfterTransaction = runningBalances.get(transaction.id)!;
+  }
+  if (changed.length > 0) {
+    await manager.save(DailyTransaction, changed);
+  }
+
+  const previousRemainingBalance = Number(budget.remainingBalance);
+  budget.remainingBalance = remainingBalance;
+  await manager.save(MonthlyBudget, budget);
+
+  return { budget, previousRemainingBalance, runningBalances, transactionsUpdated: changed.length };
+};
+
+/**
+ * Rebuild the budgets of the client after a rebuilt one, oldest first and each in its own database transaction,
+ * so the amounts they carry over follow its new balance. Stops at the first budget whose balance stays the same.
+ * The write that changed the balance is already committed: a failure is logged and left to the next rebuild.
+ * @param rebuilds Budgets rebuilt by the write
+ */
+const carryForward = async (rebuilds: LedgerRebuild[]): Promise<void> => {
+  for (const { budget, previousRemainingBalance } of rebuilds) {
+    if (budget.remainingBalance === previousRemainingBalance) {
+      continue;
+    }
+
+    try {
+      const following = await AppDataSource.getRepository(MonthlyBudget)
+        .createQueryBuilder("budget")
+        .where("budget.clientId = :clientId", { clientId: budget.clientId })
+        .andWhere("(budget.year > :year OR (budget.year = :year AND budget.month > :month))", {
+          year: budget.year,
+          month: budget.month
+        })
+        .orderBy("budget.year", "ASC")
+        .addOrderBy("budget.month", "ASC")
+        .getMany();
+
+      for (const next of following) {
+        const rebuild = await AppDataSource.transaction(async manager => {
+          const budgets = await lockMonthlyBudgets(manager, [next.id]);
+          return await rebuildLedger(manager, budgets.get(next.id)!);
+        });
+        if (rebuild.budget.remainingBalance === rebuild.previousRemainingBalance) {
+          break;
+        }
+      }
+    } catch (error) {
+      logger.error(`Error carrying the balance of monthly budget ${budget.id} forward:`, error);
+    }
+  }
+};
+
+/**
+ * Create a daily transaction and rebuild the balances of its budget in one database transaction.
+ * The budget row is locked, so concurrent transactions on the same budget are applied one after the other.
+ * @param transactionData Daily transaction data
+ * @returns Created daily transaction
+ */
+export const createDailyTransactionWithBalance = async (
+  transactionData: Partial<DailyTransaction> & Pick<DailyTransaction, "amount" | "type" | "monthlyBudgetId">
+): Promise<DailyTransaction> => {
+  try {
+    const rebuilds: LedgerRebuild[] = [];
+    const created = await AppDataSource.transaction(async manager => {
+      const budgets = await lockMonthlyBudgets(manager, [transactionData.monthlyBudgetId]);
+
+      const transaction = await manager.save(DailyTransaction, manager.create(DailyTransaction, transactionData));
+      const rebuild = await rebuildLedger(manager, budgets.get(transactionData.monthlyBudgetId)!);
+      rebuilds.push(rebuild);
+
+      transaction.remainingBalanceAfterTransaction = rebuild.runningBalances.get(transaction.id)!;
+      return transaction;
+    });
+
+    await carryForward(rebuilds);
+    return created;
+  } catch (error) {
+    logger.error("Error creating daily transaction with balance:", error);
+    throw error;
+  }
+};
+
+/**
+ * Fields of a daily transaction an update can change
+ */
+export type DailyTransactionChanges = Partial<Pick<
+  DailyTransaction,
+  "description" | "amount" | "type" | "date" | "categoryId" | "monthlyBudgetId"
+>>;
+
+/**
+ * Update a daily transaction and rebuild the balances of its budget in one database transaction.
+ * The changes are applied to the row read under its lock, so concurrent edits of other fields are kept.
+ * When the transaction moved to another month, the budgets of both months are rebuilt;
+ * the budget rows and then the transaction row stay locked until everything is saved.
+ * @param id Daily transaction ID
+ * @param changes Fields to change
  * @returns Updated daily transaction
  */
-export const updateDailyTransaction = async (transaction: DailyTransaction): Promise<DailyTransaction> => {
+export const updateDailyTransactionWithBalance = async (
+  id: string,
+  changes: DailyTransactionChanges
+): Promise<DailyTransaction> => {
   try {
-    return await dailyTransactionRepository.save(transaction);
+    let rebuilds: LedgerRebuild[] = [];
+    const budgetIds = changes.monthlyBudgetId ? [changes.monthlyBudgetId] : [];
+    const updated = await withLockedDailyTransaction(id, budgetIds, async (manager, stored, budgets) => {
+      await manager.save(DailyTransaction, Object.assign(stored, changes));
+
+      // The earlier month first, the later one carries over its new balance
+      rebuilds = [];
+      const ordered = [...budgets.values()].sort((a, b) => a.year - b.year || a.month - b.month);
+      for (const budget of ordered) {
+        rebuilds.push(await rebuildLedger(manager, budget));
+      }
+
+      return await manager.findOneOrFail(DailyTransaction, { where: { id }, relations: ["category", "monthlyBudget"] });
+    });
+
+    await carryForward(rebuilds);
+    return updated;
   } catch (error) {
-    logger.error(`Error updating daily transaction with ID ${transaction.id}:`, error);
+    logger.error(`Error updating daily transaction with balance for ID ${id}:`, error);
     throw error;
   }
 };
 
 /**
- * Delete a daily transaction
- * @param transaction Daily transaction to delete
+ * Delete a daily transaction and rebuild the balances of its budget in one database transaction
+ * @param id Daily transaction ID
  * @returns Deleted daily transaction
  */
-export const deleteDailyTransaction = async (transaction: DailyTransaction): Promise<DailyTransaction> => {
+export const deleteDailyTransactionWithBalance = async (id: string): Promise<DailyTransaction> => {
   try {
-    return await dailyTransactionRepository.remove(transaction);
+    let rebuilds: LedgerRebuild[] = [];
+    const removed = await withLockedDailyTransaction(id, [], async (manager, stored, budgets) => {
+      const budgetId = stored.monthlyBudgetId;
+      const deleted = await manager.remove(DailyTransaction, stored);
+      rebuilds = [await rebuildLedger(manager, budgets.get(budgetId)!)];
+      return deleted;
+    });
+
+    await carryForward(rebuilds);
+    return removed;
   } catch (error) {
-    logger.error(`Error deleting daily transaction with ID ${transaction.id}:`, error);
+    logger.error(`Error deleting daily transaction with balance for ID ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Rebuild the balances of a monthly budget from the carried amount and its transactions, in ledger order.
+ * Changes to the budget itself (amount, salary) are applied under the same lock first; later budgets of the
+ * client are rebuilt afterwards when the balance they carry over changed.
+ * @param budgetId Monthly budget ID
+ * @param changes Budget fields to update before rebuilding
+ * @param check Check of the changed budget against its category budgets, throws to reject the changes
+ * @returns Rebuilt budget with its previous remaining balance and the number of corrected transactions
+ */
+export const rebuildMonthlyBudgetLedger = async (
+  budgetId: string,
+  changes: Partial<Pick<MonthlyBudget, "monthlySalary" | "budgetAmount" | "isPercentage" | "dailyBudget">> = {},
+  check?: (budget: MonthlyBudget, categoryBudgets: CategoryBudget[]) => void
+): Promise<LedgerRebuild> => {
+  try {
+    const rebuild = await AppDataSource.transaction(async manager => {
+      const budgets = await lockMonthlyBudgets(manager, [budgetId]);
+      const budget = Object.assign(budgets.get(budgetId)!, changes);
+      if (check) {
+        check(budget, await manager.find(CategoryBudget, { where: { monthlyBudgetId: budgetId } }));
+      }
+      return await rebuildLedger(manager, budget);
+    });
+
+    await carryForward([rebuild]);
+    return rebuild;
+  } catch (error) {
+    logger.error(`Error rebuilding ledger for monthly budget ${budgetId}:`, error);
     throw error;
   }
 };
@@ -245,4 +531,81 @@ export const getDailyTransactionsSumByMonth = async (
   }
 };
 
+/**
+ * Total of expenses tracked in a month
+ */
+export interface SpendPerMonth {
+  year: number;
+  month: number;
+  total: number;
+}
+
+/**
+ * Get the total of expense transactions per month in a date range
+ * @param startDate Start of the range
+ * @param endDate End of the range
+ * @param managerId Only sum the transactions of this manager's clients
+ * @returns Totals per month, oldest first; months without expenses are omitted
+ */
+export const sumExpensesByMonth = async (
+  startDate: Date,
+  endDate: Date,
+  managerId?: string
+): Promise<SpendPerMonth[]> => {
+  try {
+    const query = dailyTransactionRepository
+      .createQueryBuilder("transaction")
+      .select("EXTRACT(YEAR FROM transaction.date)", "year")
+      .addSelect("EXTRACT(MONTH FROM transaction.date)", "month")
+      .addSelect("SUM(transaction.amount)", "total")
+      .where("transaction.type = 'expense'")
+      .andWhere("transaction.date BETWEEN :startDate AND :endDate", { startDate, endDate })
+      .groupBy("year")
+      .addGroupBy("month")
+      .orderBy("year", "ASC")
+      .addOrderBy("month", "ASC");
+
+    if (managerId) {
+      query
+        .innerJoin("transaction.client", "client")
+        .andWhere("client.managerId = :managerId", { managerId });
+    }
+
+    const rows = await query.getRawMany();
+    return rows.map(row => ({
+      year: parseInt(row.year, 10),
+      month: parseInt(row.month, 10),
+      total: parseFloat(row.total)
+    }));
+  } catch (error) {
+    logger.error("Error summing expenses by month:", error);
+    throw error;
+  }
+};
+
+/**
+ * Get the net spending per category of a monthly budget: expenses minus income
+ * @param monthlyBudgetId Monthly budget ID
+ * @returns Spending per category; transactions without a category are left out
+ */
+export const sumDailyTransactionsByCategory = async (
+  monthlyBudgetId: string
+): Promise<{ categoryId: string; spent: number }[]> => {
+  try {
+    const rows = await dailyTransactionRepository
+      .createQueryBuilder("transaction")
+      .select("transaction.categoryId", "categoryId")
+      .addSelect("SUM(CASE WHEN transaction.type = 'expense' THEN transaction.amount ELSE -transaction.amount END)", "spent")
+      .where("transaction.monthlyBudgetId = :monthlyBudgetId", { monthlyBudgetId })
+      .andWhere("transaction.categoryId IS NOT NULL")
+      .groupBy("transaction.categoryId")
+      .getRawMany();
+
+    return rows.map(row => ({ categoryId: row.categoryId, spent: parseFloat(row.spent) }));
+  } catch (error) {
+    logger.error(`Error summing daily transactions by category for monthly budget ${monthlyBudgetId}:`, error);
+    throw error;
+  }
+};
+
 export default dailyTransactionRepository;
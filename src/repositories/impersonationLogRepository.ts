@@ -0,0 +1,75 @@
+import { Between, FindOptionsWhere, LessThanOrEqual, MoreThanOrEqual } from "typeorm";
+import { AppDataSource } from "../config/data-source";
+import { ImpersonationEvent, ImpersonationLog } from "../entities/ImpersonationLog";
+import { LoggerService } from "../services/LoggerService";
+
+/**
+ * Repository for ImpersonationLog entity
+ */
+const impersonationLogRepository = AppDataSource.getRepository(ImpersonationLog);
+const logger = LoggerService.getInstance();
+
+/**
+ * Create a new impersonation log entry
+ * @param logData Log data
+ * @returns Created log entry
+ */
+export const createImpersonationLog = async (logData: Partial<ImpersonationLog>): Promise<ImpersonationLog> => {
+  try {
+    const log = impersonationLogRepository.create(logData);
+    return await impersonationLogRepository.save(log);
+  } catch (error) {
+    logger.error("Error creating impersonation log:", error);
+    throw error;
+  }
+};
+
+/**
+ * Find impersonation log entries with filters and pagination, newest first
+ * @param filters Optional filters (impersonator, target, event, date range)
+ * @param page Page number
+ * @param limit Items per page
+ * @returns Log entries and total count
+ */
+export const findImpersonationLogsPaginated = async (
+  filters: {
+    impersonatorAuthId?: string;
+    targetAuthId?: string;
+    event?: ImpersonationEvent;
+    startDate?: Date;
+    endDate?: Date;
+  },
+  page: number = 1,
+  limit: number = 20
+): Promise<{ logs: ImpersonationLog[], total: number }> => {
+  try {
+    const whereConditions: FindOptionsWhere<ImpersonationLog> = {};
+
+    if (filters.impersonatorAuthId) whereConditions.impersonatorAuthId = filters.impersonatorAuthId;
+    if (filters.targetAuthId) whereConditions.targetAuthId = filters.targetAuthId;
+    if (filters.event) whereConditions.event = filters.event;
+
+    // Add date range filter if provided
+    if (filters.startDate && filters.endDate) {
+      whereConditions.createdAt = Between(filters.startDate, filters.endDate);
+    } else if (filters.startDate) {
+      whereConditions.createdAt = MoreThanOrEqual(filters.startDate);
+    } else if (filters.endDate) {
+      whereConditions.createdAt = LessThanOrEqual(filters.endDate);
+    }
+
+    const [logs, total] = await impersonationLogRepository.findAndCount({
+      where: whereConditions,
+      order: { createdAt: "DESC" },
+      skip: (page - 1) * limit,
+      take: limit
+    });
+
+    return { logs, total };
+  } catch (error) {
+    logger.error("Error finding paginated impersonation logs:", error);
+    throw error;
+  }
+};
+
+export default impersonationLogRepository;
@@ -6,6 +6,18 @@ import roleRepository, * as roleRepo from './roleRepository';
 import authRepository, * as authRepo from './authRepository';
 import monthlyBudgetRepository, * as monthlyBudgetRepo from './monthlyBudgetRepository';
 import dailyTransactionRepository, * as dailyTransactionRepo from './dailyTransactionRepository';
+import refreshTokenRepository, * as refreshTokenRepo from './refreshTokenRepository';
+import revokedTokenRepository, * as revokedTokenRepo from './revokedTokenRepository';
+import loginAttemptRepository, * as loginAttemptRepo from './loginAttemptRepository';
+import clientInvitationRepository, * as clientInvitationRepo from './clientInvitationRepository';
+import permissionRepository, * as permissionRepo from './permissionRepository';
+import apiKeyRepository, * as apiKeyRepo from './apiKeyRepository';
+import sessionRepository, * as sessionRepo from './sessionRepository';
+import impersonationLogRepository, * as impersonationLogRepo from './impersonationLogRepository';
+import passwordHistoryRepository, * as passwordHistoryRepo from './passwordHistoryRepository';
+import securityEventRepository, * as securityEventRepo from './securityEventRepository';
+import activityRepository, * as activityRepo from './activityRepository';
+import categoryBudgetRepository, * as categoryBudgetRepo from './categoryBudgetRepository';
 
 // Export repositories
 export {
@@ -16,17 +28,30 @@ export {
   roleRepository,
   authRepository,
   monthlyBudgetRepository,
-  dailyTransactionRepository
+  dailyTransactionRepository,
+  refreshTokenRepository,
+  revokedTokenRepository,
+  loginAttemptRepository,
+  clientInvitationRepository,
+  permissionRepository,
+  apiKeyRepository,
+  sessionRepository,
+  impersonationLogRepository,
+  passwordHistoryRepository,
+  securityEventRepository,
+  activityRepository,
+  categoryBudgetRepository
 };
 
 // Export user repository functions
 export const {
   findAllUsers,
   findUserById,
-  findUserByIdWithPassword,
   findUserByEmail,
   createUser,
+  createUserWithAuth,
   updateUser,
+  updateUserWithAuth,
   deleteUser
 } = userRepo;
 
@@ -60,7 +85,11 @@ export const {
   findClientByCpf,
   createClient,
   updateClient,
-  deleteClient
+  updateClientWithAuth,
+  deleteClient,
+  countClientsByStatus,
+  countNewClientsByPeriod,
+  countClientsByManager
 } = clientRepo;
 
 // Export role repository functions
@@ -78,12 +107,19 @@ export const {
   findAllAuth,
   findAuthById,
   findAuthByEmail,
+  findAuthByPasswordResetToken,
+  findAuthByEmailVerificationToken,
+  findAuthWithTwoFactorSecrets,
   findAuthByUserId,
   findAuthByClientId,
   createAuth,
   updateAuth,
   deleteAuth,
-  updateLastLogin
+  updateLastLogin,
+  incrementTokenVersion,
+  incrementFailedLoginAttempts,
+  lockAuthUntil,
+  resetFailedLoginAttempts
 } = authRepo;
 
 // Export monthly budget repository functions
@@ -91,9 +127,12 @@ export const {
   findMonthlyBudgetsByClient,
   findMonthlyBudgetById,
   findMonthlyBudgetByYearAndMonth,
+  findLatestMonthlyBudgetBefore,
   createMonthlyBudget,
   updateMonthlyBudget,
-  deleteMonthlyBudget
+  deleteMonthlyBudget,
+  countMonthlyBudgetsCreatedBetween,
+  findAllMonthlyBudgetIds
 } = monthlyBudgetRepo;
 
 // Export daily transaction repository functions
@@ -104,9 +143,108 @@ export const {
   findDailyTransactionsByMonthlyBudget,
   findDailyTransactionById,
   createDailyTransaction,
-  updateDailyTransaction,
   deleteDailyTransaction,
+  createDailyTransactionWithBalance,
+  updateDailyTransactionWithBalance,
+  deleteDailyTransactionWithBalance,
+  rebuildMonthlyBudgetLedger,
+  deriveCarriedOver,
+  sumDailyTransactionsByCategory,
   getDailyTransactionsSumByDate,
   getDailyTransactionsSumByMonth,
-  findAllDailyTransaction
+  sumExpensesByMonth
 } = dailyTransactionRepo;
+
+// Export refresh token repository functions
+export const {
+  findRefreshTokenByHash,
+  createRefreshToken,
+  markRefreshTokenRotated,
+  revokeRefreshTokenFamily,
+  revokeRefreshTokensByAuth
+} = refreshTokenRepo;
+
+// Export revoked token repository functions
+export const {
+  isTokenRevoked,
+  revokeToken,
+  deleteExpiredRevokedTokens
+} = revokedTokenRepo;
+
+// Export login attempt repository functions
+export const {
+  createLoginAttempt,
+  countLoginAttemptsByIp,
+  findLatestLoginAttemptByIp,
+  findLoginAttemptsPaginated
+} = loginAttemptRepo;
+
+// Export client invitation repository functions
+export const {
+  findClientInvitationByHash,
+  createClientInvitation,
+  markClientInvitationAccepted,
+  revokeOpenClientInvitations
+} = clientInvitationRepo;
+
+// Export permission repository functions
+export const {
+  findAllPermissions,
+  findPermissionsByNames
+} = permissionRepo;
+
+// Export API key repository functions
+export const {
+  findApiKeyByPrefix,
+  findApiKeysByAuthId,
+  createApiKeyWithinLimit,
+  revokeApiKey,
+  updateApiKeyLastUsed
+} = apiKeyRepo;
+
+// Export session repository functions
+export const {
+  findSessionById,
+  findActiveSessionsByAuthId,
+  createSession,
+  updateSessionActivity,
+  revokeSession,
+  revokeSessionsByAuthId
+} = sessionRepo;
+
+// Export impersonation log repository functions
+export const {
+  createImpersonationLog,
+  findImpersonationLogsPaginated
+} = impersonationLogRepo;
+
+// Export password history repository functions
+export const {
+  findRecentPasswordHashes,
+  createPasswordHistory,
+  prunePasswordHistory
+} = passwordHistoryRepo;
+
+// Export security event repository functions
+export const {
+  createSecurityEvent,
+  findSecurityEventsPaginated,
+  countLoginsSince,
+  findLastLoginDate
+} = securityEventRepo;
+
+// Export activity repository functions
+export const {
+  findActivityFeed
+} = activityRepo;
+
+// Export category budget repository functions
+export const {
+  findCategoryBudgetsByMonthlyBudget,
+  findCategoryBudgetById,
+  findCategoryBudgetByCategory,
+  createCategoryBudget,
+  updateCategoryBudget,
+  saveCategoryBudgetWithinBudget,
+  deleteCategoryBudget
+} = categoryBudgetRepo;
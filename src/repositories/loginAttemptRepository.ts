@@ -0,0 +1,120 @@
+import { Between, FindOptionsWhere, MoreThanOrEqual, LessThanOrEqual } from "typeorm";
+import { AppDataSource } from "../config/data-source";
+import { LoginAttempt, LoginAttemptEvent } from "../entities/LoginAttempt";
+import { LoggerService } from "../services/LoggerService";
+
+/**
+ * Repository for LoginAttempt entity
+ */
+const loginAttemptRepository = AppDataSource.getRepository(LoginAttempt);
+const logger = LoggerService.getInstance();
+
+/**
+ * Record a login attempt event
+ * @param attemptData Login attempt data
+ * @returns Created login attempt
+ */
+export const createLoginAttempt = async (attemptData: Partial<LoginAttempt>): Promise<LoginAttempt> => {
+  try {
+    const attempt = loginAttemptRepository.create(attemptData);
+    return await loginAttemptRepository.save(attempt);
+  } catch (error) {
+    logger.error("Error creating login attempt:", error);
+    throw error;
+  }
+};
+
+/**
+ * Count login attempt events from an IP address since a given date
+ * @param ipAddress IP address
+ * @param event Event type
+ * @param since Start of the window
+ * @returns Number of matching attempts
+ */
+export const countLoginAttemptsByIp = async (
+  ipAddress: string,
+  event: LoginAttemptEvent,
+  since: Date
+): Promise<number> => {
+  try {
+    return await loginAttemptRepository.count({
+      where: { ipAddress, event, createdAt: MoreThanOrEqual(since) }
+    });
+  } catch (error) {
+    logger.error(`Error counting login attempts for IP ${ipAddress}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Find the most recent login attempt event from an IP address
+ * @param ipAddress IP address
+ * @param event Event type
+ * @returns Login attempt or null if not found
+ */
+export const findLatestLoginAttemptByIp = async (
+  ipAddress: string,
+  event: LoginAttemptEvent
+): Promise<LoginAttempt | null> => {
+  try {
+    return await loginAttemptRepository.findOne({
+      where: { ipAddress, event },
+      order: { createdAt: "DESC" }
+    });
+  } catch (error) {
+    logger.error(`Error finding latest login attempt for IP ${ipAddress}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Find login attempts with pagination and filtering
+ * @param filters Optional filters (authId, email, ipAddress, event, startDate, endDate)
+ * @param page Page number (1-based)
+ * @param limit Number of items per page
+ * @returns Object with attempts array and total count
+ */
+export const findLoginAttemptsPaginated = async (
+  filters: {
+    authId?: string;
+    email?: string;
+    ipAddress?: string;
+    event?: LoginAttemptEvent;
+    startDate?: Date;
+    endDate?: Date;
+  },
+  page: number = 1,
+  limit: number = 20
+): Promise<{ attempts: LoginAttempt[], total: number }> => {
+  try {
+    const whereConditions: FindOptionsWhere<LoginAttempt> = {};
+
+    if (filters.authId) whereConditions.authId = filters.authId;
+    if (filters.email) whereConditions.email = filters.email;
+    if (filters.ipAddress) whereConditions.ipAddress = filters.ipAddress;
+    if (filters.event) whereConditions.event = filters.event;
+
+    // Add date range filter if provided
+    if (filters.startDate && filters.endDate) {
+      whereConditions.createdAt = Between(filters.startDate, filters.endDate);
+    } else if (filters.startDate) {
+      whereConditions.createdAt = MoreThanOrEqual(filters.startDate);
+    } else if (filters.endDate) {
+      whereConditions.createdAt = LessThanOrEqual(filters.endDate);
+    }
+
+    const [attempts, total] = await loginAttemptRepository.findAndCount({
+      where: whereConditions,
+      order: { createdAt: "DESC" },
+      skip: (page - 1) * limit,
+      take: limit
+    });
+
+    return { attempts, total };
+  } catch (error) {
+    logger.error("Error finding paginated login attempts:", error);
+    throw error;
+  }
+};
+
+export default loginAttemptRepository;
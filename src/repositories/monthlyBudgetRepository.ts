@@ -1,4 +1,4 @@
-import { Between } from "typeorm";
+import { Between, EntityManager } from "typeorm";
 import { AppDataSource } from "../config/data-source";
 import { MonthlyBudget } from "../entities/MonthlyBudget";
 import { LoggerService } from "../services/LoggerService";
@@ -65,6 +65,34 @@ export const findMonthlyBudgetByYearAndMonth = async (
   }
 };
 
+/**
+ * Find the latest monthly budget of a client before a given month, which need not be the month right before it
+ * @param clientId Client ID
+ * @param year Year
+ * @param month Month
+ * @param manager Entity manager of the database transaction to read in, if any
+ * @returns Monthly budget or null if the client has no earlier budget
+ */
+export const findLatestMonthlyBudgetBefore = async (
+  clientId: string,
+  year: number,
+  month: number,
+  manager: EntityManager = AppDataSource.manager
+): Promise<MonthlyBudget | null> => {
+  try {
+    return await manager
+      .createQueryBuilder(MonthlyBudget, "budget")
+      .where("budget.clientId = :clientId", { clientId })
+      .andWhere("(budget.year < :year OR (budget.year = :year AND budget.month < :month))", { year, month })
+      .orderBy("budget.year", "DESC")
+      .addOrderBy("budget.month", "DESC")
+      .getOne();
+  } catch (error) {
+    logger.error(`Error finding monthly budget before ${month}/${year} for client ${clientId}:`, error);
+    throw error;
+  }
+};
+
 /**
  * Create a new monthly budget
  * @param budgetData Monthly budget data
@@ -108,4 +136,51 @@ export const deleteMonthlyBudget = async (budget: MonthlyBudget): Promise<Monthl
   }
 };
 
+/**
+ * Count the monthly budgets created in a date range
+ * @param startDate Start of the range
+ * @param endDate End of the range
+ * @param managerId Only count the budgets of this manager's clients
+ * @returns Number of budgets
+ */
+export const countMonthlyBudgetsCreatedBetween = async (
+  startDate: Date,
+  endDate: Date,
+  managerId?: string
+): Promise<number> => {
+  try {
+    const query = monthlyBudgetRepository
+      .createQueryBuilder("budget")
+      .where("budget.createdAt BETWEEN :startDate AND :endDate", { startDate, endDate });
+
+    if (managerId) {
+      query
+        .innerJoin("budget.client", "client")
+        .andWhere("client.managerId = :managerId", { managerId });
+    }
+
+    return await query.getCount();
+  } catch (error) {
+    logger.error("Error counting monthly budgets created between dates:", error);
+    throw error;
+  }
+};
+
+/**
+ * Find the IDs of all monthly budgets, oldest month first
+ * @returns Array of monthly budget IDs
+ */
+export const findAllMonthlyBudgetIds = async (): Promise<string[]> => {
+  try {
+    const budgets = await monthlyBudgetRepository.find({
+      select: { id: true },
+      order: { year: "ASC", month: "ASC" }
+    });
+    return budgets.map(budget => budget.id);
+  } catch (error) {
+    logger.error("Error finding monthly budget IDs:", error);
+    throw error;
+  }
+};
+
 export default monthlyBudgetRepository;
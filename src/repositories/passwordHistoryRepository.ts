@@ -0,0 +1,79 @@
+import { AppDataSource } from "../config/data-source";
+import { PasswordHistory } from "../entities/PasswordHistory";
+import { LoggerService } from "../services/LoggerService";
+
+/**
+ * Repository for PasswordHistory entity
+ */
+const passwordHistoryRepository = AppDataSource.getRepository(PasswordHistory);
+const logger = LoggerService.getInstance();
+
+/**
+ * Find the most recent password hashes of an account
+ * @param authId Auth ID
+ * @param limit Maximum number of hashes
+ * @returns Password hashes, newest first
+ */
+export const findRecentPasswordHashes = async (authId: string, limit: number): Promise<string[]> => {
+  try {
+    const entries = await passwordHistoryRepository
+      .createQueryBuilder("history")
+      .addSelect("history.passwordHash")
+      .where("history.authId = :authId", { authId })
+      .orderBy("history.createdAt", "DESC")
+      .take(limit)
+      .getMany();
+    return entries.map(entry => entry.passwordHash);
+  } catch (error) {
+    logger.error(`Error finding password history for auth ${authId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Add a password hash to the history of an account
+ * @param authId Auth ID
+ * @param passwordHash Hashed password
+ * @returns Created history entry
+ */
+export const createPasswordHistory = async (authId: string, passwordHash: string): Promise<PasswordHistory> => {
+  try {
+    const entry = passwordHistoryRepository.create({ authId, passwordHash });
+    return await passwordHistoryRepository.save(entry);
+  } catch (error) {
+    logger.error(`Error creating password history for auth ${authId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Delete all but the most recent password hashes of an account
+ * @param authId Auth ID
+ * @param keep Number of hashes to keep
+ */
+export const prunePasswordHistory = async (authId: string, keep: number): Promise<void> => {
+  try {
+    const kept = await passwordHistoryRepository.find({
+      select: ["id"],
+      where: { authId },
+      order: { createdAt: "DESC" },
+      take: keep
+    });
+
+    const query = passwordHistoryRepository
+      .createQueryBuilder()
+      .delete()
+      .where("authId = :authId", { authId });
+
+    if (kept.length > 0) {
+      query.andWhere("id NOT IN (:...ids)", { ids: kept.map(entry => entry.id) });
+    }
+
+    await query.execute();
+  } catch (error) {
+    logger.error(`Error pruning password history for auth ${authId}:`, error);
+    throw error;
+  }
+};
+
+export default passwordHistoryRepository;
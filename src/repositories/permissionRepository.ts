@@ -0,0 +1,46 @@
+import { In } from "typeorm";
+import { AppDataSource } from "../config/data-source";
+import { Permission, PermissionType } from "../entities/Permission";
+import { LoggerService } from "../services/LoggerService";
+
+/**
+ * Repository for Permission entity
+ */
+const permissionRepository = AppDataSource.getRepository(Permission);
+const logger = LoggerService.getInstance();
+
+/**
+ * Find all permissions
+ * @returns Array of permissions
+ */
+export const findAllPermissions = async (): Promise<Permission[]> => {
+  try {
+    return await permissionRepository.find({
+      order: { name: "ASC" }
+    });
+  } catch (error) {
+    logger.error("Error finding all permissions:", error);
+    throw error;
+  }
+};
+
+/**
+ * Find permissions by name
+ * @param names Permission names
+ * @returns Array of permissions that exist
+ */
+export const findPermissionsByNames = async (names: PermissionType[]): Promise<Permission[]> => {
+  try {
+    if (names.length === 0) {
+      return [];
+    }
+    return await permissionRepository.find({
+      where: { name: In(names) }
+    });
+  } catch (error) {
+    logger.error("Error finding permissions by name:", error);
+    throw error;
+  }
+};
+
+export default permissionRepository;
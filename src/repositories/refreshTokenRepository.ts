@@ -0,0 +1,101 @@
+import { IsNull } from "typeorm";
+import { AppDataSource } from "../config/data-source";
+import { RefreshToken } from "../entities/RefreshToken";
+import { LoggerService } from "../services/LoggerService";
+
+/**
+ * Repository for RefreshToken entity
+ */
+const refreshTokenRepository = AppDataSource.getRepository(RefreshToken);
+const logger = LoggerService.getInstance();
+
+/**
+ * Find a refresh token by its hash
+ * @param tokenHash Hashed token
+ * @returns Refresh token or null if not found
+ */
+export const findRefreshTokenByHash = async (tokenHash: string): Promise<RefreshToken | null> => {
+  try {
+    return await refreshTokenRepository.findOne({
+      where: { tokenHash },
+      relations: ["auth", "auth.user", "auth.client"]
+    });
+  } catch (error) {
+    logger.error("Error finding refresh token by hash:", error);
+    throw error;
+  }
+};
+
+/**
+ * Create a new refresh token
+ * @param tokenData Refresh token data
+ * @returns Created refresh token
+ */
+export const createRefreshToken = async (tokenData: Partial<RefreshToken>): Promise<RefreshToken> => {
+  try {
+    const token = refreshTokenRepository.create(tokenData);
+    return await refreshTokenRepository.save(token);
+  } catch (error) {
+    logger.error("Error creating refresh token:", error);
+    throw error;
+  }
+};
+
+/**
+ * Mark a refresh token as rotated.
+ * Only succeeds if the token has not been revoked yet, so two concurrent
+ * refreshes with the same token cannot both win.
+ * @param id Refresh token ID
+ * @param replacedById ID of the token that replaces it
+ * @returns True if the token was rotated
+ */
+export const markRefreshTokenRotated = async (id: string, replacedById: string): Promise<boolean> => {
+  try {
+    const result = await refreshTokenRepository.update(
+      { id, revokedAt: IsNull() },
+      { revokedAt: new Date(), replacedById }
+    );
+    return (result.affected ?? 0) > 0;
+  } catch (error) {
+    logger.error(`Error rotating refresh token with ID ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Revoke every active refresh token in a family
+ * @param familyId Token family ID
+ * @returns Number of revoked tokens
+ */
+export const revokeRefreshTokenFamily = async (familyId: string): Promise<number> => {
+  try {
+    const result = await refreshTokenRepository.update(
+      { familyId, revokedAt: IsNull() },
+      { revokedAt: new Date() }
+    );
+    return result.affected ?? 0;
+  } catch (error) {
+    logger.error(`Error revoking refresh token family ${familyId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Revoke every active refresh token of an auth record
+ * @param authId Auth ID
+ * @returns Number of revoked tokens
+ */
+export const revokeRefreshTokensByAuth = async (authId: string): Promise<number> => {
+  try {
+    const result = await refreshTokenRepository.update(
+      { authId, revokedAt: IsNull() },
+      { revokedAt: new Date() }
+    );
+    return result.affected ?? 0;
+  } catch (error) {
+    logger.error(`Error revoking refresh tokens for auth ${authId}:`, error);
+    throw error;
+  }
+};
+
+export default refreshTokenRepository;
@@ -0,0 +1,55 @@
+import { LessThan } from "typeorm";
+import { AppDataSource } from "../config/data-source";
+import { RevokedToken } from "../entities/RevokedToken";
+import { LoggerService } from "../services/LoggerService";
+
+/**
+ * Repository for RevokedToken entity
+ */
+const revokedTokenRepository = AppDataSource.getRepository(RevokedToken);
+const logger = LoggerService.getInstance();
+
+/**
+ * Check whether an access token has been revoked
+ * @param jti JWT ID
+ * @returns True if the token is in the denylist
+ */
+export const isTokenRevoked = async (jti: string): Promise<boolean> => {
+  try {
+    return await revokedTokenRepository.exists({ where: { jti } });
+  } catch (error) {
+    logger.error(`Error checking revoked token ${jti}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Add an access token to the denylist
+ * @param tokenData Revoked token data
+ * @returns Revoked token record
+ */
+export const revokeToken = async (tokenData: Partial<RevokedToken>): Promise<RevokedToken> => {
+  try {
+    const token = revokedTokenRepository.create(tokenData);
+    return await revokedTokenRepository.save(token);
+  } catch (error) {
+    logger.error(`Error revoking token ${tokenData.jti}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Remove denylist entries for tokens that have expired anyway
+ * @returns Number of removed entries
+ */
+export const deleteExpiredRevokedTokens = async (): Promise<number> => {
+  try {
+    const result = await revokedTokenRepository.delete({ expiresAt: LessThan(new Date()) });
+    return result.affected ?? 0;
+  } catch (error) {
+    logger.error("Error deleting expired revoked tokens:", error);
+    throw error;
+  }
+};
+
+export default revokedTokenRepository;
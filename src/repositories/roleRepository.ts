@@ -1,5 +1,5 @@
 import { AppDataSource } from "../config/data-source";
-import { Role, RoleType } from "../entities/Role";
+import { Role } from "../entities/Role";
 import { LoggerService } from "../services/LoggerService";
 
 /**
@@ -10,11 +10,12 @@ const logger = LoggerService.getInstance();
 
 /**
  * Find all roles
- * @returns Array of roles
+ * @returns Array of roles with their permissions
  */
 export const findAllRoles = async (): Promise<Role[]> => {
   try {
     return await roleRepository.find({
+      relations: ["permissions"],
       order: { name: "ASC" }
     });
   } catch (error) {
@@ -31,7 +32,8 @@ export const findAllRoles = async (): Promise<Role[]> => {
 export const findRoleById = async (id: string): Promise<Role | null> => {
   try {
     return await roleRepository.findOne({
-      where: { id }
+      where: { id },
+      relations: ["permissions"]
     });
   } catch (error) {
     logger.error(`Error finding role with ID ${id}:`, error);
@@ -44,10 +46,11 @@ export const findRoleById = async (id: string): Promise<Role | null> => {
  * @param name Role name
  * @returns Role or null if not found
  */
-export const findRoleByName = async (name: RoleType): Promise<Role | null> => {
+export const findRoleByName = async (name: string): Promise<Role | null> => {
   try {
     return await roleRepository.findOne({
-      where: { name }
+      where: { name },
+      relations: ["permissions"]
     });
   } catch (error) {
     logger.error(`Error finding role with name ${name}:`, error);
@@ -0,0 +1,131 @@
+import { Between, FindOptionsWhere, MoreThanOrEqual, LessThanOrEqual } from "typeorm";
+import { AppDataSource } from "../config/data-source";
+import { SecurityEvent, SecurityEventType } from "../entities/SecurityEvent";
+import { LoggerService } from "../services/LoggerService";
+
+/**
+ * Repository for SecurityEvent entity
+ */
+const securityEventRepository = AppDataSource.getRepository(SecurityEvent);
+const logger = LoggerService.getInstance();
+
+/**
+ * Record a security event
+ * @param eventData Security event data
+ * @returns Created security event
+ */
+export const createSecurityEvent = async (eventData: Partial<SecurityEvent>): Promise<SecurityEvent> => {
+  try {
+    const event = securityEventRepository.create(eventData);
+    return await securityEventRepository.save(event);
+  } catch (error) {
+    logger.error("Error creating security event:", error);
+    throw error;
+  }
+};
+
+/**
+ * Find security events with pagination and filtering
+ * @param filters Optional filters (authId, email, ipAddress, type, startDate, endDate)
+ * @param page Page number (1-based)
+ * @param limit Number of items per page
+ * @returns Object with events array and total count
+ */
+export const findSecurityEventsPaginated = async (
+  filters: {
+    authId?: string;
+    email?: string;
+    ipAddress?: string;
+    type?: SecurityEventType;
+    startDate?: Date;
+    endDate?: Date;
+  },
+  page: number = 1,
+  limit: number = 20
+): Promise<{ events: SecurityEvent[], total: number }> => {
+  try {
+    const whereConditions: FindOptionsWhere<SecurityEvent> = {};
+
+    if (filters.authId) whereConditions.authId = filters.authId;
+    if (filters.email) whereConditions.email = filters.email;
+    if (filters.ipAddress) whereConditions.ipAddress = filters.ipAddress;
+    if (filters.type) whereConditions.type = filters.type;
+
+    // Add date range filter if provided
+    if (filters.startDate && filters.endDate) {
+      whereConditions.createdAt = Between(filters.startDate, filters.endDate);
+    } else if (filters.startDate) {
+      whereConditions.createdAt = MoreThanOrEqual(filters.startDate);
+    } else if (filters.endDate) {
+      whereConditions.createdAt = LessThanOrEqual(filters.endDate);
+    }
+
+    const [events, total] = await securityEventRepository.findAndCount({
+      where: whereConditions,
+      order: { createdAt: "DESC" },
+      skip: (page - 1) * limit,
+      take: limit
+    });
+
+    return { events, total };
+  } catch (error) {
+    logger.error("Error finding paginated security events:", error);
+    throw error;
+  }
+};
+
+/**
+ * Count the successful logins since a date
+ * @param since Start of the window
+ * @param managerId Only count the logins of this manager's clients
+ * @returns Number of logins
+ */
+export const countLoginsSince = async (since: Date, managerId?: string): Promise<number> => {
+  try {
+    const query = securityEventRepository
+      .createQueryBuilder("event")
+      .where("event.type = :type", { type: SecurityEventType.LOGIN_SUCCESS })
+      .andWhere("event.createdAt >= :since", { since });
+
+    if (managerId) {
+      query
+        .innerJoin("event.auth", "auth")
+        .innerJoin("auth.client", "client")
+        .andWhere("client.managerId = :managerId", { managerId });
+    }
+
+    return await query.getCount();
+  } catch (error) {
+    logger.error("Error counting logins:", error);
+    throw error;
+  }
+};
+
+/**
+ * Find the date of the latest successful login
+ * @param managerId Only look at the logins of this manager's clients
+ * @returns Date of the latest login, or null when nobody logged in yet
+ */
+export const findLastLoginDate = async (managerId?: string): Promise<Date | null> => {
+  try {
+    const query = securityEventRepository
+      .createQueryBuilder("event")
+      .select("MAX(event.createdAt)", "lastLogin")
+      .where("event.type = :type", { type: SecurityEventType.LOGIN_SUCCESS });
+
+    if (managerId) {
+      query
+        .innerJoin("event.auth", "auth")
+        .innerJoin("auth.client", "client")
+        .andWhere("client.managerId = :managerId", { managerId });
+    }
+
+    const result = await query.getRawOne();
+    return result?.lastLogin ? new Date(result.lastLogin) : null;
+  } catch (error) {
+    logger.error("Error finding last login date:", error);
+    throw error;
+  }
+};
+
+export default securityEventRepository;
@@ -0,0 +1,111 @@
+import { IsNull, MoreThan } from "typeorm";
+import { AppDataSource } from "../config/data-source";
+import { Session } from "../entities/Session";
+import { LoggerService } from "../services/LoggerService";
+
+/**
+ * Repository for Session entity
+ */
+const sessionRepository = AppDataSource.getRepository(Session);
+const logger = LoggerService.getInstance();
+
+/**
+ * Find a session by ID
+ * @param id Session ID
+ * @returns Session or null if not found
+ */
+export const findSessionById = async (id: string): Promise<Session | null> => {
+  try {
+    return await sessionRepository.findOne({ where: { id } });
+  } catch (error) {
+    logger.error(`Error finding session with ID ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Find the sessions of an account that are neither revoked nor expired, most recently used first
+ * @param authId Auth ID
+ * @returns Array of sessions
+ */
+export const findActiveSessionsByAuthId = async (authId: string): Promise<Session[]> => {
+  try {
+    return await sessionRepository.find({
+      where: { authId, revokedAt: IsNull(), expiresAt: MoreThan(new Date()) },
+      order: { lastSeenAt: "DESC" }
+    });
+  } catch (error) {
+    logger.error(`Error finding sessions for auth ${authId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Create a new session
+ * @param sessionData Session data
+ * @returns Created session
+ */
+export const createSession = async (sessionData: Partial<Session>): Promise<Session> => {
+  try {
+    const session = sessionRepository.create(sessionData);
+    return await sessionRepository.save(session);
+  } catch (error) {
+    logger.error("Error creating session:", error);
+    throw error;
+  }
+};
+
+/**
+ * Update the activity of a session
+ * @param id Session ID
+ * @param sessionData Fields to update (last seen time, expiry, IP address)
+ */
+export const updateSessionActivity = async (
+  id: string,
+  sessionData: Partial<Pick<Session, "lastSeenAt" | "expiresAt" | "ipAddress">>
+): Promise<void> => {
+  try {
+    await sessionRepository.update({ id }, sessionData);
+  } catch (error) {
+    logger.error(`Error updating session with ID ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Revoke a session
+ * @param id Session ID
+ * @returns True if the session was revoked
+ */
+export const revokeSession = async (id: string): Promise<boolean> => {
+  try {
+    const result = await sessionRepository.update(
+      { id, revokedAt: IsNull() },
+      { revokedAt: new Date() }
+    );
+    return (result.affected ?? 0) > 0;
+  } catch (error) {
+    logger.error(`Error revoking session with ID ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Revoke every session of an account
+ * @param authId Auth ID
+ * @returns Number of revoked sessions
+ */
+export const revokeSessionsByAuthId = async (authId: string): Promise<number> => {
+  try {
+    const result = await sessionRepository.update(
+      { authId, revokedAt: IsNull() },
+      { revokedAt: new Date() }
+    );
+    return result.affected ?? 0;
+  } catch (error) {
+    logger.error(`Error revoking sessions for auth ${authId}:`, error);
+    throw error;
+  }
+};
+
+export default sessionRepository;
@@ -67,7 +67,7 @@ export const findTransactionById = async (id: string, clientId: string): Promise
         id,
         client: { id: clientId }
       },
-      relations: ["category"]
+      relations: ["category", "client"]
     });
   } catch (error) {
     logger.error(`Error finding transaction with ID ${id}:`, error);
@@ -1,5 +1,6 @@
 import { AppDataSource } from "../config/data-source";
 import { User } from "../entities/User";
+import { Auth } from "../entities/Auth";
 import { LoggerService } from "../services/LoggerService";
 
 /**
@@ -10,9 +11,9 @@ const logger = LoggerService.getInstance();
 
 /**
  * Find all users
- * @returns Array of users without passwords
+ * @returns Array of users
  */
-export const findAllUsers = async (): Promise<Omit<User, "password">[]> => {
+export const findAllUsers = async (): Promise<User[]> => {
   try {
     const users = await userRepository.find({
       select: ["id", "name", "email", "isActive", "createdAt", "updatedAt"],
@@ -27,9 +28,9 @@ export const findAllUsers = async (): Promise<Omit<User, "password">[]> => {
 /**
  * Find a user by ID
  * @param id User ID
- * @returns User without password or null if not found
+ * @returns User or null if not found
  */
-export const findUserById = async (id: string): Promise<Omit<User, "password"> | null> => {
+export const findUserById = async (id: string): Promise<User | null> => {
   try {
     const user = await userRepository.findOne({
       where: { id },
@@ -43,43 +44,16 @@ export const findUserById = async (id: string): Promise<Omit<User, "password"> |
   }
 };
 
-/**
- * Find a user by ID with password included
- * @param id User ID
- * @returns User with password or null if not found
- */
-export const findUserByIdWithPassword = async (id: string): Promise<User | null> => {
-  try {
-    const user = await userRepository.findOne({
-      where: { id },
-      select: ["id", "name", "email", "password", "isActive", "createdAt", "updatedAt"],
-      relations: ['role'],
-    });
-    return user;
-  } catch (error) {
-    logger.error(`Error finding user with ID ${id} (with password):`, error);
-    throw error;
-  }
-};
-
 /**
  * Find a user by email
  * @param email User email
- * @param includePassword Whether to include password in the result
  * @returns User or null if not found
  */
-export const findUserByEmail = async (
-  email: string, 
-  includePassword: boolean = false
-): Promise<User | null> => {
+export const findUserByEmail = async (email: string): Promise<User | null> => {
   try {
-    const select = includePassword 
-      ? ["id", "name", "email", "password", "isActive", "createdAt", "updatedAt"]
-      : ["id", "name", "email", "isActive", "createdAt", "updatedAt"];
-    
     return await userRepository.findOne({
       where: { email },
-      select: select as (keyof User)[]
+      select: ["id", "name", "email", "isActive", "createdAt", "updatedAt"]
     });
   } catch (error) {
     logger.error(`Error finding user with email ${email}:`, error);
@@ -102,6 +76,49 @@ export const createUser = async (userData: Partial<User>): Promise<User> => {
   }
 };
 
+/**
+ * Create a user and its auth record in one transaction
+ * @param userData User data
+ * @param authData Auth data, linked to the created user
+ * @returns Created user and auth record
+ */
+export const createUserWithAuth = async (
+  userData: Partial<User>,
+  authData: Partial<Auth>
+): Promise<{ user: User, auth: Auth }> => {
+  try {
+    return await AppDataSource.transaction(async manager => {
+      const user = await manager.save(manager.create(User, userData));
+      const auth = await manager.save(manager.create(Auth, { ...authData, userId: user.id }));
+      return { user, auth };
+    });
+  } catch (error) {
+    logger.error("Error creating user with auth:", error);
+    throw error;
+  }
+};
+
+/**
+ * Update a user and its auth record in one transaction, so the login email cannot go stale
+ * @param user User to update
+ * @param auth Auth record of the user, or null if the user has no login
+ * @returns Updated user
+ */
+export const updateUserWithAuth = async (user: User, auth: Auth | null): Promise<User> => {
+  try {
+    return await AppDataSource.transaction(async manager => {
+      const savedUser = await manager.save(User, user);
+      if (auth) {
+        await manager.save(Auth, auth);
+      }
+      return savedUser;
+    });
+  } catch (error) {
+    logger.error(`Error updating user with auth for ID ${user.id}:`, error);
+    throw error;
+  }
+};
+
 /**
  * Update a user
  * @param user User to update
@@ -1,19 +1,88 @@
 import { Router } from "express";
 import { AuthController } from "../controllers/AuthController";
-import { authMiddleware, roleMiddleware } from "../middlewares";
-import { RoleType } from "../entities/Role";
+import { ApiKeyController } from "../controllers/ApiKeyController";
+import { SessionController } from "../controllers/SessionController";
+import { authMiddleware, mfaEnrollmentMiddleware, requirePermission, requireSession } from "../middlewares";
+import { PermissionType } from "../entities/Permission";
 
 const router = Router();
 const authController = new AuthController();
+const apiKeyController = new ApiKeyController();
+const sessionController = new SessionController();
 
 router.post("/login", authController.loginValidation, authController.login);
-router.post("/register", authController.registerUserValidation, authController.registerUser);
+router.post("/2fa/verify", authController.verifyTwoFactorValidation, authController.verifyTwoFactor);
+router.post("/refresh", authController.refreshValidation, authController.refresh);
+router.post("/register", [
+    authMiddleware,
+    requirePermission(PermissionType.USERS_ADMIN),
+    ...authController.registerUserValidation
+], authController.registerUser);
 router.get("/profile", authMiddleware, authController.getProfile);
-router.post("/change-password", [authMiddleware, ...authController.changePasswordValidation], authController.changePassword);
+router.post("/logout", authMiddleware, authController.logout);
+router.post("/logout-all", [authMiddleware, requireSession], authController.logoutAll);
+router.post("/change-password", [authMiddleware, requireSession, ...authController.changePasswordValidation], authController.changePassword);
 router.post("/reset-password", [
     authMiddleware, 
-    roleMiddleware([RoleType.ADMIN]), 
+    requirePermission(PermissionType.AUTH_ADMIN), 
     ...authController.resetPasswordValidation
 ], authController.resetPassword);
+router.post("/unlock/:authId", [
+    authMiddleware,
+    requirePermission(PermissionType.AUTH_ADMIN),
+    ...authController.authIdValidation
+], authController.unlockAccount);
+router.get("/login-attempts", [
+    authMiddleware,
+    requirePermission(PermissionType.AUTH_ADMIN),
+    ...authController.loginAttemptsValidation
+], authController.getLoginAttempts);
+router.post("/2fa/setup", [mfaEnrollmentMiddleware, requireSession], authController.setupTwoFactor);
+router.post("/2fa/enable", [mfaEnrollmentMiddleware, requireSession, ...authController.twoFactorCodeValidation], authController.enableTwoFactor);
+router.post("/2fa/disable", [authMiddleware, requireSession, ...authController.disableTwoFactorValidation], authController.disableTwoFactor);
+router.post("/2fa/recovery-codes", [authMiddleware, requireSession, ...authController.twoFactorCodeValidation], authController.regenerateRecoveryCodes);
+router.put("/2fa/required/:authId", [
+    authMiddleware,
+    requirePermission(PermissionType.AUTH_ADMIN),
+    ...authController.twoFactorRequiredValidation
+], authController.setTwoFactorRequired);
+router.post("/forgot-password", authController.forgotPasswordValidation, authController.forgotPassword);
+router.post("/reset-password/confirm", authController.confirmPasswordResetValidation, authController.confirmPasswordReset);
+router.post("/verify-email", authController.verifyEmailValidation, authController.verifyEmail);
+router.post("/verify-email/resend", authController.resendEmailVerificationValidation, authController.resendEmailVerification);
+router.post("/invitations/accept", authController.acceptInvitationValidation, authController.acceptInvitation);
+router.get("/api-keys", [authMiddleware, requireSession], apiKeyController.getAll);
+router.post("/api-keys", [authMiddleware, requireSession, ...apiKeyController.createValidation], apiKeyController.create);
+router.delete("/api-keys/:id", [authMiddleware, requireSession, ...apiKeyController.idValidation], apiKeyController.revoke);
+router.post("/impersonate/:authId", [
+    authMiddleware,
+    requireSession,
+    requirePermission(PermissionType.AUTH_ADMIN),
+    ...authController.authIdValidation
+], authController.impersonate);
+router.get("/impersonation-logs", [
+    authMiddleware,
+    requirePermission(PermissionType.AUTH_ADMIN),
+    ...authController.impersonationLogsValidation
+], authController.getImpersonationLogs);
+router.get("/security-events", [authMiddleware, ...authController.ownSecurityEventsValidation], authController.getOwnSecurityEvents);
+router.get("/accounts/security-events", [
+    authMiddleware,
+    requirePermission(PermissionType.AUTH_ADMIN),
+    ...authController.securityEventsValidation
+], authController.getSecurityEvents);
+router.get("/sessions", [authMiddleware, requireSession], sessionController.getOwn);
+router.delete("/sessions/:id", [authMiddleware, requireSession, ...sessionController.idValidation], sessionController.endOwn);
+router.get("/accounts/:authId/sessions", [
+    authMiddleware,
+    requirePermission(PermissionType.AUTH_ADMIN),
+    ...sessionController.authIdValidation
+], sessionController.getByAccount);
+router.delete("/accounts/:authId/sessions/:id", [
+    authMiddleware,
+    requirePermission(PermissionType.AUTH_ADMIN),
+    ...sessionController.authIdValidation,
+    ...sessionController.idValidation
+], sessionController.endForAccount);
 
 export default router;
@@ -1,42 +1,42 @@
 import { Router } from "express";
 import { CategoryController } from "../controllers/CategoryController";
-import {authMiddleware, roleMiddleware} from "../middlewares";
-import {RoleType} from "../entities/Role";
+import {authMiddleware, requirePermission} from "../middlewares";
+import {PermissionType} from "../entities/Permission";
 
 const router = Router({ mergeParams: true });
 const categoryController = new CategoryController();
 
-// Get all categories - accessible by both clients and admins
+// Get all categories - requires categories:read
 router.get("/", [
     authMiddleware,
-    roleMiddleware([RoleType.CLIENT, RoleType.ADMIN])], categoryController.getAll);
+    requirePermission(PermissionType.CATEGORIES_READ)], categoryController.getAll);
 
-// Get category by ID - accessible by both clients and admins
+// Get category by ID - requires categories:read
 router.get("/:id", [
     authMiddleware, 
-    roleMiddleware([RoleType.CLIENT, RoleType.ADMIN]),
+    requirePermission(PermissionType.CATEGORIES_READ),
     ...categoryController.idValidation
 ], categoryController.getById);
 
-// Create category - admin only
+// Create category - requires categories:admin
 router.post("/", [
     authMiddleware, 
-    roleMiddleware([RoleType.ADMIN]),
+    requirePermission(PermissionType.CATEGORIES_ADMIN),
     ...categoryController.categoryValidation
 ], categoryController.create);
 
-// Update category - admin only
+// Update category - requires categories:admin
 router.put("/:id", [
     authMiddleware, 
-    roleMiddleware([RoleType.ADMIN]),
+    requirePermission(PermissionType.CATEGORIES_ADMIN),
     ...categoryController.idValidation, 
     ...categoryController.categoryValidation
 ], categoryController.update);
 
-// Delete category - admin only
+// Delete category - requires categories:admin
 router.delete("/:id", [
     authMiddleware, 
-    roleMiddleware([RoleType.ADMIN]),
+    requirePermission(PermissionType.CATEGORIES_ADMIN),
     ...categoryController.idValidation
 ], categoryController.delete);
 
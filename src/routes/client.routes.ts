@@ -1,52 +1,72 @@
 import { Router } from "express";
 import { ClientController } from "../controllers/ClientController";
-import { authMiddleware, roleMiddleware } from "../middlewares";
-import { RoleType } from "../entities/Role";
+import { authMiddleware, requirePermission, requireSession } from "../middlewares";
+import { PermissionType } from "../entities/Permission";
 
 const router = Router();
 const clientController = new ClientController();
 
 router.get("/", [
     authMiddleware, 
-    roleMiddleware([RoleType.ADMIN, RoleType.MANAGER]),
+    requirePermission(PermissionType.CLIENTS_READ),
     ...clientController.listValidation
 ], clientController.getAll);
+// A client's own record holds its login email and password, so it is not reachable with an API key
 router.get("/:id", [
     authMiddleware, 
+    requireSession,
     ...clientController.idValidation
 ], clientController.getById);
 router.post("/register", [
     authMiddleware, 
-    roleMiddleware([RoleType.ADMIN, RoleType.MANAGER]), 
+    requirePermission(PermissionType.CLIENTS_WRITE), 
     ...clientController.clientValidation
 ], clientController.registerClient);
 router.post("/", [
     authMiddleware, 
-    roleMiddleware([RoleType.ADMIN, RoleType.MANAGER]), 
+    requirePermission(PermissionType.CLIENTS_WRITE), 
     ...clientController.clientValidation
 ], clientController.create);
 router.put("/:id", [
     authMiddleware, 
+    requireSession,
     ...clientController.idValidation, 
     ...clientController.clientUpdateValidation
 ], clientController.update);
 router.patch("/:id/deactivate", [
     authMiddleware, 
-    roleMiddleware([RoleType.ADMIN, RoleType.MANAGER]), 
+    requirePermission(PermissionType.CLIENTS_WRITE), 
     ...clientController.idValidation
 ], clientController.deactivate);
 router.delete("/:id", [
     authMiddleware, 
-    roleMiddleware([RoleType.ADMIN, RoleType.MANAGER]), 
+    requirePermission(PermissionType.CLIENTS_WRITE), 
     ...clientController.idValidation
 ], clientController.delete);
+router.post("/:id/invitation", [
+    authMiddleware, 
+    requirePermission(PermissionType.CLIENTS_WRITE), 
+    ...clientController.idValidation
+], clientController.invite);
+router.post("/:id/invitation/resend", [
+    authMiddleware, 
+    requirePermission(PermissionType.CLIENTS_WRITE), 
+    ...clientController.idValidation
+], clientController.resendInvitation);
+router.delete("/:id/invitation", [
+    authMiddleware, 
+    requirePermission(PermissionType.CLIENTS_WRITE), 
+    ...clientController.idValidation
+], clientController.revokeInvitation);
 router.get("/stats/dashboard", [
     authMiddleware, 
-    roleMiddleware([RoleType.ADMIN, RoleType.MANAGER])
+    requirePermission(PermissionType.STATS_READ),
+    ...clientController.dashboardStatsValidation
 ], clientController.getDashboardStats);
 router.get("/stats/recent-activities", [
     authMiddleware, 
-    roleMiddleware([RoleType.ADMIN, RoleType.MANAGER])
+    requirePermission(PermissionType.STATS_READ),
+    ...clientController.activityFeedValidation
 ], clientController.getRecentActivities);
 
 export default router;
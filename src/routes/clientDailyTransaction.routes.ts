@@ -0,0 +1,56 @@
+import { Router } from "express";
+import { DailyTransactionController } from "../controllers/DailyTransactionController";
+import { authMiddleware, requirePermission } from "../middlewares";
+import { PermissionType } from "../entities/Permission";
+
+/**
+ * Daily transactions of a client, for the managers advising them (mounted on /clients/:clientId/daily-transactions)
+ */
+const router = Router({ mergeParams: true });
+const dailyTransactionController = new DailyTransactionController();
+
+router.use(authMiddleware);
+router.get("/", [requirePermission(PermissionType.TRANSACTIONS_READ), ...dailyTransactionController.clientIdValidation], dailyTransactionController.getAll);
+router.get("/date/:date", [
+    requirePermission(PermissionType.TRANSACTIONS_READ),
+    ...dailyTransactionController.clientIdValidation,
+    ...dailyTransactionController.dateValidation
+], dailyTransactionController.getByDate);
+router.get("/year/:year/month/:month", [
+    requirePermission(PermissionType.TRANSACTIONS_READ),
+    ...dailyTransactionController.clientIdValidation,
+    ...dailyTransactionController.yearMonthValidation
+], dailyTransactionController.getByMonth);
+router.get("/sum/date/:date", [
+    requirePermission(PermissionType.TRANSACTIONS_READ),
+    ...dailyTransactionController.clientIdValidation,
+    ...dailyTransactionController.dateValidation
+], dailyTransactionController.getSumByDate);
+router.get("/sum/year/:year/month/:month", [
+    requirePermission(PermissionType.TRANSACTIONS_READ),
+    ...dailyTransactionController.clientIdValidation,
+    ...dailyTransactionController.yearMonthValidation
+], dailyTransactionController.getSumByMonth);
+router.get("/:id", [
+    requirePermission(PermissionType.TRANSACTIONS_READ),
+    ...dailyTransactionController.clientIdValidation,
+    ...dailyTransactionController.idValidation
+], dailyTransactionController.getById);
+router.post("/", [
+    requirePermission(PermissionType.TRANSACTIONS_MANAGE),
+    ...dailyTransactionController.clientIdValidation,
+    ...dailyTransactionController.transactionValidation
+], dailyTransactionController.create);
+router.put("/:id", [
+    requirePermission(PermissionType.TRANSACTIONS_MANAGE),
+    ...dailyTransactionController.clientIdValidation,
+    ...dailyTransactionController.idValidation,
+    ...dailyTransactionController.transactionValidation
+], dailyTransactionController.update);
+router.delete("/:id", [
+    requirePermission(PermissionType.TRANSACTIONS_MANAGE),
+    ...dailyTransactionController.clientIdValidation,
+    ...dailyTransactionController.idValidation
+], dailyTransactionController.delete);
+
+export default router;
@@ -0,0 +1,75 @@
+import { Router } from "express";
+import { MonthlyBudgetController } from "../controllers/MonthlyBudgetController";
+import { authMiddleware, requirePermission } from "../middlewares";
+import { PermissionType } from "../entities/Permission";
+
+/**
+ * Monthly budgets of a client, for the managers advising them (mounted on /clients/:clientId/monthly-budgets)
+ */
+const router = Router({ mergeParams: true });
+const monthlyBudgetController = new MonthlyBudgetController();
+
+router.use(authMiddleware);
+router.get("/", [requirePermission(PermissionType.BUDGETS_READ), ...monthlyBudgetController.clientIdValidation], monthlyBudgetController.getAll);
+router.get("/year/:year/month/:month", [
+    requirePermission(PermissionType.BUDGETS_READ),
+    ...monthlyBudgetController.clientIdValidation,
+    ...monthlyBudgetController.yearMonthValidation
+], monthlyBudgetController.getOrCreateByYearMonth);
+router.get("/rollover", [
+    requirePermission(PermissionType.BUDGETS_READ),
+    ...monthlyBudgetController.clientIdValidation
+], monthlyBudgetController.getRolloverSettings);
+router.patch("/rollover", [
+    requirePermission(PermissionType.BUDGETS_MANAGE),
+    ...monthlyBudgetController.clientIdValidation,
+    ...monthlyBudgetController.rolloverSettingsValidation
+], monthlyBudgetController.updateRolloverSettings);
+router.get("/:id", [
+    requirePermission(PermissionType.BUDGETS_READ),
+    ...monthlyBudgetController.clientIdValidation,
+    ...monthlyBudgetController.idValidation
+], monthlyBudgetController.getById);
+router.get("/:id/pacing", [
+    requirePermission(PermissionType.BUDGETS_READ),
+    ...monthlyBudgetController.clientIdValidation,
+    ...monthlyBudgetController.idValidation
+], monthlyBudgetController.getPacing);
+router.patch("/:id/salary", [
+    requirePermission(PermissionType.BUDGETS_MANAGE),
+    ...monthlyBudgetController.clientIdValidation,
+    ...monthlyBudgetController.idValidation,
+    ...monthlyBudgetController.monthlySalaryValidation
+], monthlyBudgetController.updateMonthlySalary);
+router.patch("/:id/budget", [
+    requirePermission(PermissionType.BUDGETS_MANAGE),
+    ...monthlyBudgetController.clientIdValidation,
+    ...monthlyBudgetController.idValidation,
+    ...monthlyBudgetController.budgetAmountValidation
+], monthlyBudgetController.updateBudgetAmount);
+router.get("/:id/categories", [
+    requirePermission(PermissionType.BUDGETS_READ),
+    ...monthlyBudgetController.clientIdValidation,
+    ...monthlyBudgetController.idValidation
+], monthlyBudgetController.getCategoryBudgets);
+router.post("/:id/categories", [
+    requirePermission(PermissionType.BUDGETS_MANAGE),
+    ...monthlyBudgetController.clientIdValidation,
+    ...monthlyBudgetController.idValidation,
+    ...monthlyBudgetController.createCategoryBudgetValidation
+], monthlyBudgetController.createCategoryBudget);
+router.patch("/:id/categories/:categoryBudgetId", [
+    requirePermission(PermissionType.BUDGETS_MANAGE),
+    ...monthlyBudgetController.clientIdValidation,
+    ...monthlyBudgetController.idValidation,
+    ...monthlyBudgetController.categoryBudgetIdValidation,
+    ...monthlyBudgetController.updateCategoryBudgetValidation
+], monthlyBudgetController.updateCategoryBudget);
+router.delete("/:id/categories/:categoryBudgetId", [
+    requirePermission(PermissionType.BUDGETS_MANAGE),
+    ...monthlyBudgetController.clientIdValidation,
+    ...monthlyBudgetController.idValidation,
+    ...monthlyBudgetController.categoryBudgetIdValidation
+], monthlyBudgetController.deleteCategoryBudget);
+
+export default router;
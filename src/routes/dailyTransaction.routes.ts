@@ -1,23 +1,25 @@
 import { Router } from "express";
 import { DailyTransactionController } from "../controllers/DailyTransactionController";
-import { authMiddleware } from "../middlewares";
+import { authMiddleware, requirePermission } from "../middlewares";
+import { PermissionType } from "../entities/Permission";
 
 const router = Router();
 const dailyTransactionController = new DailyTransactionController();
 
 router.use(authMiddleware);
-router.get("/", dailyTransactionController.getAll);
-router.get("/client/:clientId", [...dailyTransactionController.clientIdValidation], dailyTransactionController.getByClientId);
-router.get("/date/:date", [...dailyTransactionController.dateValidation], dailyTransactionController.getByDate);
-router.get("/year/:year/month/:month", [...dailyTransactionController.yearMonthValidation], dailyTransactionController.getByMonth);
-router.get("/:id", [...dailyTransactionController.idValidation], dailyTransactionController.getById);
-router.post("/", [...dailyTransactionController.transactionValidation], dailyTransactionController.create);
+router.get("/", requirePermission(PermissionType.TRANSACTIONS_READ), dailyTransactionController.getAll);
+router.get("/client/:clientId", [requirePermission(PermissionType.TRANSACTIONS_READ), ...dailyTransactionController.clientIdValidation], dailyTransactionController.getByClientId);
+router.get("/date/:date", [requirePermission(PermissionType.TRANSACTIONS_READ), ...dailyTransactionController.dateValidation], dailyTransactionController.getByDate);
+router.get("/year/:year/month/:month", [requirePermission(PermissionType.TRANSACTIONS_READ), ...dailyTransactionController.yearMonthValidation], dailyTransactionController.getByMonth);
+router.get("/:id", [requirePermission(PermissionType.TRANSACTIONS_READ), ...dailyTransactionController.idValidation], dailyTransactionController.getById);
+router.post("/", [requirePermission(PermissionType.TRANSACTIONS_MANAGE), ...dailyTransactionController.transactionValidation], dailyTransactionController.create);
 router.put("/:id", [
+    requirePermission(PermissionType.TRANSACTIONS_MANAGE),
     ...dailyTransactionController.idValidation,
     ...dailyTransactionController.transactionValidation
 ], dailyTransactionController.update);
-router.delete("/:id", [...dailyTransactionController.idValidation], dailyTransactionController.delete);
-router.get("/sum/date/:date", [...dailyTransactionController.dateValidation], dailyTransactionController.getSumByDate);
-router.get("/sum/year/:year/month/:month", [...dailyTransactionController.yearMonthValidation], dailyTransactionController.getSumByMonth);
+router.delete("/:id", [requirePermission(PermissionType.TRANSACTIONS_MANAGE), ...dailyTransactionController.idValidation], dailyTransactionController.delete);
+router.get("/sum/date/:date", [requirePermission(PermissionType.TRANSACTIONS_READ), ...dailyTransactionController.dateValidation], dailyTransactionController.getSumByDate);
+router.get("/sum/year/:year/month/:month", [requirePermission(PermissionType.TRANSACTIONS_READ), ...dailyTransactionController.yearMonthValidation], dailyTransactionController.getSumByMonth);
 
 export default router;
@@ -7,11 +7,15 @@ import clientRoutes from "./client.routes";
 import roleRoutes from "./role.routes";
 import monthlyBudgetRoutes from "./monthlyBudget.routes";
 import dailyTransactionRoutes from "./dailyTransaction.routes";
+import clientMonthlyBudgetRoutes from "./clientMonthlyBudget.routes";
+import clientDailyTransactionRoutes from "./clientDailyTransaction.routes";
 
 const router = Router();
 
 router.use("/auth", authRoutes);
 router.use("/users", userRoutes);
+router.use("/clients/:clientId/monthly-budgets", clientMonthlyBudgetRoutes);
+router.use("/clients/:clientId/daily-transactions", clientDailyTransactionRoutes);
 router.use("/clients", clientRoutes);
 router.use("/roles", roleRoutes);
 router.use("/monthly-budgets", monthlyBudgetRoutes);
@@ -1,21 +1,55 @@
 import { Router } from "express";
 import { MonthlyBudgetController } from "../controllers/MonthlyBudgetController";
-import { authMiddleware } from "../middlewares";
+import { authMiddleware, requirePermission } from "../middlewares";
+import { PermissionType } from "../entities/Permission";
 
 const router = Router();
 const monthlyBudgetController = new MonthlyBudgetController();
 
 router.use(authMiddleware);
-router.get("/", monthlyBudgetController.getAll);
-router.get("/:id", [...monthlyBudgetController.idValidation], monthlyBudgetController.getById);
-router.get("/year/:year/month/:month", [...monthlyBudgetController.yearMonthValidation], monthlyBudgetController.getOrCreateByYearMonth);
+router.get("/", requirePermission(PermissionType.BUDGETS_READ), monthlyBudgetController.getAll);
+router.get("/ledger/check", [
+    requirePermission(PermissionType.BUDGETS_ADMIN),
+    ...monthlyBudgetController.ledgerCheckValidation
+], monthlyBudgetController.checkLedger);
+router.post("/ledger/rebuild", [
+    requirePermission(PermissionType.BUDGETS_ADMIN),
+    ...monthlyBudgetController.ledgerRebuildValidation
+], monthlyBudgetController.rebuildLedger);
+router.get("/rollover", requirePermission(PermissionType.BUDGETS_READ), monthlyBudgetController.getRolloverSettings);
+router.patch("/rollover", [
+    requirePermission(PermissionType.BUDGETS_MANAGE),
+    ...monthlyBudgetController.rolloverSettingsValidation
+], monthlyBudgetController.updateRolloverSettings);
+router.get("/:id", [requirePermission(PermissionType.BUDGETS_READ), ...monthlyBudgetController.idValidation], monthlyBudgetController.getById);
+router.get("/:id/pacing", [requirePermission(PermissionType.BUDGETS_READ), ...monthlyBudgetController.idValidation], monthlyBudgetController.getPacing);
+router.get("/year/:year/month/:month", [requirePermission(PermissionType.BUDGETS_READ), ...monthlyBudgetController.yearMonthValidation], monthlyBudgetController.getOrCreateByYearMonth);
 router.patch("/:id/salary", [
+    requirePermission(PermissionType.BUDGETS_MANAGE),
     ...monthlyBudgetController.idValidation,
     ...monthlyBudgetController.monthlySalaryValidation
 ], monthlyBudgetController.updateMonthlySalary);
 router.patch("/:id/budget", [
+    requirePermission(PermissionType.BUDGETS_MANAGE),
     ...monthlyBudgetController.idValidation,
     ...monthlyBudgetController.budgetAmountValidation
 ], monthlyBudgetController.updateBudgetAmount);
+router.get("/:id/categories", [requirePermission(PermissionType.BUDGETS_READ), ...monthlyBudgetController.idValidation], monthlyBudgetController.getCategoryBudgets);
+router.post("/:id/categories", [
+    requirePermission(PermissionType.BUDGETS_MANAGE),
+    ...monthlyBudgetController.idValidation,
+    ...monthlyBudgetController.createCategoryBudgetValidation
+], monthlyBudgetController.createCategoryBudget);
+router.patch("/:id/categories/:categoryBudgetId", [
+    requirePermission(PermissionType.BUDGETS_MANAGE),
+    ...monthlyBudgetController.idValidation,
+    ...monthlyBudgetController.categoryBudgetIdValidation,
+    ...monthlyBudgetController.updateCategoryBudgetValidation
+], monthlyBudgetController.updateCategoryBudget);
+router.delete("/:id/categories/:categoryBudgetId", [
+    requirePermission(PermissionType.BUDGETS_MANAGE),
+    ...monthlyBudgetController.idValidation,
+    ...monthlyBudgetController.categoryBudgetIdValidation
+], monthlyBudgetController.deleteCategoryBudget);
 
 export default router;
@@ -1,15 +1,16 @@
 import { Router } from "express";
 import { RoleController } from "../controllers/RoleController";
-import { authMiddleware, roleMiddleware } from "../middlewares";
-import { RoleType } from "../entities/Role";
+import { authMiddleware, requirePermission } from "../middlewares";
+import { PermissionType } from "../entities/Permission";
 
 const router = Router();
 const roleController = new RoleController();
 
-router.get("/", [authMiddleware, roleMiddleware([RoleType.ADMIN])], roleController.getAll);
-router.get("/:id", [authMiddleware, roleMiddleware([RoleType.ADMIN]), ...roleController.idValidation], roleController.getById);
-router.post("/", [authMiddleware, roleMiddleware([RoleType.ADMIN]), ...roleController.roleValidation], roleController.create);
-router.put("/:id", [authMiddleware, roleMiddleware([RoleType.ADMIN]), ...roleController.idValidation, ...roleController.roleValidation], roleController.update);
-router.delete("/:id", [authMiddleware, roleMiddleware([RoleType.ADMIN]), ...roleController.idValidation], roleController.delete);
+router.get("/", [authMiddleware, requirePermission(PermissionType.ROLES_ADMIN)], roleController.getAll);
+router.get("/permissions", [authMiddleware, requirePermission(PermissionType.ROLES_ADMIN)], roleController.getPermissions);
+router.get("/:id", [authMiddleware, requirePermission(PermissionType.ROLES_ADMIN), ...roleController.idValidation], roleController.getById);
+router.post("/", [authMiddleware, requirePermission(PermissionType.ROLES_ADMIN), ...roleController.roleValidation], roleController.create);
+router.put("/:id", [authMiddleware, requirePermission(PermissionType.ROLES_ADMIN), ...roleController.idValidation, ...roleController.roleValidation], roleController.update);
+router.delete("/:id", [authMiddleware, requirePermission(PermissionType.ROLES_ADMIN), ...roleController.idValidation], roleController.delete);
 
 export default router;
@@ -1,14 +1,32 @@
 import { Router } from "express";
 import { TransactionController } from "../controllers/TransactionController";
-import { authMiddleware } from "../middlewares";
+import { authMiddleware, requirePermission } from "../middlewares";
+import { PermissionType } from "../entities/Permission";
 
 const router = Router({ mergeParams: true });
 const transactionController = new TransactionController();
 
-router.get("/", authMiddleware, transactionController.getAll);
-router.get("/:id", [authMiddleware, ...transactionController.idValidation], transactionController.getById);
-router.post("/", [authMiddleware, ...transactionController.transactionValidation], transactionController.create);
-router.put("/:id", [authMiddleware, ...transactionController.idValidation, ...transactionController.transactionValidation], transactionController.update);
-router.delete("/:id", [authMiddleware, ...transactionController.idValidation], transactionController.delete);
+router.get("/", [authMiddleware, requirePermission(PermissionType.TRANSACTIONS_READ)], transactionController.getAll);
+router.get("/:id", [
+    authMiddleware,
+    requirePermission(PermissionType.TRANSACTIONS_READ),
+    ...transactionController.idValidation
+], transactionController.getById);
+router.post("/", [
+    authMiddleware,
+    requirePermission(PermissionType.TRANSACTIONS_MANAGE),
+    ...transactionController.transactionValidation
+], transactionController.create);
+router.put("/:id", [
+    authMiddleware,
+    requirePermission(PermissionType.TRANSACTIONS_MANAGE),
+    ...transactionController.idValidation,
+    ...transactionController.transactionValidation
+], transactionController.update);
+router.delete("/:id", [
+    authMiddleware,
+    requirePermission(PermissionType.TRANSACTIONS_MANAGE),
+    ...transactionController.idValidation
+], transactionController.delete);
 
 export default router;
@@ -1,20 +1,43 @@
 import { Router } from "express";
 import { UserController } from "../controllers/UserController";
-import {authMiddleware} from "../middlewares";
+import {authMiddleware, requirePermission, requireSession} from "../middlewares";
+import {PermissionType} from "../entities/Permission";
 
 const router = Router();
 const userController = new UserController();
 
-router.get("/", userController.getAll);
-
-router.get("/:id", userController.idValidation, userController.getById);
-router.post("/", userController.userValidation, userController.create);
-router.put("/:id", [authMiddleware, ...userController.idValidation, ...userController.userValidation], userController.update);
-router.delete("/:id", [authMiddleware, ...userController.idValidation], userController.delete);
+router.get("/", [
+  authMiddleware,
+  requirePermission(PermissionType.USERS_ADMIN)
+], userController.getAll);
+router.get("/:id", [
+  authMiddleware,
+  requirePermission(PermissionType.USERS_ADMIN),
+  ...userController.idValidation
+], userController.getById);
+router.post("/", [
+  authMiddleware,
+  requirePermission(PermissionType.USERS_ADMIN),
+  ...userController.userValidation
+], userController.create);
+// Users can update themselves, other users need users:admin (checked by the controller)
+router.put("/:id", [authMiddleware, requireSession, ...userController.idValidation, ...userController.userValidation], userController.update);
+router.delete("/:id", [
+  authMiddleware,
+  requirePermission(PermissionType.USERS_ADMIN),
+  ...userController.idValidation
+], userController.delete);
+router.patch("/:id/role", [
+  authMiddleware,
+  requirePermission(PermissionType.USERS_ADMIN),
+  ...userController.idValidation,
+  ...userController.roleValidation
+], userController.changeRole);
 
 // Change password route - requires authentication
 router.post("/:id/change-password", [
   authMiddleware, 
+  requireSession,
   ...userController.idValidation,
   ...userController.passwordValidation
 ], userController.changePassword);
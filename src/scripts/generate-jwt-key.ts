@@ -0,0 +1,50 @@
+import { generateKeyPairSync } from "crypto";
+import { existsSync, mkdirSync, writeFileSync } from "fs";
+import { join } from "path";
+import * as dotenv from "dotenv";
+import { LoggerService } from "../services/LoggerService";
+
+dotenv.config();
+
+const logger = LoggerService.getInstance();
+
+/**
+ * Generate a JWT signing key in JWT_KEYS_DIR, named after its kid
+ * @param algorithm RS256 or ES256
+ */
+function generateJwtKey(algorithm: string) {
+  try {
+    const directory = process.env.JWT_KEYS_DIR || "keys";
+    const kid = `${new Date().toISOString().slice(0, 10)}-${algorithm.toLowerCase()}`;
+    const file = join(directory, `${kid}.pem`);
+
+    if (existsSync(file)) {
+      logger.error(`Key ${file} already exists`);
+      process.exit(1);
+    }
+
+    const { privateKey } = algorithm === "RS256"
+      ? generateKeyPairSync("rsa", { modulusLength: 2048 })
+      : generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+
+    mkdirSync(directory, { recursive: true });
+    writeFileSync(file, privateKey.export({ format: "pem", type: "pkcs8" }), { mode: 0o600 });
+
+    logger.info(`Key ${kid} written to ${file}`);
+    logger.info(`Set JWT_ACTIVE_KID=${kid} to sign with it; keep the previous key until its tokens have expired`);
+    process.exit(0);
+  } catch (error) {
+    logger.error("Error generating JWT key:", error);
+    process.exit(1);
+  }
+}
+
+// Get the algorithm from command line arguments
+const algorithm = (process.argv[2] || "ES256").toUpperCase();
+if (algorithm !== "RS256" && algorithm !== "ES256") {
+  logger.error("Algorithm must be RS256 or ES256");
+  process.exit(1);
+}
+
+// Run the function
+generateJwtKey(algorithm);
@@ -0,0 +1,57 @@
+import { AppDataSource } from "../config/data-source";
+import { LoggerService } from "../services/LoggerService";
+import { BudgetLedgerService } from "../services/BudgetLedgerService";
+
+const logger = LoggerService.getInstance();
+
+/**
+ * Check or rebuild the balances of monthly budgets from their transactions
+ * @param budgetId Monthly budget ID, every budget when omitted
+ * @param checkOnly Only report drift, without changing anything
+ */
+async function rebuildLedger(budgetId: string | undefined, checkOnly: boolean) {
+  try {
+    // Initialize data source
+    if (!AppDataSource.isInitialized) {
+      await AppDataSource.initialize();
+      logger.info("Data source has been initialized!");
+    }
+
+    const budgetLedgerService = new BudgetLedgerService();
+
+    if (checkOnly) {
+      const { checked, drifted } = await budgetLedgerService.check(budgetId);
+      for (const drift of drifted) {
+        logger.warn(
+          `Budget ${drift.budgetId} (${drift.month}/${drift.year}, client ${drift.clientId}): carried over ` +
+          `${drift.storedCarriedOverAmount}, expected ${drift.expectedCarriedOverAmount}; remaining balance ` +
+          `${drift.storedRemainingBalance}, expected ${drift.expectedRemainingBalance}; ` +
+          `${drift.transactions.length} transaction(s) with a wrong running balance`
+        );
+      }
+      logger.info(`Checked ${checked} budget(s), ${drifted.length} drifted`);
+      process.exit(drifted.length > 0 ? 2 : 0);
+    }
+
+    const { rebuilt, corrected } = await budgetLedgerService.rebuild(budgetId);
+    for (const budget of corrected) {
+      logger.info(
+        `Budget ${budget.budgetId}: remaining balance ${budget.previousRemainingBalance} -> ${budget.remainingBalance}, ` +
+        `${budget.transactionsUpdated} transaction(s) corrected`
+      );
+    }
+    logger.info(`Rebuilt ${rebuilt} budget(s), ${corrected.length} corrected`);
+    process.exit(0);
+  } catch (error) {
+    logger.error("Error rebuilding budget ledger:", error);
+    process.exit(1);
+  }
+}
+
+// Usage: npm run rebuild:ledger -- [budgetId] [--check]
+const args = process.argv.slice(2);
+const checkOnly = args.includes("--check");
+const budgetId = args.find(arg => arg !== "--check");
+
+// Run the function
+rebuildLedger(budgetId, checkOnly);
@@ -1,19 +1,34 @@
 import { AppDataSource } from "../config/data-source";
-import { CreateMonthlyBudgetAndDailyTransaction1717326100000 } from "../migrations/1717326100000-CreateMonthlyBudgetAndDailyTransaction";
+import { AddRolePermissions1760900000000 } from "../migrations/1760900000000-AddRolePermissions";
+import { AddEmailVerification1761000000000 } from "../migrations/1761000000000-AddEmailVerification";
+import { MoveCredentialsToAuth1761100000000 } from "../migrations/1761100000000-MoveCredentialsToAuth";
 import { LoggerService } from "../services/LoggerService";
 
 const logger = LoggerService.getInstance();
 
 async function runMigration() {
   try {
-    // Initialize data source
+    // Initialize data source without synchronizing, the migrations must run on the old schema.
+    // They are recorded in the migrations table, so each one runs once, in order.
+    AppDataSource.setOptions({
+      synchronize: false,
+      migrations: [
+        AddRolePermissions1760900000000,
+        AddEmailVerification1761000000000,
+        MoveCredentialsToAuth1761100000000
+      ]
+    });
     await AppDataSource.initialize();
     logger.info("Data source initialized");
 
-    // Run migration
-    const migration = new CreateMonthlyBudgetAndDailyTransaction1717326100000();
-    await migration.up(AppDataSource.createQueryRunner());
-    logger.info("Migration executed successfully");
+    // Run pending migrations, each in its own transaction
+    const executed = await AppDataSource.runMigrations({ transaction: "each" });
+    if (executed.length === 0) {
+      logger.info("No pending migrations");
+    }
+    for (const migration of executed) {
+      logger.info(`Migration ${migration.name} executed successfully`);
+    }
 
     // Close connection
     await AppDataSource.destroy();
@@ -0,0 +1,90 @@
+import { AppError } from "../middlewares/error.middleware";
+import { LoggerService } from "./LoggerService";
+import { ActivityCursor, ActivityRow, ActivityType } from "../repositories/activityRepository";
+import { findActivityFeed } from "../repositories";
+
+/**
+ * An entry of the activity feed
+ */
+export type Activity = Omit<ActivityRow, "cursorAt">;
+
+/**
+ * A page of the activity feed
+ * nextCursor is null on the last page.
+ */
+export interface ActivityPage {
+  activities: Activity[];
+  nextCursor: string | null;
+}
+
+/**
+ * Service for the activity feed.
+ * Transactions, budget changes, client registrations and client logins are merged into one timeline,
+ * paginated with an opaque cursor so new activity does not shift the pages being read.
+ */
+export class ActivityService {
+  private logger = LoggerService.getInstance();
+
+  /**
+   * Get a page of the activity feed, newest first
+   * @param filters Scope and filters: managerId limits the feed to a manager's clients
+   * @param cursor nextCursor of the previous page
+   * @param limit Maximum number of entries
+   * @throws AppError 400 when the cursor is invalid
+   */
+  public async getFeed(
+    filters: {
+      managerId?: string;
+      clientId?: string;
+      types?: ActivityType[];
+    },
+    cursor?: string,
+    limit: number = 20
+  ): Promise<ActivityPage> {
+    try {
+      // One extra entry tells whether there is a next page
+      const rows = await findActivityFeed(filters, cursor ? this.decodeCursor(cursor) : undefined, limit + 1);
+      const page = rows.slice(0, limit);
+      const last = page[page.length - 1];
+
+      return {
+        activities: page.map(({ cursorAt, ...activity }) => activity),
+        nextCursor: rows.length > limit && last ? this.encodeCursor({ occurredAt: last.cursorAt, id: last.id }) : null
+      };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      this.logger.error("Error in getFeed activity service:", error);
+      throw new AppError("Failed to get activity feed", 500);
+    }
+  }
+
+  /**
+   * Encode a feed position as an opaque cursor
+   */
+  private encodeCursor(cursor: ActivityCursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+  }
+
+  /**
+   * Decode a cursor from a client
+   * @throws AppError 400 when the cursor was not issued by encodeCursor
+   */
+  private decodeCursor(cursor: string): ActivityCursor {
+    try {
+      const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+      if (
+        typeof decoded?.occurredAt === "string" &&
+        !isNaN(new Date(decoded.occurredAt).getTime()) &&
+        typeof decoded?.id === "string" &&
+        /^[0-9a-f-]{36}$/i.test(decoded.id)
+      ) {
+        return { occurredAt: decoded.occurredAt, id: decoded.id };
+      }
+    } catch {
+      // Not base64 JSON, reported below
+    }
+    throw new AppError("Invalid cursor", 400);
+  }
+}
@@ -0,0 +1,181 @@
+import { randomBytes, timingSafeEqual } from "crypto";
+import { ApiKey } from "../entities/ApiKey";
+import { PermissionType } from "../entities/Permission";
+import { AppError } from "../middlewares/error.middleware";
+import { LoggerService } from "./LoggerService";
+import { generateOpaqueToken, hashToken } from "../utils/token.util";
+import {
+  findApiKeyByPrefix,
+  findApiKeysByAuthId,
+  createApiKeyWithinLimit,
+  revokeApiKey,
+  updateApiKeyLastUsed
+} from "../repositories";
+
+/**
+ * API key returned once, when it is created
+ */
+export interface CreatedApiKey {
+  apiKey: Omit<ApiKey, "keyHash">;
+  key: string;
+}
+
+const API_KEY_PATTERN = /^afk_([0-9a-f]{12})_([A-Za-z0-9_-]+)$/;
+
+/**
+ * Service for personal API keys.
+ * Keys are shown once when created; afterwards only their prefix, scopes and usage are visible.
+ */
+export class ApiKeyService {
+  private logger = LoggerService.getInstance();
+
+  /**
+   * Whether a credential looks like an API key rather than a JWT
+   */
+  public static isApiKey(credential: string): boolean {
+    return credential.startsWith("afk_");
+  }
+
+  /**
+   * List the API keys of an account
+   */
+  public async listApiKeys(authId: string): Promise<ApiKey[]> {
+    try {
+      return await findApiKeysByAuthId(authId);
+    } catch (error) {
+      this.logger.error(`Error in listApiKeys service for auth ID ${authId}:`, error);
+      throw new AppError("Failed to get API keys", 500);
+    }
+  }
+
+  /**
+   * Create an API key.
+   * Scopes must be permissions the account currently has, so a key never grants more than its owner.
+   * @param authId Auth ID owning the key
+   * @param grantedPermissions Permissions of the account
+   * @param data Key name, scopes and lifetime in days
+   */
+  public async createApiKey(
+    authId: string,
+    grantedPermissions: PermissionType[],
+    data: { name: string; scopes: PermissionType[]; expiresInDays?: number }
+  ): Promise<CreatedApiKey> {
+    try {
+      const invalidScope = data.scopes.find(scope => !grantedPermissions.includes(scope));
+      if (invalidScope) {
+        throw new AppError(`Invalid scope: ${invalidScope}`, 400);
+      }
+
+      const expiresInDays = data.expiresInDays ?? this.getDefaultExpiresInDays();
+      const prefix = randomBytes(6).toString("hex");
+      const key = `afk_${prefix}_${generateOpaqueToken(32)}`;
+
+      const apiKey = await createApiKeyWithinLimit({
+        name: data.name,
+        prefix,
+        keyHash: hashToken(key),
+        scopes: [...new Set(data.scopes)],
+        authId,
+        expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+        lastUsedAt: null,
+        revokedAt: null
+      }, this.getMaxKeysPerAccount());
+
+      if (!apiKey) {
+        throw new AppError("Too many API keys, revoke one first", 400);
+      }
+
+      // Never return the hash, the caller only gets the plain key this once
+      const { keyHash, ...created } = apiKey;
+      return { apiKey: created, key };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      this.logger.error(`Error in createApiKey service for auth ID ${authId}:`, error);
+      throw new AppError("Failed to create API key", 500);
+    }
+  }
+
+  /**
+   * Revoke an API key of an account
+   */
+  public async revokeApiKey(authId: string, id: string): Promise<void> {
+    try {
+      const revoked = await revokeApiKey(id, authId);
+      if (!revoked) {
+        throw new AppError("API key not found", 404);
+      }
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      this.logger.error(`Error in revokeApiKey service for ID ${id}:`, error);
+      throw new AppError("Failed to revoke API key", 500);
+    }
+  }
+
+  /**
+   * Check an API key presented by a request and record its use
+   * @param key Plain API key
+   * @returns The matching API key
+   * @throws AppError 401 when the key is unknown, revoked or expired
+   */
+  public async authenticate(key: string): Promise<ApiKey> {
+    try {
+      const match = API_KEY_PATTERN.exec(key);
+      if (!match) {
+        throw new AppError("Invalid API key", 401);
+      }
+
+      const apiKey = await findApiKeyByPrefix(match[1]);
+      if (!apiKey || !this.hashMatches(apiKey.keyHash, hashToken(key))) {
+        throw new AppError("Invalid API key", 401);
+      }
+
+      if (apiKey.revokedAt || apiKey.expiresAt.getTime() <= Date.now()) {
+        throw new AppError("API key has expired or been revoked", 401);
+      }
+
+      // Only write the last use once a minute, scripts can call the API in bursts
+      const now = new Date();
+      if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > 60 * 1000) {
+        await updateApiKeyLastUsed(apiKey.id, now);
+        apiKey.lastUsedAt = now;
+      }
+
+      return apiKey;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      this.logger.error("Error in authenticate API key service:", error);
+      throw new AppError("Failed to authenticate API key", 500);
+    }
+  }
+
+  /**
+   * Constant time comparison of two hex hashes
+   */
+  private hashMatches(expected: string, actual: string): boolean {
+    const expectedBuffer = Buffer.from(expected, "hex");
+    const actualBuffer = Buffer.from(actual, "hex");
+    return expectedBuffer.length === actualBuffer.length && timingSafeEqual(expectedBuffer, actualBuffer);
+  }
+
+  /**
+   * Default key lifetime in days (API_KEY_EXPIRES_IN_DAYS)
+   */
+  private getDefaultExpiresInDays(): number {
+    const days = parseInt(process.env.API_KEY_EXPIRES_IN_DAYS || "90");
+    return isNaN(days) || days <= 0 ? 90 : days;
+  }
+
+  /**
+   * Maximum number of active keys per account (API_KEY_MAX_PER_ACCOUNT)
+   */
+  private getMaxKeysPerAccount(): number {
+    const max = parseInt(process.env.API_KEY_MAX_PER_ACCOUNT || "10");
+    return isNaN(max) || max <= 0 ? 10 : max;
+  }
+}
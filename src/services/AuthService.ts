@@ -1,29 +1,122 @@
 import * as bcrypt from "bcryptjs";
 import jwt from "jsonwebtoken";
+import { randomBytes, randomUUID } from "crypto";
 import { User } from "../entities/User";
 import { Client } from "../entities/Client";
 import { Auth, AuthType } from "../entities/Auth";
 import {
   findUserByEmail, 
-  createUser, 
+  createUserWithAuth, 
   findAuthByEmail, 
+  findAuthByPasswordResetToken,
+  findAuthByEmailVerificationToken,
+  findAuthWithTwoFactorSecrets,
+  findAuthById,
+  findUserById,
   createAuth, 
   updateAuth,
   updateLastLogin,
   findRoleByName,
-  findClientByEmail
+  findClientByEmail,
+  findRefreshTokenByHash,
+  createRefreshToken,
+  markRefreshTokenRotated,
+  revokeRefreshTokenFamily,
+  revokeRefreshTokensByAuth,
+  incrementTokenVersion,
+  revokeToken,
+  deleteExpiredRevokedTokens,
+  revokeSession,
+  revokeSessionsByAuthId
 } from "../repositories";
 import { LoggerService } from "./LoggerService";
+import { MailService } from "./MailService";
+import { LoginAttemptService } from "./LoginAttemptService";
+import { SessionService } from "./SessionService";
+import { ImpersonationService } from "./ImpersonationService";
+import { PasswordService } from "./PasswordService";
+import { JwtKeyService } from "./JwtKeyService";
+import { SecurityEventService } from "./SecurityEventService";
+import { SecurityEventType } from "../entities/SecurityEvent";
 import { RoleType } from "../entities/Role";
 import {AppError} from "../middlewares";
+import { generateOpaqueToken, hashToken } from "../utils/token.util";
+import { RequestContext } from "../utils/request.util";
+import { buildOtpauthUrl, generateTotpSecret, verifyTotp } from "../utils/totp.util";
+
+/**
+ * Access and refresh token pair issued on login and refresh
+ */
+export interface AuthTokens {
+    token: string;
+    refreshToken: string;
+    expiresIn: string;
+}
+
+/**
+ * Tokens and account data returned when a login completes
+ */
+export type LoginSession = AuthTokens & {
+    user?: User;
+    client?: Client;
+    type: AuthType;
+};
+
+/**
+ * Returned by login instead of a session when a second factor is needed.
+ * mfaToken is short-lived and only accepted by the two-factor endpoints.
+ */
+export interface MfaChallenge {
+    mfaRequired: boolean;
+    mfaSetupRequired: boolean;
+    mfaToken: string;
+    type: AuthType;
+}
+
+/**
+ * Purpose of a short-lived two-factor token
+ */
+export type MfaTokenPurpose = "mfa" | "mfa_setup";
+
+/**
+ * Claims of the tokens signed by this service: access, impersonation and two-factor tokens
+ */
+export interface TokenPayload extends jwt.JwtPayload {
+    id: string;
+    type: AuthType;
+    email?: string;
+    userId?: string;
+    clientId?: string;
+    sid?: string;
+    tv?: number;
+    purpose?: MfaTokenPurpose;
+    imp?: boolean;
+    act?: { id: string; email: string; tv?: number };
+}
+
+/**
+ * Short-lived token returned when an admin impersonates an account
+ */
+export interface ImpersonationToken {
+    token: string;
+    expiresIn: string;
+    impersonator: { authId: string; email: string };
+    target: { authId: string; email: string; type: AuthType };
+}
 
 export class AuthService {
     private logger = LoggerService.getInstance();
+    private mailService = MailService.getInstance();
+    private loginAttemptService = new LoginAttemptService();
+    private sessionService = new SessionService();
+    private impersonationService = new ImpersonationService();
+    private passwordService = new PasswordService();
+    private securityEventService = new SecurityEventService();
     
     /**
      * Register a new user (manager/admin)
      */
-    public async registerUser(name: string, email: string, password: string, roleType: RoleType = RoleType.MANAGER): Promise<Omit<User, "password">> {
+    public async registerUser(name: string, email: string, password: string, roleType: RoleType = RoleType.MANAGER): Promise<User> {
         try {
             // Check if user with email already exists
             const existingUser = await findUserByEmail(email);
@@ -43,28 +136,19 @@ export class AuthService {
                 throw new AppError("Invalid role", 400);
             }
 
-            // Hash the password
-            const hashedPassword = await bcrypt.hash(password, 10);
+            // Check and hash the password
+            await this.passwordService.assertAllowed(password, { name, email });
+            const hashedPassword = await this.passwordService.hash(password);
 
-            // Create new user
-            const user = await createUser({
-                name,
-                email,
-                password: hashedPassword,
-                role
-            });
+            // Create the user and its login together, the email has to be verified before the first login
+            const { user, auth } = await createUserWithAuth(
+                { name, email, role },
+                { email, password: hashedPassword, type: AuthType.ADMIN }
+            );
+            await this.passwordService.remember(auth.id, hashedPassword);
+            await this.sendEmailVerification(auth);
 
-            // Create auth record
-            await createAuth({
-                email,
-                password: hashedPassword,
-                type: AuthType.ADMIN,
-                userId: user.id
-            });
-
-            // Return user without password
-            const { password: _, ...userWithoutPassword } = user;
-            return userWithoutPassword;
+            return user;
         } catch (error) {
             if (error instanceof AppError) {
                 throw error;
@@ -76,8 +160,9 @@ export class AuthService {
 
     /**
      * Register a new client
+     * @param emailVerified Whether the client's email is already proven, e.g. by an accepted invitation
      */
-    public async registerClient(client: Client, password: string): Promise<Client> {
+    public async registerClient(client: Client, password: string, emailVerified: boolean = false): Promise<Client> {
         try {
             // Check if auth with email already exists
             const existingAuth = await findAuthByEmail(client.email);
@@ -85,16 +170,23 @@ export class AuthService {
                 throw new AppError("Email is already in use for authentication", 409);
             }
 
-            // Hash the password
-            const hashedPassword = await bcrypt.hash(password, 10);
+            // Check and hash the password
+            await this.passwordService.assertAllowed(password, { name: client.name, email: client.email, cpf: client.cpf });
+            const hashedPassword = await this.passwordService.hash(password);
 
             // Create auth record
-            await createAuth({
+            const auth = await createAuth({
                 email: client.email,
                 password: hashedPassword,
                 type: AuthType.CLIENT,
-                clientId: client.id
+                clientId: client.id,
+                emailVerifiedAt: emailVerified ? new Date() : null
             });
+            await this.passwordService.remember(auth.id, hashedPassword);
+
+            if (!emailVerified) {
+                await this.sendEmailVerification(auth);
+            }
 
             return client;
         } catch (error) {
@@ -107,19 +199,21 @@ export class AuthService {
     }
 
     /**
-     * Login a user or client
+     * Login a user or client.
+     * When two-factor authentication is enabled (or required but not set up yet)
+     * a short-lived mfa token is returned instead of a session.
      */
-    public async login(email: string, password: string): Promise<{ 
-        user?: Omit<User, "password">;
-        client?: Client;
-        token: string;
-        type: AuthType;
-    }> {
+    public async login(email: string, password: string, context: RequestContext = {}): Promise<LoginSession | MfaChallenge> {
+        let auth: Auth | null = null;
         try {
+            // Throttle addresses with too many recent failures
+            await this.loginAttemptService.assertIpAllowed(context);
+
             // Find auth by email
-            const auth = await findAuthByEmail(email, true);
+            auth = await findAuthByEmail(email, true);
 
             if (!auth) {
+                await this.loginAttemptService.recordFailure(email, context);
                 throw new AppError("Invalid email or password", 401);
             }
 
@@ -128,37 +222,40 @@ export class AuthService {
                 throw new AppError("Account is inactive", 403);
             }
 
+            // Check lockout and progressive delay
+            await this.loginAttemptService.assertAccountAllowed(auth, context);
+
             // Verify password
             const isPasswordValid = await bcrypt.compare(password, auth.password);
             if (!isPasswordValid) {
+                await this.loginAttemptService.recordFailure(email, context, auth);
                 throw new AppError("Invalid email or password", 401);
             }
 
-            // Update last login
-            await updateLastLogin(auth.id);
-
-            // Generate JWT token
-            const token = this.generateToken(auth);
+            // Only checked once the password is known to be right, so it does not reveal the account
+            if (!auth.emailVerifiedAt && this.isEmailVerificationRequired()) {
+                throw new AppError("Email address has not been verified", 403);
+            }
 
-            // Return user/client data based on auth type
-            if (auth.type === AuthType.ADMIN && auth.user) {
-                const { password: _, ...userWithoutPassword } = auth.user;
-                return { 
-                    user: userWithoutPassword, 
-                    token,
-                    type: AuthType.ADMIN
-                };
-            } else if (auth.type === AuthType.CLIENT && auth.client) {
-                return { 
-                    client: auth.client, 
-                    token,
-                    type: AuthType.CLIENT
+            // Second step: the session is only issued once the code is verified
+            if (auth.twoFactorEnabled || auth.twoFactorRequired) {
+                return {
+                    mfaRequired: auth.twoFactorEnabled,
+                    mfaSetupRequired: !auth.twoFactorEnabled,
+                    mfaToken: this.generateMfaToken(auth, auth.twoFactorEnabled ? "mfa" : "mfa_setup"),
+                    type: auth.type
                 };
-            } else {
-                throw new AppError("Invalid account type", 500);
             }
+
+            return await this.completeLogin(auth, context);
         } catch (error) {
             if (error instanceof AppError) {
+                await this.securityEventService.record(
+                    SecurityEventType.LOGIN_FAILURE,
+                    { authId: auth?.id, email: auth?.email ?? email },
+                    context,
+                    { reason: error.message }
+                );
                 throw error;
             }
             this.logger.error("Error in login service:", error);
@@ -166,10 +263,384 @@ export class AuthService {
         }
     }
 
+    /**
+     * Second login step: exchange an mfa token and a TOTP or recovery code for a session
+     */
+    public async verifyTwoFactorLogin(mfaToken: string, code: string, context: RequestContext = {}): Promise<LoginSession> {
+        let auth: Auth | null = null;
+        try {
+            await this.loginAttemptService.assertIpAllowed(context);
+
+            const decoded = this.verifyMfaToken(mfaToken, "mfa");
+            auth = await findAuthWithTwoFactorSecrets(decoded.id);
+            if (!auth || !auth.twoFactorEnabled || (decoded.tv ?? 0) !== auth.tokenVersion) {
+                throw new AppError("Invalid or expired token", 401);
+            }
+
+            if (!auth.isActive) {
+                throw new AppError("Account is inactive", 403);
+            }
+
+            await this.loginAttemptService.assertAccountAllowed(auth, context);
+
+            // Wrong codes count towards the same lockout as wrong passwords
+            if (!await this.consumeTwoFactorCode(auth, code)) {
+                await this.loginAttemptService.recordFailure(auth.email, context, auth);
+                throw new AppError("Invalid two-factor code", 401);
+            }
+
+            return await this.completeLogin(auth, context);
+        } catch (error) {
+            if (error instanceof AppError) {
+                // Forged or expired mfa tokens are not tied to an account
+                if (auth) {
+                    await this.securityEventService.record(
+                        SecurityEventType.LOGIN_FAILURE,
+                        { authId: auth.id, email: auth.email },
+                        context,
+                        { reason: error.message, step: "two_factor" }
+                    );
+                }
+                throw error;
+            }
+            this.logger.error("Error in verifyTwoFactorLogin service:", error);
+            throw new AppError("Failed to verify two-factor code", 500);
+        }
+    }
+
+    /**
+     * Start two-factor enrolment: generate a new secret and its provisioning URI.
+     * The secret is only active once confirmed with enableTwoFactor.
+     */
+    public async setupTwoFactor(authId: string): Promise<{ secret: string; otpauthUrl: string }> {
+        try {
+            const auth = await findAuthById(authId);
+            if (!auth) {
+                throw new AppError("Account not found", 404);
+            }
+
+            if (auth.twoFactorEnabled) {
+                throw new AppError("Two-factor authentication is already enabled", 409);
+            }
+
+            const secret = generateTotpSecret();
+            auth.twoFactorSecret = secret;
+            await updateAuth(auth);
+
+            return {
+                secret,
+                otpauthUrl: buildOtpauthUrl(secret, auth.email, process.env.TOTP_ISSUER || "AppFree")
+            };
+        } catch (error) {
+            if (error instanceof AppError) {
+                throw error;
+            }
+            this.logger.error(`Error in setupTwoFactor service for auth ID ${authId}:`, error);
+            throw new AppError("Failed to set up two-factor authentication", 500);
+        }
+    }
+
+    /**
+     * Confirm two-factor enrolment with a code from the authenticator app.
+     * Returns single-use recovery codes; they are only shown once.
+     * When completing a login that required enrolment, a session is issued as well.
+     */
+    public async enableTwoFactor(authId: string, code: string, context: RequestContext = {}, issueSession: boolean = false): Promise<{
+        recoveryCodes: string[];
+        session?: LoginSession;
+    }> {
+        try {
+            const auth = await findAuthWithTwoFactorSecrets(authId);
+            if (!auth) {
+                throw new AppError("Account not found", 404);
+            }
+
+            if (auth.twoFactorEnabled) {
+                throw new AppError("Two-factor authentication is already enabled", 409);
+            }
+
+            if (!auth.twoFactorSecret) {
+                throw new AppError("Two-factor setup has not been started", 400);
+            }
+
+            const step = verifyTotp(auth.twoFactorSecret, code);
+            if (step === null) {
+                throw new AppError("Invalid two-factor code", 400);
+            }
+
+            const recoveryCodes = this.generateRecoveryCodes();
+            auth.twoFactorEnabled = true;
+            auth.twoFactorLastUsedStep = step;
+            auth.twoFactorRecoveryCodes = recoveryCodes.map(recoveryCode => this.hashRecoveryCode(recoveryCode));
+            await updateAuth(auth);
+
+            if (issueSession) {
+                return { recoveryCodes, session: await this.completeLogin(auth, context) };
+            }
+
+            return { recoveryCodes };
+        } catch (error) {
+            if (error instanceof AppError) {
+                throw error;
+            }
+            this.logger.error(`Error in enableTwoFactor service for auth ID ${authId}:`, error);
+            throw new AppError("Failed to enable two-factor authentication", 500);
+        }
+    }
+
+    /**
+     * Turn two-factor authentication off. Requires the password and a current code,
+     * and is refused while an admin requires 2FA for the account.
+     */
+    public async disableTwoFactor(authId: string, password: string, code: string): Promise<void> {
+        try {
+            const auth = await findAuthWithTwoFactorSecrets(authId);
+            if (!auth) {
+                throw new AppError("Account not found", 404);
+            }
+
+            if (!auth.twoFactorEnabled) {
+                throw new AppError("Two-factor authentication is not enabled", 400);
+            }
+
+            if (auth.twoFactorRequired) {
+                throw new AppError("Two-factor authentication is required for this account", 403);
+            }
+
+            const isPasswordValid = await bcrypt.compare(password, auth.password);
+            if (!isPasswordValid || !await this.consumeTwoFactorCode(auth, code)) {
+                throw new AppError("Invalid password or two-factor code", 401);
+            }
+
+            auth.twoFactorEnabled = false;
+            auth.twoFactorSecret = null;
+            auth.twoFactorRecoveryCodes = null;
+            auth.twoFactorLastUsedStep = null;
+            await updateAuth(auth);
+        } catch (error) {
+            if (error instanceof AppError) {
+                throw error;
+            }
+            this.logger.error(`Error in disableTwoFactor service for auth ID ${authId}:`, error);
+            throw new AppError("Failed to disable two-factor authentication", 500);
+        }
+    }
+
+    /**
+     * Replace the recovery codes of an account (requires a current code)
+     */
+    public async regenerateRecoveryCodes(authId: string, code: string): Promise<string[]> {
+        try {
+            const auth = await findAuthWithTwoFactorSecrets(authId);
+            if (!auth) {
+                throw new AppError("Account not found", 404);
+            }
+
+            if (!auth.twoFactorEnabled || !auth.twoFactorSecret) {
+                throw new AppError("Two-factor authentication is not enabled", 400);
+            }
+
+            const step = verifyTotp(auth.twoFactorSecret, code);
+            if (step === null || step <= (auth.twoFactorLastUsedStep ?? -1)) {
+                throw new AppError("Invalid two-factor code", 401);
+            }
+
+            const recoveryCodes = this.generateRecoveryCodes();
+            auth.twoFactorLastUsedStep = step;
+            auth.twoFactorRecoveryCodes = recoveryCodes.map(recoveryCode => this.hashRecoveryCode(recoveryCode));
+            await updateAuth(auth);
+
+            return recoveryCodes;
+        } catch (error) {
+            if (error instanceof AppError) {
+                throw error;
+            }
+            this.logger.error(`Error in regenerateRecoveryCodes service for auth ID ${authId}:`, error);
+            throw new AppError("Failed to regenerate recovery codes", 500);
+        }
+    }
+
+    /**
+     * Require (or stop requiring) two-factor authentication for an admin or manager (admin function).
+     * Accounts that are not enrolled yet are logged out and have to set up 2FA on their next login.
+     */
+    public async setTwoFactorRequired(authId: string, required: boolean): Promise<void> {
+        try {
+            const auth = await findAuthById(authId);
+            if (!auth) {
+                throw new AppError("Account not found", 404);
+            }
+
+            const user = auth.type === AuthType.ADMIN && auth.userId ? await findUserById(auth.userId) : null;
+            if (!user || !user.role || !([RoleType.ADMIN, RoleType.MANAGER] as string[]).includes(user.role.name)) {
+                throw new AppError("Two-factor authentication can only be required for admins and managers", 400);
+            }
+
+            auth.twoFactorRequired = required;
+            await updateAuth(auth);
+
+            if (required && !auth.twoFactorEnabled) {
+                await this.revokeAllSessions(auth.id);
+            }
+        } catch (error) {
+            if (error instanceof AppError) {
+                throw error;
+            }
+            this.logger.error(`Error in setTwoFactorRequired service for auth ID ${authId}:`, error);
+            throw new AppError("Failed to update two-factor requirement", 500);
+        }
+    }
+
+    /**
+     * Issue a short-lived token to act as another account (admin function).
+     * The token carries the target identity and, in its `act` claim, the admin behind it.
+     * It comes without a refresh token and admins cannot be impersonated.
+     */
+    public async impersonate(impersonatorAuthId: string, targetAuthId: string, context: RequestContext = {}): Promise<ImpersonationToken> {
+        try {
+            if (impersonatorAuthId === targetAuthId) {
+                throw new AppError("You cannot impersonate yourself", 400);
+            }
+
+            const impersonator = await findAuthById(impersonatorAuthId);
+            if (!impersonator || !impersonator.isActive) {
+                throw new AppError("Authentication required", 401);
+            }
+
+            const target = await findAuthById(targetAuthId);
+            if (!target) {
+                throw new AppError("Account not found", 404);
+            }
+
+            if (!target.isActive) {
+                throw new AppError("Account is inactive", 400);
+            }
+
+            const user = target.type === AuthType.ADMIN && target.userId ? await findUserById(target.userId) : null;
+            if (user?.role?.name === RoleType.ADMIN) {
+                throw new AppError("Admins cannot be impersonated", 403);
+            }
+
+            const token = this.generateImpersonationToken(target, impersonator);
+            await this.impersonationService.recordStart({
+                impersonatorAuthId: impersonator.id,
+                impersonatorEmail: impersonator.email,
+                targetAuthId: target.id,
+                targetEmail: target.email
+            }, context.ipAddress);
+
+            return {
+                token,
+                expiresIn: this.getImpersonationTokenExpiresIn(),
+                impersonator: { authId: impersonator.id, email: impersonator.email },
+                target: { authId: target.id, email: target.email, type: target.type }
+            };
+        } catch (error) {
+            if (error instanceof AppError) {
+                throw error;
+            }
+            this.logger.error(`Error in impersonate service for auth ID ${targetAuthId}:`, error);
+            throw new AppError("Failed to impersonate account", 500);
+        }
+    }
+
+    /**
+     * Verify a short-lived two-factor token and check its purpose
+     */
+    public verifyMfaToken(token: string, purpose: MfaTokenPurpose): TokenPayload {
+        const decoded = this.verifyToken(token);
+        if (decoded.purpose !== purpose) {
+            throw new AppError("Invalid or expired token", 401);
+        }
+        return decoded;
+    }
+
+    /**
+     * Exchange a refresh token for a new token pair.
+     * The presented token is rotated; presenting an already rotated token
+     * revokes its whole family, since it means the token was stolen or replayed.
+     */
+    public async refresh(refreshToken: string, context: RequestContext = {}): Promise<AuthTokens> {
+        try {
+            const stored = await findRefreshTokenByHash(hashToken(refreshToken));
+            if (!stored) {
+                throw new AppError("Invalid refresh token", 401);
+            }
+
+            if (stored.revokedAt) {
+                await revokeRefreshTokenFamily(stored.familyId);
+                this.logger.warn(`Refresh token reuse detected for auth ${stored.authId}, family ${stored.familyId} revoked`);
+                throw new AppError("Invalid refresh token", 401);
+            }
+
+            if (stored.expiresAt.getTime() <= Date.now()) {
+                throw new AppError("Refresh token has expired", 401);
+            }
+
+            const { auth } = stored;
+            if (!auth || !auth.isActive || (auth.user && !auth.user.isActive) || (auth.client && !auth.client.isActive)) {
+                throw new AppError("Account is inactive", 403);
+            }
+
+            // The refresh token family is the session, which may have been ended remotely
+            await this.sessionService.recordRefresh(stored.familyId, auth.id, this.getRefreshTokenExpiresAt(), context);
+
+            return await this.issueTokens(auth, stored.familyId, stored.id);
+        } catch (error) {
+            if (error instanceof AppError) {
+                throw error;
+            }
+            this.logger.error("Error in refresh service:", error);
+            throw new AppError("Failed to refresh token", 500);
+        }
+    }
+
+    /**
+     * Log out the current session.
+     * The presented access token is denylisted until it expires and the refresh
+     * token family it was issued with is revoked.
+     */
+    public async logout(authId: string, tokenId?: string, tokenExpiresAt?: Date, sessionId?: string): Promise<void> {
+        try {
+            if (tokenId) {
+                await revokeToken({
+                    jti: tokenId,
+                    authId,
+                    expiresAt: tokenExpiresAt ?? new Date()
+                });
+            }
+
+            if (sessionId) {
+                await revokeRefreshTokenFamily(sessionId);
+                await revokeSession(sessionId);
+            }
+
+            await deleteExpiredRevokedTokens();
+        } catch (error) {
+            this.logger.error("Error in logout service:", error);
+            throw new AppError("Failed to logout", 500);
+        }
+    }
+
+    /**
+     * Revoke every session of an auth record.
+     * Bumping the token version invalidates all access tokens issued so far.
+     */
+    public async revokeAllSessions(authId: string): Promise<void> {
+        try {
+            await incrementTokenVersion(authId);
+            await revokeRefreshTokensByAuth(authId);
+            await revokeSessionsByAuthId(authId);
+        } catch (error) {
+            this.logger.error(`Error in revokeAllSessions service for auth ID ${authId}:`, error);
+            throw new AppError("Failed to revoke sessions", 500);
+        }
+    }
+
     /**
      * Change password
      */
-    public async changePassword(email: string, currentPassword: string, newPassword: string): Promise<void> {
+    public async changePassword(email: string, currentPassword: string, newPassword: string, context: RequestContext = {}): Promise<void> {
         try {
             // Find auth by email
             const auth = await findAuthByEmail(email, true);
@@ -183,12 +654,18 @@ export class AuthService {
                 throw new AppError("Current password is incorrect", 401);
             }
 
-            // Hash new password
-            const hashedPassword = await bcrypt.hash(newPassword, 10);
+            // Check and hash new password
+            await this.passwordService.assertAllowed(newPassword, PasswordService.contextFor(auth), auth.id, auth.password);
+            const hashedPassword = await this.passwordService.hash(newPassword);
 
             // Update password
             auth.password = hashedPassword;
             await updateAuth(auth);
+            await this.passwordService.remember(auth.id, hashedPassword);
+
+            // Sessions opened with the old password must not survive the change
+            await this.revokeAllSessions(auth.id);
+            await this.securityEventService.record(SecurityEventType.PASSWORD_CHANGE, { authId: auth.id, email: auth.email }, context);
         } catch (error) {
             if (error instanceof AppError) {
                 throw error;
@@ -201,7 +678,7 @@ export class AuthService {
     /**
      * Reset password (admin function)
      */
-    public async resetPassword(email: string, newPassword: string): Promise<void> {
+    public async resetPassword(email: string, newPassword: string, context: RequestContext = {}): Promise<void> {
         try {
             // Find auth by email
             const auth = await findAuthByEmail(email, true);
@@ -209,12 +686,23 @@ export class AuthService {
                 throw new AppError("User not found", 404);
             }
 
-            // Hash new password
-            const hashedPassword = await bcrypt.hash(newPassword, 10);
+            // Check and hash new password
+            await this.passwordService.assertAllowed(newPassword, PasswordService.contextFor(auth), auth.id, auth.password);
+            const hashedPassword = await this.passwordService.hash(newPassword);
 
             // Update password
             auth.password = hashedPassword;
             await updateAuth(auth);
+            await this.passwordService.remember(auth.id, hashedPassword);
+
+            // Sessions opened with the old password must not survive the reset
+            await this.revokeAllSessions(auth.id);
+            await this.securityEventService.record(
+                SecurityEventType.PASSWORD_RESET,
+                { authId: auth.id, email: auth.email },
+                context,
+                { method: "admin" }
+            );
         } catch (error) {
             if (error instanceof AppError) {
                 throw error;
@@ -224,32 +712,384 @@ export class AuthService {
         }
     }
 
+    /**
+     * Issue an access token and a new refresh token.
+     * When rotating, the previous token is marked as replaced by the new one.
+     */
+    private async issueTokens(auth: Auth, familyId: string = randomUUID(), previousTokenId?: string): Promise<AuthTokens> {
+        const refreshToken = generateOpaqueToken();
+        const expiresAt = this.getRefreshTokenExpiresAt();
+
+        const created = await createRefreshToken({
+            tokenHash: hashToken(refreshToken),
+            familyId,
+            authId: auth.id,
+            expiresAt
+        });
+
+        if (previousTokenId) {
+            const rotated = await markRefreshTokenRotated(previousTokenId, created.id);
+            if (!rotated) {
+                // Another request rotated the same token first: treat it as reuse
+                await revokeRefreshTokenFamily(familyId);
+                throw new AppError("Invalid refresh token", 401);
+            }
+        }
+
+        return {
+            token: this.generateToken(auth, familyId),
+            refreshToken,
+            expiresIn: this.getAccessTokenExpiresIn()
+        };
+    }
+
+    /**
+     * Finish a login: reset the failure counters and issue a session
+     */
+    private async completeLogin(auth: Auth, context: RequestContext): Promise<LoginSession> {
+        await this.loginAttemptService.recordSuccess(auth, context);
+
+        // Update last login
+        await updateLastLogin(auth.id);
+
+        // Record the session, its ID is the refresh token family of the login
+        const session = await this.sessionService.startSession(auth.id, this.getRefreshTokenExpiresAt(), context);
+        await this.securityEventService.record(
+            SecurityEventType.LOGIN_SUCCESS,
+            { authId: auth.id, email: auth.email },
+            context,
+            { sessionId: session.id }
+        );
+
+        // Return user/client data based on auth type
+        if (auth.type === AuthType.ADMIN && auth.user) {
+            return { 
+                user: auth.user, 
+                ...await this.issueTokens(auth, session.id),
+                type: AuthType.ADMIN
+            };
+        } else if (auth.type === AuthType.CLIENT && auth.client) {
+            return { 
+                client: auth.client, 
+                ...await this.issueTokens(auth, session.id),
+                type: AuthType.CLIENT
+            };
+        } else {
+            throw new AppError("Invalid account type", 500);
+        }
+    }
+
+    /**
+     * Check a TOTP or recovery code and consume it.
+     * A TOTP code is only accepted once; a recovery code is removed after use.
+     * The auth record must be loaded with its two-factor secrets.
+     */
+    private async consumeTwoFactorCode(auth: Auth, code: string): Promise<boolean> {
+        if (!auth.twoFactorSecret) {
+            return false;
+        }
+
+        const step = verifyTotp(auth.twoFactorSecret, code);
+        if (step !== null) {
+            if (step <= (auth.twoFactorLastUsedStep ?? -1)) {
+                return false;
+            }
+            auth.twoFactorLastUsedStep = step;
+            await updateAuth(auth);
+            return true;
+        }
+
+        const recoveryCodes = auth.twoFactorRecoveryCodes ?? [];
+        const index = recoveryCodes.indexOf(this.hashRecoveryCode(code));
+        if (index === -1) {
+            return false;
+        }
+
+        auth.twoFactorRecoveryCodes = recoveryCodes.filter((_, i) => i !== index);
+        await updateAuth(auth);
+        this.logger.info(`Recovery code used for auth ${auth.id}, ${auth.twoFactorRecoveryCodes.length} left`);
+        return true;
+    }
+
+    /**
+     * Generate a set of single-use recovery codes (xxxxx-xxxxx)
+     */
+    private generateRecoveryCodes(count: number = 10): string[] {
+        return Array.from({ length: count }, () => {
+            const code = randomBytes(5).toString("hex");
+            return `${code.slice(0, 5)}-${code.slice(5)}`;
+        });
+    }
+
+    /**
+     * Hash a recovery code, ignoring case and separators
+     */
+    private hashRecoveryCode(code: string): string {
+        return hashToken(code.toLowerCase().replace(/[^a-z0-9]/g, ""));
+    }
+
+    /**
+     * Generate a short-lived token that only the two-factor endpoints accept
+     */
+    private generateMfaToken(auth: Auth, purpose: MfaTokenPurpose): string {
+        const expiresIn = (process.env.MFA_TOKEN_EXPIRES_IN || "5m") as jwt.SignOptions["expiresIn"];
+        return JwtKeyService.getInstance().sign(
+            { id: auth.id, type: auth.type, purpose, tv: auth.tokenVersion ?? 0 },
+            { expiresIn, jwtid: randomUUID() }
+        );
+    }
+
+    /**
+     * Generate a token that acts as the target account on behalf of the impersonator
+     */
+    private generateImpersonationToken(target: Auth, impersonator: Auth): string {
+        const expiresIn = this.getImpersonationTokenExpiresIn() as jwt.SignOptions["expiresIn"];
+        const payload = {
+            id: target.id,
+            email: target.email,
+            type: target.type,
+            userId: target.userId,
+            clientId: target.clientId,
+            tv: target.tokenVersion ?? 0,
+            imp: true,
+            act: {
+                id: impersonator.id,
+                email: impersonator.email,
+                tv: impersonator.tokenVersion ?? 0
+            }
+        };
+        return JwtKeyService.getInstance().sign(payload, { expiresIn, jwtid: randomUUID() });
+    }
+
+    /**
+     * Impersonation token lifetime (IMPERSONATION_TOKEN_EXPIRES_IN, e.g. "15m")
+     */
+    private getImpersonationTokenExpiresIn(): string {
+        return process.env.IMPERSONATION_TOKEN_EXPIRES_IN || "15m";
+    }
+
+    /**
+     * Access token lifetime (JWT_EXPIRES_IN, e.g. "15m")
+     */
+    private getAccessTokenExpiresIn(): string {
+        return process.env.JWT_EXPIRES_IN || "15m";
+    }
+
+    /**
+     * Refresh token lifetime in days (REFRESH_TOKEN_EXPIRES_IN_DAYS)
+     */
+    private getRefreshTokenTtlDays(): number {
+        const days = parseInt(process.env.REFRESH_TOKEN_EXPIRES_IN_DAYS || "30");
+        return isNaN(days) || days <= 0 ? 30 : days;
+    }
+
+    /**
+     * Expiry of a refresh token issued now
+     */
+    private getRefreshTokenExpiresAt(): Date {
+        return new Date(Date.now() + this.getRefreshTokenTtlDays() * 24 * 60 * 60 * 1000);
+    }
+
+    /**
+     * Start the self-service password reset flow.
+     * Always resolves the same way, so callers cannot tell whether the email exists. The token is issued and mailed
+     * in the background: waiting for the database write and the mail only for existing accounts would let the
+     * response time reveal which emails are registered.
+     */
+    public async requestPasswordReset(email: string): Promise<void> {
+        void this.issuePasswordReset(email);
+    }
+
+    /**
+     * Issue a password reset token for an active account and mail it
+     * Failures are only logged: the caller has already answered the request.
+     */
+    private async issuePasswordReset(email: string): Promise<void> {
+        try {
+            const auth = await findAuthByEmail(email);
+            if (!auth || !auth.isActive) {
+                return;
+            }
+
+            const resetToken = generateOpaqueToken(32);
+            auth.passwordResetToken = hashToken(resetToken);
+            auth.passwordResetExpiry = new Date(Date.now() + this.getPasswordResetTtlMinutes() * 60 * 1000);
+            await updateAuth(auth);
+
+            const resetUrl = this.mailService.buildAppUrl("/reset-password", { token: resetToken });
+            await this.mailService.send({
+                to: auth.email,
+                subject: "Reset your AppFree password",
+                text: `We received a request to reset your password.\n\n` +
+                    `Use the link below to choose a new one. It expires in ${this.getPasswordResetTtlMinutes()} minutes and can only be used once.\n\n` +
+                    `${resetUrl}\n\n` +
+                    `If you did not request a password reset, you can ignore this email.`
+            });
+        } catch (error) {
+            this.logger.error("Error in requestPasswordReset service:", error);
+        }
+    }
+
+    /**
+     * Complete the self-service password reset flow with an emailed token
+     */
+    public async confirmPasswordReset(token: string, newPassword: string, context: RequestContext = {}): Promise<void> {
+        try {
+            const auth = await findAuthByPasswordResetToken(hashToken(token));
+            if (!auth || !auth.passwordResetExpiry || auth.passwordResetExpiry.getTime() <= Date.now()) {
+                throw new AppError("Invalid or expired reset token", 400);
+            }
+
+            if (!auth.isActive) {
+                throw new AppError("Account is inactive", 403);
+            }
+
+            await this.passwordService.assertAllowed(newPassword, PasswordService.contextFor(auth), auth.id);
+
+            // Update password and consume the token
+            auth.password = await this.passwordService.hash(newPassword);
+            auth.passwordResetToken = null;
+            auth.passwordResetExpiry = null;
+
+            // The reset link was delivered, so the address is proven as well
+            if (!auth.emailVerifiedAt) {
+                auth.emailVerifiedAt = new Date();
+                auth.emailVerificationToken = null;
+                auth.emailVerificationExpiry = null;
+            }
+            await updateAuth(auth);
+            await this.passwordService.remember(auth.id, auth.password);
+
+            await this.revokeAllSessions(auth.id);
+            await this.securityEventService.record(
+                SecurityEventType.PASSWORD_RESET,
+                { authId: auth.id, email: auth.email },
+                context,
+                { method: "email" }
+            );
+        } catch (error) {
+            if (error instanceof AppError) {
+                throw error;
+            }
+            this.logger.error("Error in confirmPasswordReset service:", error);
+            throw new AppError("Failed to reset password", 500);
+        }
+    }
+
+    /**
+     * Password reset token lifetime in minutes (PASSWORD_RESET_EXPIRES_IN_MINUTES)
+     */
+    private getPasswordResetTtlMinutes(): number {
+        const minutes = parseInt(process.env.PASSWORD_RESET_EXPIRES_IN_MINUTES || "60");
+        return isNaN(minutes) || minutes <= 0 ? 60 : minutes;
+    }
+
+    /**
+     * Confirm an email address with an emailed verification token
+     */
+    public async verifyEmail(token: string): Promise<void> {
+        try {
+            const auth = await findAuthByEmailVerificationToken(hashToken(token));
+            if (!auth || !auth.emailVerificationExpiry || auth.emailVerificationExpiry.getTime() <= Date.now()) {
+                throw new AppError("Invalid or expired verification token", 400);
+            }
+
+            auth.emailVerifiedAt = new Date();
+            auth.emailVerificationToken = null;
+            auth.emailVerificationExpiry = null;
+            await updateAuth(auth);
+        } catch (error) {
+            if (error instanceof AppError) {
+                throw error;
+            }
+            this.logger.error("Error in verifyEmail service:", error);
+            throw new AppError("Failed to verify email", 500);
+        }
+    }
+
+    /**
+     * Send a new verification email.
+     * Always resolves the same way, so callers cannot tell whether the email exists.
+     */
+    public async resendEmailVerification(email: string): Promise<void> {
+        try {
+            const auth = await findAuthByEmail(email);
+            if (!auth || !auth.isActive || auth.emailVerifiedAt) {
+                return;
+            }
+
+            await this.sendEmailVerification(auth);
+        } catch (error) {
+            // Never surface failures here: the response must not reveal whether the account exists
+            this.logger.error("Error in resendEmailVerification service:", error);
+        }
+    }
+
+    /**
+     * Issue a verification token for the account's current email and send it.
+     * A failed delivery is only logged: the account can ask for a new email.
+     */
+    public async sendEmailVerification(auth: Auth): Promise<void> {
+        const verificationToken = generateOpaqueToken(32);
+        auth.emailVerificationToken = hashToken(verificationToken);
+        auth.emailVerificationExpiry = new Date(Date.now() + this.getEmailVerificationTtlHours() * 60 * 60 * 1000);
+        await updateAuth(auth);
+
+        try {
+            const verifyUrl = this.mailService.buildAppUrl("/verify-email", { token: verificationToken });
+            await this.mailService.send({
+                to: auth.email,
+                subject: "Verify your AppFree email address",
+                text: `Please confirm that this is your email address.\n\n` +
+                    `Use the link below to verify it. It expires in ${this.getEmailVerificationTtlHours()} hours and can only be used once.\n\n` +
+                    `${verifyUrl}\n\n` +
+                    `If you did not create an AppFree account, you can ignore this email.`
+            });
+        } catch (error) {
+            this.logger.error(`Error sending verification email for auth ID ${auth.id}:`, error);
+        }
+    }
+
+    /**
+     * Email verification token lifetime in hours (EMAIL_VERIFICATION_EXPIRES_IN_HOURS)
+     */
+    private getEmailVerificationTtlHours(): number {
+        const hours = parseInt(process.env.EMAIL_VERIFICATION_EXPIRES_IN_HOURS || "48");
+        return isNaN(hours) || hours <= 0 ? 48 : hours;
+    }
+
+    /**
+     * Whether unverified accounts are refused at login (EMAIL_VERIFICATION_REQUIRED, default true)
+     */
+    private isEmailVerificationRequired(): boolean {
+        return process.env.EMAIL_VERIFICATION_REQUIRED !== "false";
+    }
+
     /**
      * Generate JWT token
+     * @param auth Auth record
+     * @param sessionId Refresh token family the access token belongs to
      */
-    private generateToken(auth: Auth): string {
-        const secret = process.env.JWT_SECRET || "your-secret-key";
-        const expiresIn = '3d';
+    private generateToken(auth: Auth, sessionId: string): string {
+        const expiresIn = this.getAccessTokenExpiresIn() as jwt.SignOptions["expiresIn"];
         const payload = {
             id: auth.id,
             email: auth.email,
             type: auth.type,
             userId: auth.userId,
-            clientId: auth.clientId
+            clientId: auth.clientId,
+            sid: sessionId,
+            tv: auth.tokenVersion ?? 0
         }
-        return jwt.sign(payload,
-            secret!,
-            {expiresIn}
-        );
+        return JwtKeyService.getInstance().sign(payload, { expiresIn, jwtid: randomUUID() });
     }
 
     /**
-     * Verify JWT token
+     * Verify JWT token against the keyset
      */
-    public verifyToken(token: string): any {
+    public verifyToken(token: string): TokenPayload {
         try {
-            const secret = process.env.JWT_SECRET || "your-secret-key";
-            return jwt.verify(token, secret) as jwt.JwtPayload;
+            return JwtKeyService.getInstance().verify(token) as TokenPayload;
         } catch (error) {
             throw new AppError("Invalid or expired token", 401);
         }
@@ -0,0 +1,166 @@
+import { AppError } from "../middlewares/error.middleware";
+import { LoggerService } from "./LoggerService";
+import { computeLedger } from "../utils/ledger.util";
+import {
+  findMonthlyBudgetById,
+  findAllMonthlyBudgetIds,
+  findDailyTransactionsByMonthlyBudget,
+  deriveCarriedOver,
+  rebuildMonthlyBudgetLedger
+} from "../repositories";
+
+/**
+ * Difference between the stored and the ledger-derived balances of a budget
+ */
+export interface LedgerDrift {
+  budgetId: string;
+  clientId: string;
+  year: number;
+  month: number;
+  storedCarriedOverAmount: number;
+  expectedCarriedOverAmount: number;
+  storedRemainingBalance: number;
+  expectedRemainingBalance: number;
+  transactions: { id: string; storedBalance: number; expectedBalance: number }[];
+}
+
+/**
+ * Outcome of a consistency check
+ */
+export interface LedgerCheckResult {
+  checked: number;
+  drifted: LedgerDrift[];
+}
+
+/**
+ * Outcome of a rebuild: only budgets whose balances changed are listed
+ */
+export interface LedgerRebuildResult {
+  rebuilt: number;
+  corrected: {
+    budgetId: string;
+    previousRemainingBalance: number;
+    remainingBalance: number;
+    transactionsUpdated: number;
+  }[];
+}
+
+/**
+ * Service for the budget ledger.
+ * The remaining balance of a budget and the running balance after each transaction are derived from the
+ * transactions in date order, starting from the budget amount plus the amount carried over from the latest earlier
+ * budget; this service checks and rebuilds them.
+ */
+export class BudgetLedgerService {
+  private logger = LoggerService.getInstance();
+
+  /**
+   * Compare the stored balances with the ledger without changing anything
+   * @param budgetId Monthly budget to check, every budget when omitted
+   * @throws AppError 404 when the budget does not exist
+   */
+  public async check(budgetId?: string): Promise<LedgerCheckResult> {
+    try {
+      const budgetIds = budgetId ? [budgetId] : await findAllMonthlyBudgetIds();
+      const drifted: LedgerDrift[] = [];
+
+      for (const id of budgetIds) {
+        const drift = await this.checkBudget(id);
+        if (drift) {
+          drifted.push(drift);
+        }
+      }
+
+      return { checked: budgetIds.length, drifted };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      this.logger.error(`Error in check ledger service for budget ${budgetId ?? "all"}:`, error);
+      throw new AppError("Failed to check budget ledger", 500);
+    }
+  }
+
+  /**
+   * Rebuild the stored balances from the ledger
+   * Each budget is rebuilt in its own database transaction with the budget row locked.
+   * @param budgetId Monthly budget to rebuild, every budget when omitted
+   * @throws AppError 404 when the budget does not exist
+   */
+  public async rebuild(budgetId?: string): Promise<LedgerRebuildResult> {
+    try {
+      if (budgetId && !await findMonthlyBudgetById(budgetId)) {
+        throw new AppError("Monthly budget not found", 404);
+      }
+
+      const budgetIds = budgetId ? [budgetId] : await findAllMonthlyBudgetIds();
+      const corrected: LedgerRebuildResult["corrected"] = [];
+
+      for (const id of budgetIds) {
+        const { budget, previousRemainingBalance, transactionsUpdated } = await rebuildMonthlyBudgetLedger(id);
+        if (transactionsUpdated > 0 || budget.remainingBalance !== previousRemainingBalance) {
+          corrected.push({
+            budgetId: id,
+            previousRemainingBalance,
+            remainingBalance: budget.remainingBalance,
+            transactionsUpdated
+          });
+        }
+      }
+
+      if (corrected.length > 0) {
+        this.logger.info(`Budget ledger rebuilt: ${corrected.length} of ${budgetIds.length} budget(s) corrected`);
+      }
+
+      return { rebuilt: budgetIds.length, corrected };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      this.logger.error(`Error in rebuild ledger service for budget ${budgetId ?? "all"}:`, error);
+      throw new AppError("Failed to rebuild budget ledger", 500);
+    }
+  }
+
+  /**
+   * Compare the stored balances of one budget with its ledger
+   * @returns The drift, or null when the budget is consistent
+   */
+  private async checkBudget(budgetId: string): Promise<LedgerDrift | null> {
+    const budget = await findMonthlyBudgetById(budgetId);
+    if (!budget) {
+      throw new AppError("Monthly budget not found", 404);
+    }
+
+    // The carried amount is derived the same way a rebuild does, not taken from the stored budget
+    const { carriedOverAmount, carriedOverFromId } = await deriveCarriedOver(budget);
+    const transactions = await findDailyTransactionsByMonthlyBudget(budgetId);
+    const { remainingBalance, runningBalances } = computeLedger({ ...budget, carriedOverAmount }, transactions);
+
+    const driftedTransactions = transactions
+      .filter(transaction => Number(transaction.remainingBalanceAfterTransaction) !== runningBalances.get(transaction.id))
+      .map(transaction => ({
+        id: transaction.id,
+        storedBalance: Number(transaction.remainingBalanceAfterTransaction),
+        expectedBalance: runningBalances.get(transaction.id)!
+      }));
+
+    const carryConsistent = Number(budget.carriedOverAmount) === carriedOverAmount
+      && (budget.carriedOverFromId ?? null) === carriedOverFromId;
+    if (carryConsistent && Number(budget.remainingBalance) === remainingBalance && driftedTransactions.length === 0) {
+      return null;
+    }
+
+    return {
+      budgetId,
+      clientId: budget.clientId,
+      year: budget.year,
+      month: budget.month,
+      storedCarriedOverAmount: Number(budget.carriedOverAmount),
+      expectedCarriedOverAmount: carriedOverAmount,
+      storedRemainingBalance: Number(budget.remainingBalance),
+      expectedRemainingBalance: remainingBalance,
+      transactions: driftedTransactions
+    };
+  }
+}
@@ -0,0 +1,228 @@
+import { CategoryBudget } from "../entities/CategoryBudget";
+import { MonthlyBudget } from "../entities/MonthlyBudget";
+import { AppError } from "../middlewares/error.middleware";
+import { LoggerService } from "./LoggerService";
+import { getBudgetTotal, roundCents } from "../utils/ledger.util";
+import {
+  findCategoryById,
+  findMonthlyBudgetById,
+  findCategoryBudgetsByMonthlyBudget,
+  findCategoryBudgetById,
+  saveCategoryBudgetWithinBudget,
+  deleteCategoryBudget,
+  sumDailyTransactionsByCategory
+} from "../repositories";
+
+/**
+ * A category budget with its limit resolved and its spending so far
+ */
+export interface Envelope {
+  id: string;
+  categoryId: string;
+  categoryName: string;
+  amount: number;
+  isPercentage: boolean;
+  limit: number;
+  spent: number;
+  remaining: number;
+}
+
+/**
+ * Envelopes of a monthly budget
+ * unallocated is the part of the budget total not assigned to any category.
+ */
+export interface BudgetEnvelopes {
+  envelopes: Envelope[];
+  allocated: number;
+  unallocated: number;
+}
+
+/**
+ * Service for category budgets (envelopes) within a monthly budget.
+ * Spending per envelope is the net of the budget's transactions in that category.
+ */
+export class CategoryBudgetService {
+  private logger = LoggerService.getInstance();
+
+  /**
+   * Get the envelopes of a monthly budget with their spent and remaining amounts
+   * @param budget Monthly budget
+   */
+  public async getEnvelopes(budget: MonthlyBudget): Promise<BudgetEnvelopes> {
+    try {
+      const categoryBudgets = await findCategoryBudgetsByMonthlyBudget(budget.id);
+      const spending = await sumDailyTransactionsByCategory(budget.id);
+      const spentByCategory = new Map(spending.map(row => [row.categoryId, row.spent]));
+
+      const envelopes = categoryBudgets.map(categoryBudget => {
+        const limit = this.getLimit(categoryBudget, budget);
+        const spent = roundCents(spentByCategory.get(categoryBudget.categoryId) ?? 0);
+        return {
+          id: categoryBudget.id,
+          categoryId: categoryBudget.categoryId,
+          categoryName: categoryBudget.category.name,
+          amount: Number(categoryBudget.amount),
+          isPercentage: categoryBudget.isPercentage,
+          limit,
+          spent,
+          remaining: roundCents(limit - spent)
+        };
+      });
+
+      const allocated = roundCents(envelopes.reduce((total, envelope) => total + envelope.limit, 0));
+      return {
+        envelopes,
+        allocated,
+        unallocated: roundCents(getBudgetTotal(budget) - allocated)
+      };
+    } catch (error) {
+      this.logger.error(`Error in getEnvelopes service for budget ID ${budget.id}:`, error);
+      throw new AppError("Failed to get category budgets", 500);
+    }
+  }
+
+  /**
+   * Add an envelope for a category to a monthly budget
+   * The envelopes are checked and saved under a lock on the budget, so concurrent requests cannot over-allocate it.
+   * @throws AppError 404 when the budget or category does not exist, 409 when the category already has an envelope,
+   * 400 when the limits would exceed the budget total
+   */
+  public async createCategoryBudget(
+    monthlyBudgetId: string,
+    data: { categoryId: string; amount: number; isPercentage: boolean }
+  ): Promise<CategoryBudget> {
+    try {
+      await this.getBudget(monthlyBudgetId);
+
+      const category = await findCategoryById(data.categoryId);
+      if (!category) {
+        throw new AppError("Category not found", 404);
+      }
+
+      this.assertAmount(data.amount, data.isPercentage);
+
+      return await saveCategoryBudgetWithinBudget({ monthlyBudgetId, ...data }, (budget, others) => {
+        if (others.some(other => other.categoryId === data.categoryId)) {
+          throw new AppError("Category already has a budget in this month", 409);
+        }
+        this.assertWithinBudget(budget, [...others, data]);
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      this.logger.error(`Error in createCategoryBudget service for budget ID ${monthlyBudgetId}:`, error);
+      throw new AppError("Failed to create category budget", 500);
+    }
+  }
+
+  /**
+   * Change the limit of an envelope
+   * The envelopes are checked and saved under a lock on the budget, like new ones.
+   * @throws AppError 404 when the envelope does not belong to the budget, 400 when the limits would exceed the budget total
+   */
+  public async updateCategoryBudget(
+    monthlyBudgetId: string,
+    id: string,
+    data: { amount?: number; isPercentage?: boolean }
+  ): Promise<CategoryBudget> {
+    try {
+      const categoryBudget = await this.getCategoryBudget(monthlyBudgetId, id);
+
+      if (data.amount !== undefined) categoryBudget.amount = data.amount;
+      if (data.isPercentage !== undefined) categoryBudget.isPercentage = data.isPercentage;
+
+      this.assertAmount(Number(categoryBudget.amount), categoryBudget.isPercentage);
+
+      return await saveCategoryBudgetWithinBudget(categoryBudget, (budget, others) => {
+        this.assertWithinBudget(budget, [...others, categoryBudget]);
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      this.logger.error(`Error in updateCategoryBudget service for ID ${id}:`, error);
+      throw new AppError("Failed to update category budget", 500);
+    }
+  }
+
+  /**
+   * Remove an envelope; its transactions count as unallocated spending again
+   * @throws AppError 404 when the envelope does not belong to the budget
+   */
+  public async deleteCategoryBudget(monthlyBudgetId: string, id: string): Promise<void> {
+    try {
+      const categoryBudget = await this.getCategoryBudget(monthlyBudgetId, id);
+      await deleteCategoryBudget(categoryBudget);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      this.logger.error(`Error in deleteCategoryBudget service for ID ${id}:`, error);
+      throw new AppError("Failed to delete category budget", 500);
+    }
+  }
+
+  /**
+   * Check that the envelopes of a budget fit in its budget total
+   * @param budget Monthly budget, with a changed budget amount if any
+   * @param categoryBudgets All envelopes of the budget, with the new or changed one
+   * @throws AppError 400 when the limits would exceed the budget total
+   */
+  public assertWithinBudget(
+    budget: MonthlyBudget,
+    categoryBudgets: Pick<CategoryBudget, "amount" | "isPercentage">[]
+  ): void {
+    const allocated = categoryBudgets.reduce((total, envelope) => total + this.getLimit(envelope, budget), 0);
+
+    if (roundCents(allocated) > getBudgetTotal(budget)) {
+      throw new AppError("Category budgets exceed the monthly budget", 400);
+    }
+  }
+
+  /**
+   * Limit of an envelope: its amount, or that percentage of the budget total
+   */
+  private getLimit(categoryBudget: Pick<CategoryBudget, "amount" | "isPercentage">, budget: MonthlyBudget): number {
+    return categoryBudget.isPercentage
+      ? roundCents((getBudgetTotal(budget) * Number(categoryBudget.amount)) / 100)
+      : Number(categoryBudget.amount);
+  }
+
+  /**
+   * Get a monthly budget
+   * @throws AppError 404 when it does not exist
+   */
+  private async getBudget(monthlyBudgetId: string): Promise<MonthlyBudget> {
+    const budget = await findMonthlyBudgetById(monthlyBudgetId);
+    if (!budget) {
+      throw new AppError("Monthly budget not found", 404);
+    }
+    return budget;
+  }
+
+  /**
+   * Get an envelope of a monthly budget
+   * @throws AppError 404 when it does not exist or belongs to another budget
+   */
+  private async getCategoryBudget(monthlyBudgetId: string, id: string): Promise<CategoryBudget> {
+    const categoryBudget = await findCategoryBudgetById(id);
+    if (!categoryBudget || categoryBudget.monthlyBudgetId !== monthlyBudgetId) {
+      throw new AppError("Category budget not found", 404);
+    }
+    return categoryBudget;
+  }
+
+  /**
+   * Check an envelope amount
+   * @throws AppError 400 when it is negative or a percentage above 100
+   */
+  private assertAmount(amount: number, isPercentage: boolean): void {
+    if (amount < 0) {
+      throw new AppError("Amount must be a positive number", 400);
+    }
+    if (isPercentage && amount > 100) {
+      throw new AppError("Percentage must be between 0 and 100", 400);
+    }
+  }
+}
@@ -0,0 +1,192 @@
+import { Client, InvitationStatus } from "../entities/Client";
+import { AppError } from "../middlewares/error.middleware";
+import { LoggerService } from "./LoggerService";
+import { MailService } from "./MailService";
+import { AuthService } from "./AuthService";
+import { PasswordService } from "./PasswordService";
+import { generateOpaqueToken, hashToken } from "../utils/token.util";
+import {
+  findClientById,
+  updateClient,
+  findAuthByClientId,
+  findAuthByEmail,
+  findClientInvitationByHash,
+  createClientInvitation,
+  markClientInvitationAccepted,
+  revokeOpenClientInvitations
+} from "../repositories";
+
+/**
+ * Service for client invitations.
+ * Managers invite clients instead of choosing their password: the client gets a single-use,
+ * expiring link by email and sets their own password when accepting it.
+ */
+export class ClientInvitationService {
+  private logger = LoggerService.getInstance();
+  private mailService = MailService.getInstance();
+  private authService = new AuthService();
+  private passwordService = new PasswordService();
+
+  /**
+   * Invite a client that does not have a login yet.
+   * Any invitation still open for the client is revoked, so only the latest link works.
+   */
+  public async inviteClient(clientId: string, invitedById?: string): Promise<Client> {
+    try {
+      const client = await findClientById(clientId);
+      if (!client) {
+        throw new AppError("Client not found", 404);
+      }
+
+      if (!client.isActive) {
+        throw new AppError("Client is inactive", 400);
+      }
+
+      const auth = await findAuthByClientId(clientId);
+      if (auth) {
+        throw new AppError("Client already has an account", 409);
+      }
+
+      await revokeOpenClientInvitations(clientId);
+
+      const token = generateOpaqueToken(32);
+      await createClientInvitation({
+        tokenHash: hashToken(token),
+        clientId,
+        email: client.email,
+        invitedById,
+        expiresAt: new Date(Date.now() + this.getInvitationTtlHours() * 60 * 60 * 1000)
+      });
+
+      client.invitationStatus = InvitationStatus.PENDING;
+      const savedClient = await updateClient(client);
+
+      const invitationUrl = this.mailService.buildAppUrl("/accept-invitation", { token });
+      await this.mailService.send({
+        to: client.email,
+        subject: "You have been invited to AppFree",
+        text: `Hello ${client.name},\n\n` +
+          `Your financial manager invited you to AppFree.\n\n` +
+          `Use the link below to choose your password and activate your account. ` +
+          `It expires in ${this.getInvitationTtlHours()} hours and can only be used once.\n\n` +
+          `${invitationUrl}`
+      });
+
+      return savedClient;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      this.logger.error(`Error in inviteClient service for client ID ${clientId}:`, error);
+      throw new AppError("Failed to invite client", 500);
+    }
+  }
+
+  /**
+   * Send a new invitation link to a client whose invitation is still pending
+   */
+  public async resendInvitation(clientId: string, invitedById?: string): Promise<Client> {
+    try {
+      const client = await findClientById(clientId);
+      if (!client) {
+        throw new AppError("Client not found", 404);
+      }
+
+      if (client.invitationStatus !== InvitationStatus.PENDING) {
+        throw new AppError("Client has no pending invitation", 400);
+      }
+
+      return await this.inviteClient(clientId, invitedById);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      this.logger.error(`Error in resendInvitation service for client ID ${clientId}:`, error);
+      throw new AppError("Failed to resend invitation", 500);
+    }
+  }
+
+  /**
+   * Revoke a client's pending invitation
+   */
+  public async revokeInvitation(clientId: string): Promise<Client> {
+    try {
+      const client = await findClientById(clientId);
+      if (!client) {
+        throw new AppError("Client not found", 404);
+      }
+
+      if (client.invitationStatus !== InvitationStatus.PENDING) {
+        throw new AppError("Client has no pending invitation", 400);
+      }
+
+      await revokeOpenClientInvitations(clientId);
+
+      client.invitationStatus = InvitationStatus.REVOKED;
+      return await updateClient(client);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      this.logger.error(`Error in revokeInvitation service for client ID ${clientId}:`, error);
+      throw new AppError("Failed to revoke invitation", 500);
+    }
+  }
+
+  /**
+   * Accept an invitation: create the client's login with the password they chose
+   */
+  public async acceptInvitation(token: string, password: string): Promise<Client> {
+    try {
+      const invitation = await findClientInvitationByHash(hashToken(token));
+      if (
+        !invitation ||
+        invitation.acceptedAt ||
+        invitation.revokedAt ||
+        invitation.expiresAt.getTime() <= Date.now()
+      ) {
+        throw new AppError("Invalid or expired invitation", 400);
+      }
+
+      const { client } = invitation;
+      if (!client || !client.isActive) {
+        throw new AppError("Client is inactive", 403);
+      }
+
+      // Reject what registerClient would reject before consuming the invitation,
+      // so the client can retry with the same link
+      await this.passwordService.assertAllowed(password, { name: client.name, email: client.email, cpf: client.cpf });
+      if (await findAuthByEmail(client.email)) {
+        throw new AppError("Email is already in use for authentication", 409);
+      }
+
+      // Consume the invitation before creating the login, so two concurrent requests cannot both create one
+      const accepted = await markClientInvitationAccepted(invitation.id);
+      if (!accepted) {
+        throw new AppError("Invalid or expired invitation", 400);
+      }
+
+      // The invitation was delivered to the address it was sent to, so only that address is proven.
+      // If the client's email changed since, the new address has to be verified like any other.
+      const emailProven = invitation.email === client.email;
+      await this.authService.registerClient(client, password, emailProven);
+
+      client.invitationStatus = InvitationStatus.ACCEPTED;
+      return await updateClient(client);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      this.logger.error("Error in acceptInvitation service:", error);
+      throw new AppError("Failed to accept invitation", 500);
+    }
+  }
+
+  /**
+   * Invitation lifetime in hours (CLIENT_INVITATION_EXPIRES_IN_HOURS)
+   */
+  private getInvitationTtlHours(): number {
+    const hours = parseInt(process.env.CLIENT_INVITATION_EXPIRES_IN_HOURS || "72");
+    return isNaN(hours) || hours <= 0 ? 72 : hours;
+  }
+}
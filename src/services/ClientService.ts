@@ -1,8 +1,13 @@
+import * as bcrypt from "bcryptjs";
 import { Client, MaritalStatus } from "../entities/Client";
 import { User } from "../entities/User";
 import { AppError } from "../middlewares/error.middleware";
 import { LoggerService } from "./LoggerService";
-import * as bcrypt from "bcryptjs";
+import { AuthService } from "./AuthService";
+import { PasswordService } from "./PasswordService";
+import { SecurityEventService } from "./SecurityEventService";
+import { SecurityEventType } from "../entities/SecurityEvent";
+import { RequestContext } from "../utils/request.util";
 import {
   findUserById,
   findAllClients,
@@ -12,15 +17,19 @@ import {
   findClientByCpf,
   createClient,
   updateClient,
+  updateClientWithAuth,
   deleteClient,
   findAllClientsPaginated,
   findClientsByManagerPaginated,
   findAuthByEmail,
-  updateAuth
+  findAuthByClientId
 } from "../repositories";
 
 export class ClientService {
   private logger = LoggerService.getInstance();
+  private authService = new AuthService();
+  private passwordService = new PasswordService();
+  private securityEventService = new SecurityEventService();
 
   /**
    * Get all clients
@@ -192,7 +201,7 @@ export class ClientService {
         zipCode,
         complement,
         maritalStatus,
-        manager: manager as User // Type casting needed due to Omit<User, "password">
+        manager
       });
 
       return newClient;
@@ -227,7 +236,10 @@ export class ClientService {
       isActive?: boolean;
       managerId?: string;
       password?: string;
-    }
+      currentPassword?: string;
+    },
+    context: RequestContext = {},
+    options: { requireCurrentPassword?: boolean } = {}
   ): Promise<Client> {
     try {
       const {
@@ -246,18 +258,39 @@ export class ClientService {
         maritalStatus,
         isActive,
         managerId,
-        password
+        password,
+        currentPassword
       } = updateData;
 
-      // Find client
+      // Find client and its login, if it has one
       const client = await this.getClientById(id);
+      const auth = await findAuthByClientId(id);
+      const wasActive = client.isActive;
+
+      const emailChanged = !!email && email !== client.email;
+
+      // Credentials of the own login are only changed with the current password
+      if (options.requireCurrentPassword && auth && (emailChanged || password)) {
+        if (!currentPassword) {
+          throw new AppError("Current password is required", 400);
+        }
+        const login = await findAuthByEmail(auth.email, true);
+        if (!login || !(await bcrypt.compare(currentPassword, login.password))) {
+          throw new AppError("Current password is incorrect", 401);
+        }
+      }
 
-      // If email is being updated, check it's not already in use
-      if (email && email !== client.email) {
+      // If email is being updated, check it's not already in use by a client or another login
+      if (emailChanged) {
         const existingClient = await findClientByEmail(email);
         if (existingClient) {
           throw new AppError("Email is already in use", 409);
         }
+
+        const existingAuth = await findAuthByEmail(email);
+        if (existingAuth && existingAuth.id !== auth?.id) {
+          throw new AppError("Email is already in use", 409);
+        }
       }
 
       // If CPF is being updated, check it's not already in use
@@ -271,7 +304,7 @@ export class ClientService {
       // If manager is being updated, validate new manager exists
       let manager: User | null = null;
       if (managerId && managerId !== client.managerId) {
-        manager = await findUserById(managerId) as User;
+        manager = await findUserById(managerId);
         if (!manager) {
           throw new AppError("Manager not found", 404);
         }
@@ -294,22 +327,42 @@ export class ClientService {
       if (isActive !== undefined) client.isActive = isActive;
       if (manager) client.manager = manager;
 
-      // Update password if provided
-      if (password) {
-        // Find auth record for this client
-        const auth = await findAuthByEmail(client.email, true);
-        if (auth) {
-          // Hash the new password
-          const hashedPassword = await bcrypt.hash(password, 10);
-          
-          // Update auth record with new password
-          auth.password = hashedPassword;
-          await updateAuth(auth);
+      // Credentials live on the login: keep its email in sync, the new address has to be verified again
+      if (auth) {
+        if (emailChanged) {
+          auth.email = email;
+          auth.emailVerifiedAt = null;
         }
+        if (password) {
+          await this.passwordService.assertAllowed(password, { name: client.name, email: client.email, cpf: client.cpf }, auth.id);
+          auth.password = await this.passwordService.hash(password);
+        }
+      }
+
+      // Save the client and its login together
+      const savedClient = await updateClientWithAuth(client, auth);
+
+      if (auth && password) {
+        await this.passwordService.remember(auth.id, auth.password);
+      }
+
+      if (auth && emailChanged) {
+        await this.authService.sendEmailVerification(auth);
+      }
+
+      // Sessions opened with the old password, or by a deactivated client, must not survive
+      if (auth && (password || isActive === false)) {
+        await this.authService.revokeAllSessions(auth.id);
+      }
+
+      if (auth && password) {
+        await this.securityEventService.record(SecurityEventType.PASSWORD_CHANGE, { authId: auth.id, email: auth.email }, context);
+      }
+      if (auth && wasActive && isActive === false) {
+        await this.securityEventService.record(SecurityEventType.ACCOUNT_DEACTIVATION, { authId: auth.id, email: auth.email }, context);
       }
 
-      // Save updated client
-      return await updateClient(client);
+      return savedClient;
     } catch (error) {
       if (error instanceof AppError) {
         throw error;
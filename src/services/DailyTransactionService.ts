@@ -7,16 +7,15 @@ import {
   findDailyTransactionsByMonth,
   findDailyTransactionsByMonthlyBudget,
   findDailyTransactionById,
-  createDailyTransaction,
-  updateDailyTransaction,
-  deleteDailyTransaction,
+  createDailyTransactionWithBalance,
+  updateDailyTransactionWithBalance,
+  deleteDailyTransactionWithBalance,
   getDailyTransactionsSumByDate,
   getDailyTransactionsSumByMonth,
   findClientById,
-  findCategoryById,
-  findMonthlyBudgetById,
-  findMonthlyBudgetByYearAndMonth
+  findCategoryById
 } from "../repositories";
+import type { DailyTransactionChanges } from "../repositories/dailyTransactionRepository";
 import { MonthlyBudgetService } from "./MonthlyBudgetService";
 
 export class DailyTransactionService {
@@ -119,6 +118,7 @@ export class DailyTransactionService {
 
   /**
    * Create a new daily transaction
+   * The transaction is saved and applied to its budget's remaining balance in one database transaction.
    */
   public async createDailyTransaction(transactionData: {
     description: string;
@@ -150,34 +150,16 @@ export class DailyTransactionService {
       const month = date.getMonth() + 1; // JavaScript months are 0-indexed
       const monthlyBudget = await this.monthlyBudgetService.getOrCreateMonthlyBudget(clientId, year, month);
 
-      // Calculate remaining balance after transaction
-      let remainingBalanceAfterTransaction = monthlyBudget.remainingBalance;
-      if (type === TransactionType.EXPENSE) {
-        remainingBalanceAfterTransaction -= amount;
-      } else {
-        remainingBalanceAfterTransaction += amount;
-      }
-
-      // Create transaction
-      const transaction = await createDailyTransaction({
+      // Create transaction; the remaining balance after it is computed under the budget's row lock
+      return await createDailyTransactionWithBalance({
         description,
         amount,
         type,
         date,
-        remainingBalanceAfterTransaction,
         clientId,
         categoryId,
         monthlyBudgetId: monthlyBudget.id
       });
-
-      // Update monthly budget remaining balance
-      await this.monthlyBudgetService.updateRemainingBalance(
-        monthlyBudget.id,
-        amount,
-        type === TransactionType.INCOME // If income, add to remaining balance
-      );
-
-      return transaction;
     } catch (error) {
       if (error instanceof AppError) {
         throw error;
@@ -189,6 +171,7 @@ export class DailyTransactionService {
 
   /**
    * Update a daily transaction
+   * The balances of its budget, and of the previous budget when the month changes, are rebuilt in the same database transaction.
    */
   public async updateDailyTransaction(
     id: string,
@@ -205,17 +188,6 @@ export class DailyTransactionService {
 
       // Get transaction
       const transaction = await this.getDailyTransactionById(id);
-      
-      // Store original values for comparison
-      const originalAmount = transaction.amount;
-      const originalType = transaction.type;
-      const originalDate = transaction.date;
-      
-      // Check if date is changing to a different month
-      let monthChanged = false;
-      if (date && (date.getMonth() !== originalDate.getMonth() || date.getFullYear() !== originalDate.getFullYear())) {
-        monthChanged = true;
-      }
 
       // Validate category exists if provided
       if (categoryId && categoryId !== transaction.categoryId) {
@@ -223,82 +195,29 @@ export class DailyTransactionService {
         if (!category) {
           throw new AppError("Category not found", 404);
         }
-        transaction.category = category;
-        transaction.categoryId = categoryId;
       }
 
-      // Update transaction properties
-      if (description !== undefined) transaction.description = description;
-      if (type !== undefined) transaction.type = type;
-      if (date !== undefined) transaction.date = date;
+      // Only the given fields are changed, on the row read under its lock
+      const changes: DailyTransactionChanges = {};
+      if (description !== undefined) changes.description = description;
+      if (amount !== undefined) changes.amount = amount;
+      if (type !== undefined) changes.type = type;
+      if (date !== undefined) changes.date = date;
+      if (categoryId !== undefined) changes.categoryId = categoryId;
 
-      // Handle amount and balance updates
-      if (amount !== undefined || type !== undefined || monthChanged) {
-        // Get the current monthly budget
-        const currentBudget = await findMonthlyBudgetById(transaction.monthlyBudgetId);
-        if (!currentBudget) {
-          throw new AppError("Monthly budget not found", 404);
-        }
-
-        // Reverse the effect of the original transaction on the current budget
-        await this.monthlyBudgetService.updateRemainingBalance(
-          currentBudget.id,
-          originalAmount,
-          originalType !== TransactionType.INCOME // If it was an expense, add it back
+      // A new date belongs to the budget of its month, which may be another one
+      if (date) {
+        const budget = await this.monthlyBudgetService.getOrCreateMonthlyBudget(
+          transaction.clientId,
+          date.getFullYear(),
+          date.getMonth() + 1
         );
-
-        // If month changed, get or create the new monthly budget
-        if (monthChanged) {
-          const newYear = date!.getFullYear();
-          const newMonth = date!.getMonth() + 1;
-          const newBudget = await this.monthlyBudgetService.getOrCreateMonthlyBudget(
-            transaction.clientId,
-            newYear,
-            newMonth
-          );
-          
-          transaction.monthlyBudget = newBudget;
-          transaction.monthlyBudgetId = newBudget.id;
-          
-          // Apply the new transaction to the new budget
-          const newAmount = amount !== undefined ? amount : originalAmount;
-          const newType = type !== undefined ? type : originalType;
-          
-          await this.monthlyBudgetService.updateRemainingBalance(
-            newBudget.id,
-            newAmount,
-            newType === TransactionType.INCOME // If income, add to remaining balance
-          );
-          
-          // Update remaining balance after transaction
-          transaction.remainingBalanceAfterTransaction = newType === TransactionType.EXPENSE
-            ? newBudget.remainingBalance - newAmount
-            : newBudget.remainingBalance + newAmount;
-        } else {
-          // Apply the updated transaction to the current budget
-          const newAmount = amount !== undefined ? amount : originalAmount;
-          const newType = type !== undefined ? type : originalType;
-          
-          await this.monthlyBudgetService.updateRemainingBalance(
-            currentBudget.id,
-            newAmount,
-            newType === TransactionType.INCOME // If income, add to remaining balance
-          );
-          
-          // Update remaining balance after transaction
-          transaction.remainingBalanceAfterTransaction = newType === TransactionType.EXPENSE
-            ? currentBudget.remainingBalance - newAmount
-            : currentBudget.remainingBalance + newAmount;
-        }
-        
-        // Update amount if provided
-        if (amount !== undefined) {
-          transaction.amount = amount;
-        }
+        changes.monthlyBudgetId = budget.id;
       }
 
-      // Save updated transaction
-      return await updateDailyTransaction(transaction);
+      // Every change goes through the ledger: even a new date within the month reorders the running balances.
+      // The budgets of the old and new month are rebuilt under their locks.
+      return await updateDailyTransactionWithBalance(id, changes);
     } catch (error) {
       if (error instanceof AppError) {
         throw error;
@@ -310,27 +229,15 @@ export class DailyTransactionService {
 
   /**
    * Delete a daily transaction
+   * Its effect on the budget's remaining balance is reversed in the same database transaction.
    */
   public async deleteDailyTransaction(id: string): Promise<void> {
     try {
-      // Get transaction
-      const transaction = await this.getDailyTransactionById(id);
-      
-      // Get monthly budget
-      const monthlyBudget = await findMonthlyBudgetById(transaction.monthlyBudgetId);
-      if (!monthlyBudget) {
-        throw new AppError("Monthly budget not found", 404);
-      }
-      
-      // Reverse the effect of the transaction on the budget
-      await this.monthlyBudgetService.updateRemainingBalance(
-        monthlyBudget.id,
-        transaction.amount,
-        transaction.type !== TransactionType.INCOME // If it was an expense, add it back
-      );
-      
-      // Delete transaction
-      await deleteDailyTransaction(transaction);
+      // Check the transaction exists
+      await this.getDailyTransactionById(id);
+
+      // Delete transaction and reverse its effect on the budget
+      await deleteDailyTransactionWithBalance(id);
     } catch (error) {
       if (error instanceof AppError) {
         throw error;
@@ -2,10 +2,11 @@ import { AppDataSource } from "../config/data-source";
 import { User } from "../entities/User";
 import { Client } from "../entities/Client";
 import { Role, RoleType } from "../entities/Role";
+import { Permission, PermissionType } from "../entities/Permission";
 import { Auth, AuthType } from "../entities/Auth";
 import { Category } from "../entities/Category";
 import { Transaction, TransactionType } from "../entities/Transaction";
-import { MaritalStatus } from "../entities/Client";
+import { InvitationStatus, MaritalStatus } from "../entities/Client";
 import { MonthlyBudget } from "../entities/MonthlyBudget";
 import { DailyTransaction } from "../entities/DailyTransaction";
 import * as bcrypt from "bcryptjs";
@@ -17,11 +18,77 @@ import { LoggerService } from "./LoggerService";
 export class DatabaseService {
     private static logger = LoggerService.getInstance();
 
+    /**
+     * Permissions granted to the built-in roles when they have none yet
+     */
+    private static defaultRolePermissions: Record<RoleType, PermissionType[]> = {
+        [RoleType.ADMIN]: Object.values(PermissionType),
+        [RoleType.MANAGER]: [
+            PermissionType.CLIENTS_READ,
+            PermissionType.CLIENTS_WRITE,
+            PermissionType.BUDGETS_READ,
+            PermissionType.BUDGETS_MANAGE,
+            PermissionType.TRANSACTIONS_READ,
+            PermissionType.TRANSACTIONS_MANAGE,
+            PermissionType.CATEGORIES_READ,
+            PermissionType.STATS_READ
+        ],
+        [RoleType.CLIENT]: [
+            PermissionType.BUDGETS_READ,
+            PermissionType.BUDGETS_MANAGE,
+            PermissionType.TRANSACTIONS_READ,
+            PermissionType.TRANSACTIONS_MANAGE,
+            PermissionType.CATEGORIES_READ
+        ]
+    };
+
+    /**
+     * Create missing permissions and grant the defaults to built-in roles without permissions.
+     * The built-in admin role also gets permissions added after it was seeded.
+     * Safe to run on every seed: permissions edited by admins are left alone.
+     */
+    static async seedPermissions(): Promise<void> {
+        const permissionRepository = AppDataSource.getRepository(Permission);
+        const existing = await permissionRepository.find();
+        const missing = Object.values(PermissionType)
+            .filter(name => !existing.some(permission => permission.name === name))
+            .map(name => permissionRepository.create({ name }));
+
+        if (missing.length > 0) {
+            await permissionRepository.save(missing);
+            this.logger.info(`Created ${missing.length} permission(s)`);
+        }
+
+        const permissions = [...existing, ...missing];
+        const roleRepository = AppDataSource.getRepository(Role);
+        const roles = await roleRepository.find({ relations: ["permissions"] });
+
+        for (const role of roles) {
+            const defaults = this.defaultRolePermissions[role.name as RoleType];
+            if (!defaults) {
+                continue;
+            }
+
+            if (role.permissions.length === 0) {
+                role.permissions = permissions.filter(permission => defaults.includes(permission.name));
+                await roleRepository.save(role);
+                this.logger.info(`Default permissions granted to role ${role.name}`);
+            } else if (role.name === RoleType.ADMIN && missing.length > 0) {
+                role.permissions = [...role.permissions, ...missing];
+                await roleRepository.save(role);
+                this.logger.info(`New permissions granted to role ${role.name}`);
+            }
+        }
+    }
+
     /**
      * Seed the database with initial data
      */
     static async seedDatabase(): Promise<void> {
         try {
+            // Permissions are seeded on every run, also for databases seeded before they existed
+            await this.seedPermissions();
+
             // Check if database is already seeded
             const userRepository = AppDataSource.getRepository(User);
             const existingUsers = await userRepository.count();
@@ -51,11 +118,13 @@ export class DatabaseService {
             await roleRepository.save([adminRole, managerRole, clientRole]);
             this.logger.info("Roles created");
 
+            // Grant the default permissions to the new roles
+            await this.seedPermissions();
+
             // Create admin user
             const adminUser = userRepository.create({
                 name: "Admin User",
                 email: "admin@example.com",
-                password: await bcrypt.hash("admin123", 10),
                 role: adminRole
             });
 
@@ -66,7 +135,6 @@ export class DatabaseService {
             const managerUser = userRepository.create({
                 name: "Manager User",
                 email: "manager@example.com",
-                password: await bcrypt.hash("manager123", 10),
                 role: managerRole
             });
 
@@ -78,15 +146,17 @@ export class DatabaseService {
             const userAuths = authRepository.create([
                 {
                     email: adminUser.email,
-                    password: adminUser.password,
+                    password: await bcrypt.hash("admin123", 10),
                     type: AuthType.ADMIN,
-                    userId: adminUser.id
+                    userId: adminUser.id,
+                    emailVerifiedAt: new Date()
                 },
                 {
                     email: managerUser.email,
-                    password: managerUser.password,
+                    password: await bcrypt.hash("manager123", 10),
                     type: AuthType.ADMIN,
-                    userId: managerUser.id
+                    userId: managerUser.id,
+                    emailVerifiedAt: new Date()
                 }
             ]);
 
@@ -109,6 +179,7 @@ export class DatabaseService {
                 zipCode: "12345-678",
                 complement: "Apt 101",
                 maritalStatus: MaritalStatus.SINGLE,
+                invitationStatus: InvitationStatus.ACCEPTED,
                 manager: managerUser,
                 managerId: managerUser.id
             });
@@ -121,7 +192,8 @@ export class DatabaseService {
                 email: demoClient.email,
                 password: await bcrypt.hash("client123", 10),
                 type: AuthType.CLIENT,
-                clientId: demoClient.id
+                clientId: demoClient.id,
+                emailVerifiedAt: new Date()
             });
 
             await authRepository.save(clientAuth);
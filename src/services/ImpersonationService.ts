@@ -0,0 +1,87 @@
+import { ImpersonationEvent, ImpersonationLog } from "../entities/ImpersonationLog";
+import { AppError } from "../middlewares/error.middleware";
+import { LoggerService } from "./LoggerService";
+import { createImpersonationLog, findImpersonationLogsPaginated } from "../repositories";
+
+/**
+ * Identities involved in an impersonated request
+ */
+export interface ImpersonationIdentities {
+  impersonatorAuthId: string;
+  impersonatorEmail: string;
+  targetAuthId: string;
+  targetEmail: string;
+}
+
+/**
+ * Service for the impersonation audit trail.
+ * Every impersonation and every request made with an impersonation token is logged with both identities.
+ */
+export class ImpersonationService {
+  private logger = LoggerService.getInstance();
+
+  /**
+   * Record that an admin started impersonating an account
+   */
+  public async recordStart(identities: ImpersonationIdentities, ipAddress?: string): Promise<void> {
+    this.logger.info(
+      `Impersonation started: ${identities.impersonatorEmail} (${identities.impersonatorAuthId}) as ` +
+      `${identities.targetEmail} (${identities.targetAuthId})`
+    );
+
+    await createImpersonationLog({
+      event: ImpersonationEvent.START,
+      ...identities,
+      ipAddress: ipAddress ?? null
+    });
+  }
+
+  /**
+   * Record a request made while impersonating.
+   * Called once the response is sent, so failures are logged instead of thrown.
+   */
+  public async recordRequest(
+    identities: ImpersonationIdentities,
+    request: { method: string; path: string; statusCode: number; ipAddress?: string }
+  ): Promise<void> {
+    try {
+      this.logger.info(
+        `Impersonated request by ${identities.impersonatorEmail} (${identities.impersonatorAuthId}) as ` +
+        `${identities.targetEmail} (${identities.targetAuthId}): ${request.method} ${request.path} ${request.statusCode}`
+      );
+
+      await createImpersonationLog({
+        event: ImpersonationEvent.REQUEST,
+        ...identities,
+        method: request.method,
+        path: request.path.slice(0, 2048),
+        statusCode: request.statusCode,
+        ipAddress: request.ipAddress ?? null
+      });
+    } catch (error) {
+      this.logger.error("Error recording impersonated request:", error);
+    }
+  }
+
+  /**
+   * Get the impersonation audit trail with filters and pagination
+   */
+  public async getLogs(
+    filters: {
+      impersonatorAuthId?: string;
+      targetAuthId?: string;
+      event?: ImpersonationEvent;
+      startDate?: Date;
+      endDate?: Date;
+    },
+    page: number = 1,
+    limit: number = 20
+  ): Promise<{ logs: ImpersonationLog[], total: number }> {
+    try {
+      return await findImpersonationLogsPaginated(filters, page, limit);
+    } catch (error) {
+      this.logger.error("Error in getLogs impersonation service:", error);
+      throw new AppError("Failed to get impersonation logs", 500);
+    }
+  }
+}
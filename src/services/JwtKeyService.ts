@@ -0,0 +1,172 @@
+import { JsonWebKey, KeyObject, createPrivateKey, createPublicKey, generateKeyPairSync, randomBytes } from "crypto";
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { join } from "path";
+import jwt from "jsonwebtoken";
+import { LoggerService } from "./LoggerService";
+
+/**
+ * Supported signing algorithms: RSA keys sign with RS256, P-256 EC keys with ES256
+ */
+export type JwtAlgorithm = "RS256" | "ES256";
+
+/**
+ * A key of the keyset. Retired keys only have a public key: they verify tokens
+ * issued before a rotation until those expire, but never sign new ones.
+ */
+export interface JwtKey {
+    kid: string;
+    algorithm: JwtAlgorithm;
+    publicKey: KeyObject;
+    privateKey?: KeyObject;
+}
+
+/**
+ * Public key in JWK format, as published at /.well-known/jwks.json
+ */
+export type PublicJwk = JsonWebKey & { kid: string; alg: JwtAlgorithm; use: "sig" };
+
+/**
+ * Keyset used to sign and verify JWTs
+ * Keys are PEM files in JWT_KEYS_DIR named <kid>.pem. JWT_ACTIVE_KID picks the signing key,
+ * every other key in the directory stays valid for verification.
+ */
+export class JwtKeyService {
+    private static instance: JwtKeyService;
+    private logger = LoggerService.getInstance();
+    private keys = new Map<string, JwtKey>();
+    private activeKid: string;
+    private generated = false;
+
+    constructor() {
+        this.load();
+    }
+
+    /**
+     * Get JWT key service instance (singleton pattern)
+     */
+    public static getInstance(): JwtKeyService {
+        if (!JwtKeyService.instance) {
+            JwtKeyService.instance = new JwtKeyService();
+        }
+        return JwtKeyService.instance;
+    }
+
+    /**
+     * Load the keyset from JWT_KEYS_DIR.
+     * Without keys outside production, a key is generated for the lifetime of the process.
+     */
+    private load(): void {
+        const directory = process.env.JWT_KEYS_DIR || "keys";
+
+        if (existsSync(directory)) {
+            const files = readdirSync(directory).filter(file => file.endsWith(".pem")).sort();
+            for (const file of files) {
+                const kid = file.slice(0, -".pem".length);
+                this.keys.set(kid, JwtKeyService.parseKey(kid, readFileSync(join(directory, file), "utf8")));
+            }
+        }
+
+        const signingKids = [...this.keys.values()].filter(key => key.privateKey).map(key => key.kid);
+        const activeKid = process.env.JWT_ACTIVE_KID || signingKids[signingKids.length - 1];
+
+        if (activeKid) {
+            if (!signingKids.includes(activeKid)) {
+                throw new Error(`JWT_ACTIVE_KID ${activeKid} does not match a private key in ${directory}`);
+            }
+            this.activeKid = activeKid;
+            this.logger.info(`JWT keyset loaded: ${this.keys.size} key(s), signing with ${activeKid}`);
+            return;
+        }
+
+        if (process.env.NODE_ENV === "production") {
+            // assertConfigured stops the server before any token is issued
+            return;
+        }
+
+        const { privateKey, publicKey } = generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+        this.activeKid = `dev-${randomBytes(4).toString("hex")}`;
+        this.keys.set(this.activeKid, { kid: this.activeKid, algorithm: "ES256", privateKey, publicKey });
+        this.generated = true;
+        this.logger.warn(
+            `No JWT signing keys in ${directory}, using a generated key: tokens stop working when the server restarts. ` +
+            `Run "npm run generate:jwt-key" to create one.`
+        );
+    }
+
+    /**
+     * Parse a PEM file: private keys can sign, public keys only verify
+     */
+    private static parseKey(kid: string, pem: string): JwtKey {
+        if (pem.includes("PRIVATE KEY")) {
+            const privateKey = createPrivateKey(pem);
+            const publicKey = createPublicKey(privateKey);
+            return { kid, algorithm: JwtKeyService.algorithmOf(kid, publicKey), privateKey, publicKey };
+        }
+
+        const publicKey = createPublicKey(pem);
+        return { kid, algorithm: JwtKeyService.algorithmOf(kid, publicKey), publicKey };
+    }
+
+    /**
+     * Signing algorithm of a key
+     */
+    private static algorithmOf(kid: string, key: KeyObject): JwtAlgorithm {
+        if (key.asymmetricKeyType === "rsa") {
+            return "RS256";
+        }
+        if (key.asymmetricKeyType === "ec" && key.asymmetricKeyDetails?.namedCurve === "prime256v1") {
+            return "ES256";
+        }
+        throw new Error(`JWT key ${kid} must be an RSA or P-256 EC key`);
+    }
+
+    /**
+     * Refuse to run in production without configured keys
+     * @throws Error when no signing key is configured in production
+     */
+    public assertConfigured(): void {
+        if (process.env.NODE_ENV === "production" && (!this.activeKid || this.generated)) {
+            throw new Error("JWT signing keys are not configured: add a key to JWT_KEYS_DIR (npm run generate:jwt-key)");
+        }
+    }
+
+    /**
+     * Sign a token with the active key; the kid header names the key
+     */
+    public sign(payload: object, options: jwt.SignOptions = {}): string {
+        const key = this.activeKid ? this.keys.get(this.activeKid) : undefined;
+        if (!key || !key.privateKey) {
+            throw new Error("No JWT signing key configured");
+        }
+
+        return jwt.sign(payload, key.privateKey, { ...options, algorithm: key.algorithm, keyid: key.kid });
+    }
+
+    /**
+     * Verify a token with the key named by its kid header
+     * @throws Error when the key is unknown or the token is invalid or expired
+     */
+    public verify(token: string): jwt.JwtPayload {
+        const kid = jwt.decode(token, { complete: true })?.header.kid;
+        const key = kid ? this.keys.get(kid) : undefined;
+        if (!key) {
+            throw new Error("Token signed with an unknown key");
+        }
+
+        return jwt.verify(token, key.publicKey, { algorithms: [key.algorithm] }) as jwt.JwtPayload;
+    }
+
+    /**
+     * Public keys of the keyset, for services that verify our tokens
+     */
+    public getJwks(): { keys: PublicJwk[] } {
+        return {
+            keys: [...this.keys.values()].map(key => ({
+                ...key.publicKey.export({ format: "jwk" }),
+                kid: key.kid,
+                alg: key.algorithm,
+                use: "sig"
+            }))
+        };
+    }
+}
@@ -0,0 +1,239 @@
+import { Auth } from "../entities/Auth";
+import { LoginAttempt, LoginAttemptEvent } from "../entities/LoginAttempt";
+import { AppError } from "../middlewares/error.middleware";
+import { LoggerService } from "./LoggerService";
+import { RequestContext } from "../utils/request.util";
+import {
+  findAuthById,
+  incrementFailedLoginAttempts,
+  lockAuthUntil,
+  resetFailedLoginAttempts,
+  createLoginAttempt,
+  countLoginAttemptsByIp,
+  findLatestLoginAttemptByIp,
+  findLoginAttemptsPaginated
+} from "../repositories";
+
+/**
+ * Service that tracks login attempts and protects /auth/login against brute force.
+ * Failures are counted per Auth record and per IP address; every failure makes the
+ * next attempt wait longer, and an account is locked for a while after too many failures.
+ */
+export class LoginAttemptService {
+  private logger = LoggerService.getInstance();
+
+  /**
+   * Reject the attempt if the IP address has failed too often recently
+   */
+  public async assertIpAllowed(context: RequestContext): Promise<void> {
+    if (!context.ipAddress) {
+      return;
+    }
+
+    const since = new Date(Date.now() - this.getIpWindowMinutes() * 60 * 1000);
+    const failures = await countLoginAttemptsByIp(context.ipAddress, LoginAttemptEvent.FAILURE, since);
+
+    if (failures >= this.getIpMaxFailedAttempts()) {
+      throw new AppError("Too many login attempts from this address. Try again later", 429);
+    }
+
+    // Progressive delay once the address has failed as often as a single account may
+    if (failures >= this.getMaxFailedAttempts()) {
+      const latest = await findLatestLoginAttemptByIp(context.ipAddress, LoginAttemptEvent.FAILURE);
+      const delaySeconds = this.getDelaySeconds(failures - this.getMaxFailedAttempts() + 1);
+      this.assertDelayElapsed(latest?.createdAt, delaySeconds);
+    }
+  }
+
+  /**
+   * Reject the attempt if the account is locked or has to wait after its last failure
+   */
+  public async assertAccountAllowed(auth: Auth, context: RequestContext): Promise<void> {
+    const now = Date.now();
+
+    if (auth.lockedUntil && auth.lockedUntil.getTime() > now) {
+      await this.record(LoginAttemptEvent.BLOCKED, auth.email, context, auth.id);
+      const minutes = Math.ceil((auth.lockedUntil.getTime() - now) / 60000);
+      throw new AppError(`Account is temporarily locked. Try again in ${minutes} minute(s)`, 423);
+    }
+
+    // An expired lock starts a fresh count
+    if (auth.lockedUntil) {
+      auth.failedLoginAttempts = 0;
+      auth.lockedUntil = null;
+      return;
+    }
+
+    if (auth.failedLoginAttempts > 0) {
+      this.assertDelayElapsed(auth.lastFailedLoginAt, this.getDelaySeconds(auth.failedLoginAttempts));
+    }
+  }
+
+  /**
+   * Record a failed attempt and lock the account when it reaches the limit
+   * The counter is incremented in the database, so parallel guesses are all counted.
+   */
+  public async recordFailure(email: string, context: RequestContext, auth?: Auth | null): Promise<void> {
+    try {
+      await this.record(LoginAttemptEvent.FAILURE, email, context, auth?.id);
+
+      if (!auth) {
+        return;
+      }
+
+      const now = new Date();
+      const counts = await incrementFailedLoginAttempts(auth.id, now);
+      if (!counts) {
+        return;
+      }
+
+      auth.failedLoginAttempts = counts.failedLoginAttempts;
+      auth.lastFailedLoginAt = now;
+      auth.lockedUntil = counts.lockedUntil;
+
+      if (counts.failedLoginAttempts >= this.getMaxFailedAttempts()) {
+        const lockedUntil = new Date(now.getTime() + this.getLockoutMinutes() * 60 * 1000);
+
+        // Only the failure that actually locks the account records the lockout
+        if (await lockAuthUntil(auth.id, lockedUntil, now)) {
+          auth.lockedUntil = lockedUntil;
+          await this.record(LoginAttemptEvent.LOCKOUT, email, context, auth.id);
+          this.logger.warn(`Account ${auth.id} locked after ${counts.failedLoginAttempts} failed login attempts`);
+        }
+      }
+    } catch (error) {
+      this.logger.error(`Error recording failed login attempt for ${email}:`, error);
+    }
+  }
+
+  /**
+   * Record a successful attempt and clear the failure counters
+   */
+  public async recordSuccess(auth: Auth, context: RequestContext): Promise<void> {
+    try {
+      if (auth.failedLoginAttempts > 0 || auth.lockedUntil || auth.lastFailedLoginAt) {
+        await resetFailedLoginAttempts(auth.id);
+        auth.failedLoginAttempts = 0;
+        auth.lastFailedLoginAt = null;
+        auth.lockedUntil = null;
+      }
+
+      await this.record(LoginAttemptEvent.SUCCESS, auth.email, context, auth.id);
+    } catch (error) {
+      this.logger.error(`Error recording successful login for auth ${auth.id}:`, error);
+    }
+  }
+
+  /**
+   * Unlock an account (admin function)
+   */
+  public async unlockAccount(authId: string, performedById: string, context: RequestContext): Promise<void> {
+    try {
+      const auth = await findAuthById(authId);
+      if (!auth) {
+        throw new AppError("Account not found", 404);
+      }
+
+      await resetFailedLoginAttempts(auth.id);
+
+      await this.record(LoginAttemptEvent.UNLOCK, auth.email, context, auth.id, performedById);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      this.logger.error(`Error in unlockAccount service for auth ID ${authId}:`, error);
+      throw new AppError("Failed to unlock account", 500);
+    }
+  }
+
+  /**
+   * Get login attempt history with pagination and filtering (admin function)
+   */
+  public async getLoginAttempts(
+    filters: {
+      authId?: string;
+      email?: string;
+      ipAddress?: string;
+      event?: LoginAttemptEvent;
+      startDate?: Date;
+      endDate?: Date;
+    },
+    page: number = 1,
+    limit: number = 20
+  ): Promise<{ attempts: LoginAttempt[], total: number }> {
+    try {
+      return await findLoginAttemptsPaginated(filters, page, limit);
+    } catch (error) {
+      this.logger.error("Error in getLoginAttempts service:", error);
+      throw new AppError("Failed to get login attempts", 500);
+    }
+  }
+
+  /**
+   * Store a login attempt event
+   */
+  private async record(
+    event: LoginAttemptEvent,
+    email: string,
+    context: RequestContext,
+    authId?: string,
+    performedById?: string
+  ): Promise<void> {
+    await createLoginAttempt({
+      event,
+      email,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      authId,
+      performedById
+    });
+  }
+
+  /**
+   * Throw if less than delaySeconds have passed since the given date
+   */
+  private assertDelayElapsed(since: Date | null | undefined, delaySeconds: number): void {
+    if (!since) {
+      return;
+    }
+
+    const retryAt = since.getTime() + delaySeconds * 1000;
+    if (retryAt > Date.now()) {
+      const seconds = Math.ceil((retryAt - Date.now()) / 1000);
+      throw new AppError(`Too many login attempts. Try again in ${seconds} second(s)`, 429);
+    }
+  }
+
+  /**
+   * Delay before the next attempt after the given number of failures (doubles every failure)
+   */
+  private getDelaySeconds(failures: number): number {
+    const base = this.getNumberSetting("LOGIN_DELAY_BASE_SECONDS", 1);
+    const max = this.getNumberSetting("LOGIN_DELAY_MAX_SECONDS", 30);
+    return Math.min(base * Math.pow(2, Math.max(failures - 1, 0)), max);
+  }
+
+  private getMaxFailedAttempts(): number {
+    return this.getNumberSetting("LOGIN_MAX_FAILED_ATTEMPTS", 5);
+  }
+
+  private getLockoutMinutes(): number {
+    return this.getNumberSetting("LOGIN_LOCKOUT_MINUTES", 15);
+  }
+
+  private getIpMaxFailedAttempts(): number {
+    return this.getNumberSetting("LOGIN_IP_MAX_FAILED_ATTEMPTS", 20);
+  }
+
+  private getIpWindowMinutes(): number {
+    return this.getNumberSetting("LOGIN_IP_WINDOW_MINUTES", 15);
+  }
+
+  /**
+   * Read a positive numeric setting from the environment
+   */
+  private getNumberSetting(name: string, defaultValue: number): number {
+    const value = parseInt(process.env[name] || "");
+    return isNaN(value) || value <= 0 ? defaultValue : value;
+  }
+}
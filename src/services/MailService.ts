@@ -0,0 +1,137 @@
+import { promises as fs } from "fs";
+import { join } from "path";
+import { LoggerService } from "./LoggerService";
+
+/**
+ * An outgoing email message
+ */
+export interface MailMessage {
+    to: string;
+    subject: string;
+    text: string;
+    html?: string;
+}
+
+/**
+ * A mail transport delivers messages (SMTP, provider API, file, memory, ...)
+ */
+export interface MailTransport {
+    send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Transport that writes messages to the log (default for development)
+ */
+export class ConsoleMailTransport implements MailTransport {
+    private logger = LoggerService.getInstance();
+
+    public async send(message: MailMessage & { from: string }): Promise<void> {
+        this.logger.info(`Mail to ${message.to}: ${message.subject}`, { text: message.text });
+    }
+}
+
+/**
+ * Transport that writes every message as a JSON file into a directory
+ */
+export class FileMailTransport implements MailTransport {
+    constructor(private readonly directory: string) {}
+
+    public async send(message: MailMessage & { from: string }): Promise<void> {
+        await fs.mkdir(this.directory, { recursive: true });
+        const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, "_")}.json`;
+        await fs.writeFile(
+            join(this.directory, fileName),
+            JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+        );
+    }
+}
+
+/**
+ * Transport that keeps messages in memory (tests)
+ */
+export class MemoryMailTransport implements MailTransport {
+    public readonly messages: (MailMessage & { from: string })[] = [];
+
+    public async send(message: MailMessage & { from: string }): Promise<void> {
+        this.messages.push(message);
+    }
+
+    public clear(): void {
+        this.messages.length = 0;
+    }
+}
+
+/**
+ * Mail service for AppFree
+ * The transport is picked from MAIL_TRANSPORT (console, file or memory) and can be replaced with setTransport
+ */
+export class MailService {
+    private static instance: MailService;
+    private logger = LoggerService.getInstance();
+    private transport: MailTransport;
+    private from: string;
+
+    constructor() {
+        this.from = process.env.MAIL_FROM || "AppFree <no-reply@appfree.local>";
+        this.transport = MailService.createTransport(process.env.MAIL_TRANSPORT);
+    }
+
+    /**
+     * Get mail service instance (singleton pattern)
+     */
+    public static getInstance(): MailService {
+        if (!MailService.instance) {
+            MailService.instance = new MailService();
+        }
+        return MailService.instance;
+    }
+
+    /**
+     * Create a transport by name
+     */
+    private static createTransport(name?: string): MailTransport {
+        switch (name) {
+            case "file":
+                return new FileMailTransport(process.env.MAIL_OUTBOX_DIR || "mail-outbox");
+            case "memory":
+                return new MemoryMailTransport();
+            default:
+                return new ConsoleMailTransport();
+        }
+    }
+
+    /**
+     * Replace the transport (custom providers, tests)
+     */
+    public setTransport(transport: MailTransport): void {
+        this.transport = transport;
+    }
+
+    /**
+     * Get the current transport
+     */
+    public getTransport(): MailTransport {
+        return this.transport;
+    }
+
+    /**
+     * Send a message
+     */
+    public async send(message: MailMessage): Promise<void> {
+        try {
+            await this.transport.send({ ...message, from: this.from });
+        } catch (error) {
+            this.logger.error(`Error sending mail to ${message.to}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Build a link to the frontend application
+     */
+    public buildAppUrl(path: string, params: Record<string, string>): string {
+        const baseUrl = (process.env.APP_URL || "http://localhost:3000").replace(/\/+$/, "");
+        const query = new URLSearchParams(params).toString();
+        return `${baseUrl}${path}?${query}`;
+    }
+}
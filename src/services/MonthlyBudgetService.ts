@@ -1,18 +1,40 @@
 import { MonthlyBudget } from "../entities/MonthlyBudget";
+import { Client, RolloverPolicy } from "../entities/Client";
 import { AppError } from "../middlewares/error.middleware";
 import { LoggerService } from "./LoggerService";
+import { CategoryBudgetService } from "./CategoryBudgetService";
 import {
   findMonthlyBudgetsByClient,
   findMonthlyBudgetById,
   findMonthlyBudgetByYearAndMonth,
+  findLatestMonthlyBudgetBefore,
   createMonthlyBudget,
-  updateMonthlyBudget,
   deleteMonthlyBudget,
-  findClientById
+  findClientById,
+  updateClient,
+  findDailyTransactionsByMonthlyBudget,
+  rebuildMonthlyBudgetLedger
 } from "../repositories";
+import {
+  BudgetPacing,
+  computePacing,
+  getBudgetTotal,
+  getCarriedOverAmount,
+  getOpeningBalance
+} from "../utils/ledger.util";
+
+/**
+ * Rollover settings of a client
+ */
+export interface RolloverSettings {
+  clientId: string;
+  rolloverPolicy: RolloverPolicy;
+  copyPreviousBudget: boolean;
+}
 
 export class MonthlyBudgetService {
   private logger = LoggerService.getInstance();
+  private categoryBudgetService = new CategoryBudgetService();
 
   /**
    * Get all monthly budgets for a client
@@ -54,6 +76,33 @@ export class MonthlyBudgetService {
     }
   }
 
+  /**
+   * Get the pacing of a budget: today's safe-to-spend allowance, the pace of spending and the projected
+   * end-of-month balance, computed from its transactions
+   */
+  public async getPacing(
+    id: string,
+    today: Date = new Date()
+  ): Promise<BudgetPacing & { budgetId: string; year: number; month: number }> {
+    try {
+      const budget = await this.getMonthlyBudgetById(id);
+      const transactions = await findDailyTransactionsByMonthlyBudget(id);
+
+      return {
+        budgetId: budget.id,
+        year: budget.year,
+        month: budget.month,
+        ...computePacing(budget, transactions, today)
+      };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      this.logger.error(`Error in getPacing service for budget ID ${id}:`, error);
+      throw new AppError("Failed to get budget pacing", 500);
+    }
+  }
+
   /**
    * Get or create a monthly budget for a specific year and month
    */
@@ -80,6 +129,14 @@ export class MonthlyBudgetService {
         
         // Use provided monthly salary or client's salary
         const effectiveMonthlySalary = monthlySalary || client.salary;
+
+        // The latest earlier budget provides the carried amount and, if the client wants it, the budget settings
+        const previous = await findLatestMonthlyBudgetBefore(clientId, year, month);
+        const carriedOverAmount = previous ? getCarriedOverAmount(client.rolloverPolicy, previous.remainingBalance) : 0;
+        const copied = previous && client.copyPreviousBudget
+          ? { budgetAmount: Number(previous.budgetAmount), isPercentage: previous.isPercentage }
+          : { budgetAmount: 0, isPercentage: false }; // Will be set by client
+        const budgetTotal = getBudgetTotal({ ...copied, monthlySalary: effectiveMonthlySalary });
         
         // Create new budget
         budget = await createMonthlyBudget({
@@ -87,12 +144,22 @@ export class MonthlyBudgetService {
           year,
           month,
           monthlySalary: effectiveMonthlySalary,
-          budgetAmount: 0, // Will be set by client
-          isPercentage: false,
-          dailyBudget: 0, // Will be calculated when budget amount is set
-          remainingBalance: 0, // Will be calculated when budget amount is set
-          daysInMonth
+          ...copied,
+          dailyBudget: budgetTotal / daysInMonth,
+          remainingBalance: getOpeningBalance({ ...copied, monthlySalary: effectiveMonthlySalary, carriedOverAmount }),
+          daysInMonth,
+          carriedOverAmount,
+          carriedOverFromId: carriedOverAmount !== 0 ? previous!.id : undefined
         });
+
+        if (carriedOverAmount !== 0) {
+          this.logger.info(
+            `Carried ${carriedOverAmount} over from budget ${previous!.id} to ${month}/${year} for client ${clientId}`
+          );
+        }
+
+        // A month created between two others is now what the later budgets carry from
+        await this.rebuildBudgetsAfter(clientId, year, month);
       }
       
       return budget;
@@ -106,111 +173,129 @@ export class MonthlyBudgetService {
   }
 
   /**
-   * Update monthly salary
+   * Get the rollover settings of a client
    */
-  public async updateMonthlySalary(
-    budgetId: string,
-    monthlySalary: number
-  ): Promise<MonthlyBudget> {
+  public async getRolloverSettings(clientId: string): Promise<RolloverSettings> {
     try {
-      // Get budget
-      const budget = await this.getMonthlyBudgetById(budgetId);
-      
-      // Update monthly salary
-      budget.monthlySalary = monthlySalary;
-      
-      // If budget amount is a percentage, recalculate it
-      if (budget.isPercentage && budget.budgetAmount > 0) {
-        const percentage = budget.budgetAmount;
-        const newBudgetAmount = (monthlySalary * percentage) / 100;
-        
-        // Update budget amount and daily budget
-        budget.budgetAmount = percentage; // Keep the percentage
-        budget.dailyBudget = newBudgetAmount / budget.daysInMonth;
-        budget.remainingBalance = newBudgetAmount;
+      const client = await findClientById(clientId);
+      if (!client) {
+        throw new AppError("Client not found", 404);
       }
-      
-      // Save updated budget
-      return await updateMonthlyBudget(budget);
+      return this.toRolloverSettings(client);
     } catch (error) {
       if (error instanceof AppError) {
         throw error;
       }
-      this.logger.error(`Error in updateMonthlySalary service for budget ID ${budgetId}:`, error);
-      throw new AppError("Failed to update monthly salary", 500);
+      this.logger.error(`Error in getRolloverSettings service for client ID ${clientId}:`, error);
+      throw new AppError("Failed to get rollover settings", 500);
     }
   }
 
   /**
-   * Update budget amount
+   * Update the rollover settings of a client
+   * A new rollover policy also applies to the existing budgets, which are rebuilt oldest first.
+   * copyPreviousBudget only applies to months created afterwards.
    */
-  public async updateBudgetAmount(
+  public async updateRolloverSettings(
+    clientId: string,
+    data: { rolloverPolicy?: RolloverPolicy; copyPreviousBudget?: boolean }
+  ): Promise<RolloverSettings> {
+    try {
+      const client = await findClientById(clientId);
+      if (!client) {
+        throw new AppError("Client not found", 404);
+      }
+
+      const policyChanged = data.rolloverPolicy !== undefined && data.rolloverPolicy !== client.rolloverPolicy;
+      if (data.rolloverPolicy !== undefined) client.rolloverPolicy = data.rolloverPolicy;
+      if (data.copyPreviousBudget !== undefined) client.copyPreviousBudget = data.copyPreviousBudget;
+
+      const saved = await updateClient(client);
+
+      // Carry the balances over again under the new policy
+      if (policyChanged) {
+        await this.rebuildOldestFirst(await findMonthlyBudgetsByClient(clientId));
+      }
+
+      return this.toRolloverSettings(saved);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      this.logger.error(`Error in updateRolloverSettings service for client ID ${clientId}:`, error);
+      throw new AppError("Failed to update rollover settings", 500);
+    }
+  }
+
+  /**
+   * Update monthly salary
+   * The remaining balance is rebuilt from the transactions, so money already spent stays spent.
+   */
+  public async updateMonthlySalary(
     budgetId: string,
-    budgetAmount: number,
-    isPercentage: boolean
+    monthlySalary: number
   ): Promise<MonthlyBudget> {
     try {
       // Get budget
       const budget = await this.getMonthlyBudgetById(budgetId);
-      
-      // Calculate actual budget amount if percentage
-      let actualBudgetAmount = budgetAmount;
-      if (isPercentage) {
-        if (budgetAmount < 0 || budgetAmount > 100) {
-          throw new AppError("Percentage must be between 0 and 100", 400);
-        }
-        actualBudgetAmount = (budget.monthlySalary * budgetAmount) / 100;
-      }
-      
-      // Update budget
-      budget.budgetAmount = budgetAmount;
-      budget.isPercentage = isPercentage;
-      budget.dailyBudget = actualBudgetAmount / budget.daysInMonth;
-      budget.remainingBalance = actualBudgetAmount;
-      
-      // Save updated budget
-      return await updateMonthlyBudget(budget);
+
+      // If budget amount is a percentage, the daily budget follows the salary
+      const dailyBudget = budget.isPercentage
+        ? getBudgetTotal({ ...budget, monthlySalary }) / budget.daysInMonth
+        : budget.dailyBudget;
+
+      // Save the salary and rebuild the balances under the budget's row lock
+      await rebuildMonthlyBudgetLedger(budgetId, { monthlySalary, dailyBudget });
+      return await this.getMonthlyBudgetById(budgetId);
     } catch (error) {
       if (error instanceof AppError) {
         throw error;
       }
-      this.logger.error(`Error in updateBudgetAmount service for budget ID ${budgetId}:`, error);
-      throw new AppError("Failed to update budget amount", 500);
+      this.logger.error(`Error in updateMonthlySalary service for budget ID ${budgetId}:`, error);
+      throw new AppError("Failed to update monthly salary", 500);
     }
   }
 
   /**
-   * Update remaining balance
+   * Update budget amount
+   * The remaining balance is rebuilt from the transactions, so money already spent stays spent.
+   * @throws AppError 400 when the category budgets would no longer fit in the new budget total
    */
-  public async updateRemainingBalance(
+  public async updateBudgetAmount(
     budgetId: string,
-    amount: number,
-    isAddition: boolean = false
+    budgetAmount: number,
+    isPercentage: boolean
   ): Promise<MonthlyBudget> {
     try {
       // Get budget
       const budget = await this.getMonthlyBudgetById(budgetId);
       
-      // Update remaining balance
-      if (isAddition) {
-        budget.remainingBalance += amount;
-      } else {
-        budget.remainingBalance -= amount;
+      if (isPercentage && (budgetAmount < 0 || budgetAmount > 100)) {
+        throw new AppError("Percentage must be between 0 and 100", 400);
       }
-      
-      // Save updated budget
-      return await updateMonthlyBudget(budget);
+
+      // Calculate actual budget amount if percentage
+      const actualBudgetAmount = getBudgetTotal({ budgetAmount, isPercentage, monthlySalary: budget.monthlySalary });
+
+      // Check the category budgets, save the budget and rebuild the balances under the budget's row lock
+      await rebuildMonthlyBudgetLedger(
+        budgetId,
+        { budgetAmount, isPercentage, dailyBudget: actualBudgetAmount / budget.daysInMonth },
+        (changed, categoryBudgets) => this.categoryBudgetService.assertWithinBudget(changed, categoryBudgets)
+      );
+      return await this.getMonthlyBudgetById(budgetId);
     } catch (error) {
       if (error instanceof AppError) {
         throw error;
       }
-      this.logger.error(`Error in updateRemainingBalance service for budget ID ${budgetId}:`, error);
-      throw new AppError("Failed to update remaining balance", 500);
+      this.logger.error(`Error in updateBudgetAmount service for budget ID ${budgetId}:`, error);
+      throw new AppError("Failed to update budget amount", 500);
     }
   }
 
   /**
    * Delete a monthly budget
+   * The later budgets of the client are rebuilt, they carry from the budget before the deleted one from now on.
    */
   public async deleteMonthlyBudget(id: string): Promise<void> {
     try {
@@ -219,6 +304,7 @@ export class MonthlyBudgetService {
       
       // Delete budget
       await deleteMonthlyBudget(budget);
+      await this.rebuildBudgetsAfter(budget.clientId, budget.year, budget.month);
     } catch (error) {
       if (error instanceof AppError) {
         throw error;
@@ -227,4 +313,33 @@ export class MonthlyBudgetService {
       throw new AppError("Failed to delete monthly budget", 500);
     }
   }
+
+  /**
+   * Rebuild the budgets of a client after a month, oldest first, so each carries from the budget now before it
+   */
+  private async rebuildBudgetsAfter(clientId: string, year: number, month: number): Promise<void> {
+    const budgets = await findMonthlyBudgetsByClient(clientId);
+    await this.rebuildOldestFirst(budgets.filter(budget => budget.year > year || (budget.year === year && budget.month > month)));
+  }
+
+  /**
+   * Rebuild budgets one after the other, oldest first, so every budget carries over the new balance of the one before
+   */
+  private async rebuildOldestFirst(budgets: MonthlyBudget[]): Promise<void> {
+    const ordered = [...budgets].sort((a, b) => a.year - b.year || a.month - b.month);
+    for (const budget of ordered) {
+      await rebuildMonthlyBudgetLedger(budget.id);
+    }
+  }
+
+  /**
+   * Rollover settings of a client
+   */
+  private toRolloverSettings(client: Client): RolloverSettings {
+    return {
+      clientId: client.id,
+      rolloverPolicy: client.rolloverPolicy,
+      copyPreviousBudget: client.copyPreviousBudget
+    };
+  }
 }
@@ -0,0 +1,87 @@
+import * as bcrypt from "bcryptjs";
+import { Auth } from "../entities/Auth";
+import { AppError } from "../middlewares/error.middleware";
+import { LoggerService } from "./LoggerService";
+import { PasswordContext, assertPasswordAllowed, getPasswordPolicy } from "../policies/password.policy";
+import { findRecentPasswordHashes, createPasswordHistory, prunePasswordHistory } from "../repositories";
+
+/**
+ * Service for choosing passwords: the password policy, hashing and the password history.
+ * Every place that sets a password goes through assertAllowed, hash and remember.
+ */
+export class PasswordService {
+  private logger = LoggerService.getInstance();
+
+  /**
+   * Personal data of an account's user or client, which its password must not contain.
+   * Needs the user or client relation of the auth record.
+   */
+  public static contextFor(auth: Auth): PasswordContext {
+    if (auth.client) {
+      return { name: auth.client.name, email: auth.email, cpf: auth.client.cpf };
+    }
+    return { name: auth.user?.name, email: auth.email };
+  }
+
+  /**
+   * Check a new password against the policy and, for existing accounts, the recent passwords
+   * @param password New password
+   * @param context Personal data the password must not contain
+   * @param authId Account changing its password, omitted for new accounts
+   * @param currentHash Current password hash, when it was loaded
+   * @throws AppError 400 when the password is not allowed
+   */
+  public async assertAllowed(password: string, context: PasswordContext, authId?: string, currentHash?: string): Promise<void> {
+    try {
+      assertPasswordAllowed(password, context);
+
+      const { historySize } = getPasswordPolicy();
+      if (!authId || historySize === 0) {
+        return;
+      }
+
+      // The current password counts as the newest entry, even for accounts created before the history existed
+      const hashes = await findRecentPasswordHashes(authId, historySize);
+      if (currentHash && !hashes.includes(currentHash)) {
+        hashes.unshift(currentHash);
+      }
+
+      for (const hash of hashes.slice(0, historySize)) {
+        if (await bcrypt.compare(password, hash)) {
+          throw new AppError(`Password must not be one of your last ${historySize} passwords`, 400);
+        }
+      }
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      this.logger.error("Error in assertAllowed password service:", error);
+      throw new AppError("Failed to check password", 500);
+    }
+  }
+
+  /**
+   * Hash a password for storage
+   */
+  public async hash(password: string): Promise<string> {
+    return await bcrypt.hash(password, 10);
+  }
+
+  /**
+   * Remember a password an account has just set, keeping the last PASSWORD_HISTORY_SIZE
+   */
+  public async remember(authId: string, passwordHash: string): Promise<void> {
+    try {
+      const { historySize } = getPasswordPolicy();
+      if (historySize === 0) {
+        return;
+      }
+
+      await createPasswordHistory(authId, passwordHash);
+      await prunePasswordHistory(authId, historySize);
+    } catch (error) {
+      this.logger.error(`Error in remember password service for auth ID ${authId}:`, error);
+      throw new AppError("Failed to record password history", 500);
+    }
+  }
+}
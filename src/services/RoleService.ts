@@ -1,4 +1,5 @@
 import { Role, RoleType } from "../entities/Role";
+import { Permission, PermissionType } from "../entities/Permission";
 import { AppError } from "../middlewares/error.middleware";
 import { LoggerService } from "./LoggerService";
 import {
@@ -7,7 +8,9 @@ import {
   findRoleByName,
   createRole,
   updateRole,
-  deleteRole
+  deleteRole,
+  findAllPermissions,
+  findPermissionsByNames
 } from "../repositories";
 
 export class RoleService {
@@ -47,7 +50,7 @@ export class RoleService {
   /**
    * Get a role by name
    */
-  public async getRoleByName(name: RoleType): Promise<Role> {
+  public async getRoleByName(name: string): Promise<Role> {
     try {
       const role = await findRoleByName(name);
       if (!role) {
@@ -67,11 +70,12 @@ export class RoleService {
    * Create a new role
    */
   public async createRole(roleData: {
-    name: RoleType;
+    name: string;
     description?: string;
+    permissions?: PermissionType[];
   }): Promise<Role> {
     try {
-      const { name, description } = roleData;
+      const { name, description, permissions } = roleData;
 
       // Check if role with name already exists
       const existingRole = await findRoleByName(name);
@@ -82,7 +86,8 @@ export class RoleService {
       // Create role
       const newRole = await createRole({
         name,
-        description
+        description,
+        permissions: permissions ? await this.resolvePermissions(permissions) : []
       });
 
       return newRole;
@@ -101,17 +106,23 @@ export class RoleService {
   public async updateRole(
     id: string,
     updateData: {
-      name?: RoleType;
+      name?: string;
       description?: string;
       isActive?: boolean;
+      permissions?: PermissionType[];
     }
   ): Promise<Role> {
     try {
-      const { name, description, isActive } = updateData;
+      const { name, description, isActive, permissions } = updateData;
 
       // Find role
       const role = await this.getRoleById(id);
 
+      // Built-in roles are referenced by name and must stay active
+      if (this.isBuiltInRole(role) && ((name !== undefined && name !== role.name) || isActive === false)) {
+        throw new AppError("Built-in roles cannot be renamed or deactivated", 400);
+      }
+
       // If name is being updated, check it's not already in use
       if (name && name !== role.name) {
         const existingRole = await findRoleByName(name);
@@ -124,6 +135,7 @@ export class RoleService {
       if (name !== undefined) role.name = name;
       if (description !== undefined) role.description = description;
       if (isActive !== undefined) role.isActive = isActive;
+      if (permissions !== undefined) role.permissions = await this.resolvePermissions(permissions);
 
       // Save updated role
       return await updateRole(role);
@@ -144,6 +156,10 @@ export class RoleService {
       // Find role
       const role = await this.getRoleById(id);
 
+      if (this.isBuiltInRole(role)) {
+        throw new AppError("Built-in roles cannot be deleted", 400);
+      }
+
       // Delete role
       await deleteRole(role);
     } catch (error) {
@@ -154,4 +170,35 @@ export class RoleService {
       throw new AppError("Failed to delete role", 500);
     }
   }
+
+  /**
+   * Get all permissions that can be granted to roles
+   */
+  public async getAllPermissions(): Promise<Permission[]> {
+    try {
+      return await findAllPermissions();
+    } catch (error) {
+      this.logger.error("Error in getAllPermissions service:", error);
+      throw new AppError("Failed to get permissions", 500);
+    }
+  }
+
+  /**
+   * Load permissions by name, failing on names that are not seeded
+   */
+  private async resolvePermissions(names: PermissionType[]): Promise<Permission[]> {
+    const uniqueNames = [...new Set(names)];
+    const permissions = await findPermissionsByNames(uniqueNames);
+    if (permissions.length !== uniqueNames.length) {
+      throw new AppError("Invalid permission", 400);
+    }
+    return permissions;
+  }
+
+  /**
+   * Whether the role is one of the built-in admin, manager and client roles
+   */
+  private isBuiltInRole(role: Role): boolean {
+    return (Object.values(RoleType) as string[]).includes(role.name);
+  }
 }
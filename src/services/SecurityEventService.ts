@@ -0,0 +1,67 @@
+import { SecurityEvent, SecurityEventType } from "../entities/SecurityEvent";
+import { AppError } from "../middlewares/error.middleware";
+import { LoggerService } from "./LoggerService";
+import { RequestContext } from "../utils/request.util";
+import { createSecurityEvent, findSecurityEventsPaginated } from "../repositories";
+
+/**
+ * Service for the security event history of accounts.
+ * Answers questions like "who logged into this client's account last week".
+ */
+export class SecurityEventService {
+  private logger = LoggerService.getInstance();
+
+  /**
+   * Record a security event.
+   * Recording never fails the operation it describes, errors are only logged.
+   * @param type Event type
+   * @param account Account the event is about; failed logins for unknown emails have no authId
+   * @param context Request context; its actor is only stored when it is another account
+   * @param details Extra information, e.g. the failure reason or the old and new role
+   */
+  public async record(
+    type: SecurityEventType,
+    account: { authId?: string | null; email?: string | null },
+    context: RequestContext = {},
+    details?: Record<string, unknown>
+  ): Promise<void> {
+    try {
+      const actorAuthId = context.actorAuthId && context.actorAuthId !== account.authId ? context.actorAuthId : null;
+
+      await createSecurityEvent({
+        type,
+        authId: account.authId ?? null,
+        email: account.email ?? null,
+        actorAuthId,
+        ipAddress: context.ipAddress ?? null,
+        userAgent: context.userAgent?.slice(0, 512) ?? null,
+        details: details ?? null
+      });
+    } catch (error) {
+      this.logger.error(`Error recording ${type} security event for ${account.authId ?? account.email}:`, error);
+    }
+  }
+
+  /**
+   * Get security events with pagination and filtering
+   */
+  public async getEvents(
+    filters: {
+      authId?: string;
+      email?: string;
+      ipAddress?: string;
+      type?: SecurityEventType;
+      startDate?: Date;
+      endDate?: Date;
+    },
+    page: number = 1,
+    limit: number = 20
+  ): Promise<{ events: SecurityEvent[], total: number }> {
+    try {
+      return await findSecurityEventsPaginated(filters, page, limit);
+    } catch (error) {
+      this.logger.error("Error in getEvents security event service:", error);
+      throw new AppError("Failed to get security events", 500);
+    }
+  }
+}
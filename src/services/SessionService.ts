@@ -0,0 +1,160 @@
+import { randomUUID } from "crypto";
+import { Session } from "../entities/Session";
+import { AppError } from "../middlewares/error.middleware";
+import { LoggerService } from "./LoggerService";
+import { RequestContext, describeDevice } from "../utils/request.util";
+import {
+  findSessionById,
+  findActiveSessionsByAuthId,
+  createSession,
+  updateSessionActivity,
+  revokeSession,
+  revokeRefreshTokenFamily
+} from "../repositories";
+
+/**
+ * Session as listed to its owner or an admin
+ */
+export type SessionSummary = Session & { current: boolean };
+
+/**
+ * Service for login sessions.
+ * A session is created at login, kept alive by refreshes and requests, and ends on logout,
+ * when it is ended remotely or when its refresh token expires.
+ */
+export class SessionService {
+  private logger = LoggerService.getInstance();
+
+  /**
+   * Start a session for a new login
+   * @param authId Auth ID
+   * @param expiresAt Expiry of the login's refresh token
+   * @param context Request context of the login
+   */
+  public async startSession(authId: string, expiresAt: Date, context: RequestContext = {}): Promise<Session> {
+    try {
+      const now = new Date();
+      return await createSession({
+        id: randomUUID(),
+        authId,
+        device: describeDevice(context.userAgent) ?? null,
+        userAgent: context.userAgent?.slice(0, 512) ?? null,
+        ipAddress: context.ipAddress ?? null,
+        lastSeenAt: now,
+        expiresAt,
+        revokedAt: null
+      });
+    } catch (error) {
+      this.logger.error(`Error in startSession service for auth ID ${authId}:`, error);
+      throw new AppError("Failed to start session", 500);
+    }
+  }
+
+  /**
+   * Record a refresh of a session and extend it to the new refresh token's expiry.
+   * Logins made before sessions were recorded get their session on their first refresh.
+   * @throws AppError 401 when the session has ended
+   */
+  public async recordRefresh(sessionId: string, authId: string, expiresAt: Date, context: RequestContext = {}): Promise<void> {
+    try {
+      const session = await findSessionById(sessionId);
+      if (!session) {
+        await createSession({
+          id: sessionId,
+          authId,
+          device: describeDevice(context.userAgent) ?? null,
+          userAgent: context.userAgent?.slice(0, 512) ?? null,
+          ipAddress: context.ipAddress ?? null,
+          lastSeenAt: new Date(),
+          expiresAt,
+          revokedAt: null
+        });
+        return;
+      }
+
+      if (session.revokedAt || session.authId !== authId) {
+        throw new AppError("Session has ended", 401);
+      }
+
+      await updateSessionActivity(sessionId, {
+        lastSeenAt: new Date(),
+        expiresAt,
+        ipAddress: context.ipAddress ?? session.ipAddress
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      this.logger.error(`Error in recordRefresh service for session ID ${sessionId}:`, error);
+      throw new AppError("Failed to refresh session", 500);
+    }
+  }
+
+  /**
+   * Check the session of an access token and record its activity
+   * @throws AppError 401 when the session has ended
+   */
+  public async checkSession(sessionId: string): Promise<void> {
+    try {
+      const session = await findSessionById(sessionId);
+      if (!session) {
+        // Access token issued before sessions were recorded
+        return;
+      }
+
+      if (session.revokedAt || session.expiresAt.getTime() <= Date.now()) {
+        throw new AppError("Session has ended", 401);
+      }
+
+      // Only write the last activity once a minute, a page load makes several requests
+      const now = new Date();
+      if (now.getTime() - session.lastSeenAt.getTime() > 60 * 1000) {
+        await updateSessionActivity(sessionId, { lastSeenAt: now });
+      }
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      this.logger.error(`Error in checkSession service for session ID ${sessionId}:`, error);
+      throw new AppError("Failed to check session", 500);
+    }
+  }
+
+  /**
+   * List the active sessions of an account
+   * @param authId Auth ID
+   * @param currentSessionId Session of the request, flagged as current
+   */
+  public async listSessions(authId: string, currentSessionId?: string): Promise<SessionSummary[]> {
+    try {
+      const sessions = await findActiveSessionsByAuthId(authId);
+      return sessions.map(session => ({ ...session, current: session.id === currentSessionId }));
+    } catch (error) {
+      this.logger.error(`Error in listSessions service for auth ID ${authId}:`, error);
+      throw new AppError("Failed to get sessions", 500);
+    }
+  }
+
+  /**
+   * End a session: its refresh tokens are revoked and its access tokens are rejected from now on
+   * @param id Session ID
+   * @param authId Account the session must belong to, omitted for admins
+   */
+  public async endSession(id: string, authId?: string): Promise<void> {
+    try {
+      const session = await findSessionById(id);
+      if (!session || (authId && session.authId !== authId)) {
+        throw new AppError("Session not found", 404);
+      }
+
+      await revokeSession(id);
+      await revokeRefreshTokenFamily(id);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      this.logger.error(`Error in endSession service for session ID ${id}:`, error);
+      throw new AppError("Failed to end session", 500);
+    }
+  }
+}
@@ -0,0 +1,112 @@
+import { AppError } from "../middlewares/error.middleware";
+import { LoggerService } from "./LoggerService";
+import type { ClientsPerManager, ClientsPerPeriod } from "../repositories/clientRepository";
+import type { SpendPerMonth } from "../repositories/dailyTransactionRepository";
+import {
+  countClientsByStatus,
+  countNewClientsByPeriod,
+  countClientsByManager,
+  countMonthlyBudgetsCreatedBetween,
+  sumExpensesByMonth,
+  countLoginsSince,
+  findLastLoginDate
+} from "../repositories";
+
+/**
+ * Grouping period of the new clients series
+ */
+export type StatsInterval = "day" | "week" | "month";
+
+/**
+ * Date range of the dashboard series
+ */
+export interface StatsRange {
+  startDate?: Date;
+  endDate?: Date;
+  interval?: StatsInterval;
+}
+
+/**
+ * Statistics shown on the admin dashboard
+ */
+export interface DashboardStats {
+  range: { startDate: Date; endDate: Date; interval: StatsInterval };
+  totalClients: number;
+  activeClients: number;
+  inactiveClients: number;
+  newClients: ClientsPerPeriod[];
+  clientsPerManager: ClientsPerManager[];
+  logins: { last7Days: number; last30Days: number };
+  lastLoginDate: Date | null;
+  budgetsCreatedThisMonth: number;
+  spendByMonth: SpendPerMonth[];
+}
+
+/**
+ * Service for dashboard statistics.
+ * Everything is computed by aggregate queries, no rows are loaded into memory.
+ */
+export class StatsService {
+  private logger = LoggerService.getInstance();
+
+  /**
+   * Get the dashboard statistics
+   * @param range Range of the new clients and spend series, the last 12 months by default
+   * @param managerId Only count the clients of this manager
+   * @throws AppError 400 when the range ends before it starts
+   */
+  public async getDashboardStats(range: StatsRange = {}, managerId?: string): Promise<DashboardStats> {
+    try {
+      const now = new Date();
+      const endDate = range.endDate ?? now;
+      const startDate = range.startDate ?? new Date(endDate.getFullYear(), endDate.getMonth() - 11, 1);
+      const interval = range.interval ?? "month";
+
+      if (startDate.getTime() > endDate.getTime()) {
+        throw new AppError("Start date must be before end date", 400);
+      }
+
+      const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+      const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
+
+      const [
+        { active, inactive },
+        newClients,
+        clientsPerManager,
+        loginsLast7Days,
+        loginsLast30Days,
+        lastLoginDate,
+        budgetsCreatedThisMonth,
+        spendByMonth
+      ] = await Promise.all([
+        countClientsByStatus(managerId),
+        countNewClientsByPeriod(interval, startDate, endDate, managerId),
+        countClientsByManager(managerId),
+        countLoginsSince(daysAgo(7), managerId),
+        countLoginsSince(daysAgo(30), managerId),
+        findLastLoginDate(managerId),
+        countMonthlyBudgetsCreatedBetween(startOfMonth, now, managerId),
+        sumExpensesByMonth(startDate, endDate, managerId)
+      ]);
+
+      return {
+        range: { startDate, endDate, interval },
+        totalClients: active + inactive,
+        activeClients: active,
+        inactiveClients: inactive,
+        newClients,
+        clientsPerManager,
+        logins: { last7Days: loginsLast7Days, last30Days: loginsLast30Days },
+        lastLoginDate,
+        budgetsCreatedThisMonth,
+        spendByMonth
+      };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      this.logger.error("Error in getDashboardStats service:", error);
+      throw new AppError("Failed to get dashboard statistics", 500);
+    }
+  }
+}
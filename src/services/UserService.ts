@@ -1,24 +1,36 @@
-import * as bcrypt from "bcryptjs";
 import { User } from "../entities/User";
+import { AuthType } from "../entities/Auth";
 import { AppError } from "../middlewares/error.middleware";
 import { LoggerService } from "./LoggerService";
+import { AuthService } from "./AuthService";
+import { PasswordService } from "./PasswordService";
+import { SecurityEventService } from "./SecurityEventService";
+import { SecurityEventType } from "../entities/SecurityEvent";
+import { RequestContext } from "../utils/request.util";
+import * as bcrypt from "bcryptjs";
 import {
   findAllUsers,
   findUserById,
   findUserByEmail,
-  createUser,
+  createUserWithAuth,
   updateUser,
+  updateUserWithAuth,
   deleteUser,
-  findUserByIdWithPassword
+  findAuthByEmail,
+  findAuthByUserId,
+  findRoleById
 } from "../repositories";
 
 export class UserService {
   private logger = LoggerService.getInstance();
+  private authService = new AuthService();
+  private passwordService = new PasswordService();
+  private securityEventService = new SecurityEventService();
 
   /**
    * Get all users
    */
-  public async getAllUsers(): Promise<Omit<User, "password">[]> {
+  public async getAllUsers(): Promise<User[]> {
     try {
       return await findAllUsers();
     } catch (error) {
@@ -30,7 +42,7 @@ export class UserService {
   /**
    * Get a user by ID
    */
-  public async getUserById(id: string): Promise<Omit<User, "password">> {
+  public async getUserById(id: string): Promise<User> {
     try {
       const user = await findUserById(id);
       if (!user) {
@@ -46,25 +58,6 @@ export class UserService {
     }
   }
 
-  /**
-   * Get a user by ID with password (for authentication purposes)
-   */
-  public async getUserWithPassword(id: string): Promise<User> {
-    try {
-      const user = await findUserByIdWithPassword(id);
-      if (!user) {
-        throw new AppError("User not found", 404);
-      }
-      return user;
-    } catch (error) {
-      if (error instanceof AppError) {
-        throw error;
-      }
-      this.logger.error(`Error in getUserWithPassword service for ID ${id}:`, error);
-      throw new AppError("Failed to get user", 500);
-    }
-  }
-
   /**
    * Create a new user
    */
@@ -72,7 +65,7 @@ export class UserService {
     name: string;
     email: string;
     password: string;
-  }): Promise<Omit<User, "password">> {
+  }): Promise<User> {
     try {
       const { name, email, password } = userData;
 
@@ -82,19 +75,25 @@ export class UserService {
         throw new AppError("User with this email already exists", 409);
       }
 
-      // Hash password
-      const hashedPassword = await bcrypt.hash(password, 10);
+      // Check if auth with email already exists
+      const existingAuth = await findAuthByEmail(email);
+      if (existingAuth) {
+        throw new AppError("Email is already in use", 409);
+      }
+
+      // Check and hash password
+      await this.passwordService.assertAllowed(password, { name, email });
+      const hashedPassword = await this.passwordService.hash(password);
 
-      // Create user
-      const user = await createUser({
-        name,
-        email,
-        password: hashedPassword
-      });
+      // Create the user and its login together, the password is only stored on the login
+      const { user, auth } = await createUserWithAuth(
+        { name, email },
+        { email, password: hashedPassword, type: AuthType.ADMIN }
+      );
+      await this.passwordService.remember(auth.id, hashedPassword);
+      await this.authService.sendEmailVerification(auth);
 
-      // Return user without password
-      const { password: _, ...userWithoutPassword } = user;
-      return userWithoutPassword;
+      return user;
     } catch (error) {
       if (error instanceof AppError) {
         throw error;
@@ -106,6 +105,9 @@ export class UserService {
 
   /**
    * Update a user
+   * @param options.requireCurrentPassword Whether a change of the email or password must be confirmed with
+   * the current password, for users updating themselves
+   * @throws AppError 400 when the current password is missing, 401 when it is incorrect
    */
   public async updateUser(
     id: string,
@@ -114,45 +116,94 @@ export class UserService {
       email?: string;
       password?: string;
       isActive?: boolean;
-    }
-  ): Promise<Omit<User, "password">> {
+      currentPassword?: string;
+    },
+    context: RequestContext = {},
+    options: { requireCurrentPassword?: boolean } = {}
+  ): Promise<User> {
     try {
-      const { name, email, password, isActive } = updateData;
+      const { name, email, password, isActive, currentPassword } = updateData;
 
-      // Find user
+      // Find user and its login
       const user = await findUserById(id);
       if (!user) {
         throw new AppError("User not found", 404);
       }
+      const auth = await findAuthByUserId(id);
+      const wasActive = user.isActive;
+
+      if (password !== undefined && !auth) {
+        throw new AppError("User has no login to set a password for", 400);
+      }
 
-      // Create updated user object
-      const updatedUser: any = { ...user };
+      const emailChanged = email !== undefined && email !== user.email;
+
+      // Credentials of the own login are only changed with the current password
+      if (options.requireCurrentPassword && auth && (emailChanged || password !== undefined)) {
+        if (!currentPassword) {
+          throw new AppError("Current password is required", 400);
+        }
+        const login = await findAuthByEmail(auth.email, true);
+        if (!login || !(await bcrypt.compare(currentPassword, login.password))) {
+          throw new AppError("Current password is incorrect", 401);
+        }
+      }
 
       // Update user properties
-      if (name !== undefined) updatedUser.name = name;
+      if (name !== undefined) user.name = name;
 
-      // If email is being updated, check it's not already in use
-      if (email !== undefined && email !== user.email) {
+      // If email is being updated, check it's not already in use by a user or another login
+      if (emailChanged) {
         const existingUser = await findUserByEmail(email);
         if (existingUser) {
           throw new AppError("Email is already in use", 409);
         }
-        updatedUser.email = email;
+
+        const existingAuth = await findAuthByEmail(email);
+        if (existingAuth && existingAuth.id !== auth?.id) {
+          throw new AppError("Email is already in use", 409);
+        }
+        user.email = email;
       }
 
-      // If password is being updated, hash it
-      if (password !== undefined) {
-        updatedUser.password = await bcrypt.hash(password, 10);
+      if (isActive !== undefined) user.isActive = isActive;
+
+      // Credentials live on the login: keep its email in sync, the new address has to be verified again
+      if (auth) {
+        if (emailChanged) {
+          auth.email = email;
+          auth.emailVerifiedAt = null;
+        }
+        if (password !== undefined) {
+          await this.passwordService.assertAllowed(password, { name: user.name, email: user.email }, auth.id);
+          auth.password = await this.passwordService.hash(password);
+        }
+      }
+
+      // Save the user and its login together
+      const savedUser = await updateUserWithAuth(user, auth);
+
+      if (auth && password !== undefined) {
+        await this.passwordService.remember(auth.id, auth.password);
       }
 
-      if (isActive !== undefined) updatedUser.isActive = isActive;
+      if (auth && emailChanged) {
+        await this.authService.sendEmailVerification(auth);
+      }
 
-      // Save updated user
-      const savedUser = await updateUser(updatedUser);
+      // Sessions opened with the old password, or by a deactivated user, must not survive
+      if (auth && (password !== undefined || isActive === false)) {
+        await this.authService.revokeAllSessions(auth.id);
+      }
 
-      // Return updated user without password
-      const { password: _, ...userWithoutPassword } = savedUser;
-      return userWithoutPassword;
+      if (auth && password !== undefined) {
+        await this.securityEventService.record(SecurityEventType.PASSWORD_CHANGE, { authId: auth.id, email: auth.email }, context);
+      }
+      if (auth && wasActive && isActive === false) {
+        await this.securityEventService.record(SecurityEventType.ACCOUNT_DEACTIVATION, { authId: auth.id, email: auth.email }, context);
+      }
+
+      return savedUser;
     } catch (error) {
       if (error instanceof AppError) {
         throw error;
@@ -163,9 +214,9 @@ export class UserService {
   }
 
   /**
-   * Update user password
+   * Assign a role to a user (admin function)
    */
-  public async updatePassword(id: string, newPassword: string): Promise<void> {
+  public async changeUserRole(id: string, roleId: string, context: RequestContext = {}): Promise<User> {
     try {
       // Find user
       const user = await findUserById(id);
@@ -173,14 +224,53 @@ export class UserService {
         throw new AppError("User not found", 404);
       }
 
-      // Hash new password
-      const hashedPassword = await bcrypt.hash(newPassword, 10);
+      // Find role
+      const role = await findRoleById(roleId);
+      if (!role) {
+        throw new AppError("Role not found", 404);
+      }
+
+      if (!role.isActive) {
+        throw new AppError("Role is inactive", 400);
+      }
+
+      const previousRole = user.role;
+      user.role = role;
+      const savedUser = await updateUser(user);
+
+      const auth = await findAuthByUserId(id);
+      if (auth && previousRole?.id !== role.id) {
+        await this.securityEventService.record(
+          SecurityEventType.ROLE_CHANGE,
+          { authId: auth.id, email: auth.email },
+          context,
+          { from: previousRole?.name ?? null, to: role.name }
+        );
+      }
+
+      return savedUser;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      this.logger.error(`Error in changeUserRole service for ID ${id}:`, error);
+      throw new AppError("Failed to change user role", 500);
+    }
+  }
+
+  /**
+   * Change a user's password after checking the current one.
+   * The password is stored on the user's login, which also revokes its sessions.
+   */
+  public async updatePassword(id: string, currentPassword: string, newPassword: string, context: RequestContext = {}): Promise<void> {
+    try {
+      // Find the user's login
+      const auth = await findAuthByUserId(id);
+      if (!auth) {
+        throw new AppError("User not found", 404);
+      }
 
-      // Update user with new password
-      await updateUser({
-        ...user,
-        password: hashedPassword
-      });
+      await this.authService.changePassword(auth.email, currentPassword, newPassword, context);
     } catch (error) {
       if (error instanceof AppError) {
         throw error;
@@ -202,7 +292,7 @@ export class UserService {
       }
 
       // Delete user
-      await deleteUser(user as any); // Type casting needed due to Omit<User, "password">
+      await deleteUser(user);
     } catch (error) {
       if (error instanceof AppError) {
         throw error;
@@ -8,6 +8,19 @@ import { ClientService } from './ClientService';
 import { RoleService } from './RoleService';
 import { MonthlyBudgetService } from './MonthlyBudgetService';
 import { DailyTransactionService } from './DailyTransactionService';
+import { MailService } from './MailService';
+import { LoginAttemptService } from './LoginAttemptService';
+import { ClientInvitationService } from './ClientInvitationService';
+import { ApiKeyService } from './ApiKeyService';
+import { SessionService } from './SessionService';
+import { ImpersonationService } from './ImpersonationService';
+import { PasswordService } from './PasswordService';
+import { JwtKeyService } from './JwtKeyService';
+import { SecurityEventService } from './SecurityEventService';
+import { StatsService } from './StatsService';
+import { ActivityService } from './ActivityService';
+import { BudgetLedgerService } from './BudgetLedgerService';
+import { CategoryBudgetService } from './CategoryBudgetService';
 
 export {
   AuthService,
@@ -19,5 +32,18 @@ export {
   ClientService,
   RoleService,
   MonthlyBudgetService,
-  DailyTransactionService
+  DailyTransactionService,
+  MailService,
+  LoginAttemptService,
+  ClientInvitationService,
+  ApiKeyService,
+  SessionService,
+  ImpersonationService,
+  PasswordService,
+  JwtKeyService,
+  SecurityEventService,
+  StatsService,
+  ActivityService,
+  BudgetLedgerService,
+  CategoryBudgetService
 };
@@ -0,0 +1,220 @@
+import { DailyTransaction, TransactionType } from "../entities/DailyTransaction";
+import { MonthlyBudget } from "../entities/MonthlyBudget";
+import { RolloverPolicy } from "../entities/Client";
+
+/**
+ * Balances of a budget as derived from its transactions
+ * runningBalances maps each transaction ID to the remaining balance after it.
+ */
+export interface LedgerBalances {
+  remainingBalance: number;
+  runningBalances: Map<string, number>;
+}
+
+/**
+ * Round an amount to cents, the precision of the balance columns
+ * @param amount Amount
+ * @returns Rounded amount
+ */
+export const roundCents = (amount: number): number => {
+  return Math.round(amount * 100) / 100;
+};
+
+/**
+ * Effect of a transaction on the remaining balance of its budget: income adds, expenses subtract
+ * @param amount Transaction amount
+ * @param type Transaction type
+ * @returns Signed amount
+ */
+export const balanceEffect = (amount: number, type: TransactionType): number => {
+  return type === TransactionType.INCOME ? Number(amount) : -Number(amount);
+};
+
+/**
+ * Amount a budget starts the month with: its budget amount, or that percentage of the monthly salary
+ * @param budget Monthly budget
+ * @returns Budget total
+ */
+export const getBudgetTotal = (budget: Pick<MonthlyBudget, "budgetAmount" | "isPercentage" | "monthlySalary">): number => {
+  return budget.isPercentage
+    ? roundCents((Number(budget.monthlySalary) * Number(budget.budgetAmount)) / 100)
+    : Number(budget.budgetAmount);
+};
+
+/**
+ * Balance a budget starts the month with: its budget total plus the amount carried over from the previous month
+ * @param budget Monthly budget
+ * @returns Opening balance
+ */
+export const getOpeningBalance = (
+  budget: Pick<MonthlyBudget, "budgetAmount" | "isPercentage" | "monthlySalary" | "carriedOverAmount">
+): number => {
+  return roundCents(getBudgetTotal(budget) + Number(budget.carriedOverAmount ?? 0));
+};
+
+/**
+ * Amount of an earlier budget's remaining balance carried into a later one under a rollover policy.
+ * A surplus is a positive balance, a deficit a negative one.
+ * @param policy Rollover policy of the client
+ * @param previousRemainingBalance Remaining balance of the client's latest earlier budget
+ * @returns Carried amount
+ */
+export const getCarriedOverAmount = (policy: RolloverPolicy, previousRemainingBalance: number): number => {
+  const remainingBalance = roundCents(Number(previousRemainingBalance));
+  switch (policy) {
+    case RolloverPolicy.SURPLUS:
+      return Math.max(0, remainingBalance);
+    case RolloverPolicy.DEFICIT:
+      return Math.min(0, remainingBalance);
+    case RolloverPolicy.BOTH:
+      return remainingBalance;
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Calendar day of a transaction as YYYY-MM-DD.
+ * Date columns are read as strings, but entities built in memory may still hold a Date.
+ * @param date Transaction date
+ * @returns Day key
+ */
+const toDayKey = (date: Date | string): string => {
+  if (typeof date === "string") {
+    return date.slice(0, 10);
+  }
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Order of the ledger: by date, then by creation for transactions of the same day
+ * @param a Transaction
+ * @param b Transaction
+ * @returns Sort order
+ */
+export const compareLedgerOrder = (a: DailyTransaction, b: DailyTransaction): number => {
+  return toDayKey(a.date).localeCompare(toDayKey(b.date))
+    || new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+    || a.id.localeCompare(b.id);
+};
+
+/**
+ * Derive the balances of a budget from its transactions, replayed in ledger order from its opening balance
+ * @param budget Monthly budget
+ * @param transactions Every transaction of the budget, in any order
+ * @returns Remaining balance of the budget and the running balance after each transaction
+ */
+export const computeLedger = (
+  budget: Pick<MonthlyBudget, "budgetAmount" | "isPercentage" | "monthlySalary" | "carriedOverAmount">,
+  transactions: DailyTransaction[]
+): LedgerBalances => {
+  const runningBalances = new Map<string, number>();
+  let balance = getOpeningBalance(budget);
+
+  for (const transaction of [...transactions].sort(compareLedgerOrder)) {
+    balance = roundCents(balance + balanceEffect(transaction.amount, transaction.type));
+    runningBalances.set(transaction.id, balance);
+  }
+
+  return { remainingBalance: balance, runningBalances };
+};
+
+/**
+ * Daily allowance of a budget and how its spending compares to an even pace
+ */
+export interface BudgetPacing {
+  budgetTotal: number;
+  carriedOverAmount: number;
+  remainingBalance: number;
+  daysInMonth: number;
+  daysLeft: number;
+  safeToSpendToday: number;
+  spentToday: number;
+  leftToSpendToday: number;
+  spentSoFar: number;
+  expectedSpentSoFar: number;
+  paceDifference: number;
+  paceStatus: "ahead" | "on_pace" | "behind";
+  projectedEndOfMonthBalance: number;
+}
+
+/**
+ * Compute the pacing of a budget from its transactions.
+ * The balances start from the opening balance, so an amount carried over is spread over the month; the pace compares
+ * spending with the budget total only.
+ * - safeToSpendToday: balance at the start of today spread over the days left, today included
+ * - spentToday: expenses minus income dated today, leftToSpendToday is what remains of the allowance
+ * - paceStatus: spending through today compared to an even spread of the budget, within 1% of the budget is on pace
+ * - projectedEndOfMonthBalance: the balance if the average daily spending so far continues
+ * Past months are fully elapsed, future months have not started.
+ * @param budget Monthly budget
+ * @param transactions Every transaction of the budget
+ * @param today Current date
+ * @returns Pacing figures
+ */
+export const computePacing = (
+  budget: Pick<
+    MonthlyBudget,
+    "year" | "month" | "daysInMonth" | "budgetAmount" | "isPercentage" | "monthlySalary" | "carriedOverAmount"
+  >,
+  transactions: DailyTransaction[],
+  today: Date = new Date()
+): BudgetPacing => {
+  const budgetTotal = getBudgetTotal(budget);
+  const openingBalance = getOpeningBalance(budget);
+  const todayKey = toDayKey(today);
+  const monthOffset = (budget.year - today.getFullYear()) * 12 + (budget.month - (today.getMonth() + 1));
+
+  // Days of the month through today: all of them for past months, none for future ones
+  const daysElapsed = monthOffset < 0 ? budget.daysInMonth : monthOffset > 0 ? 0 : today.getDate();
+  const daysLeft = budget.daysInMonth - daysElapsed + (monthOffset === 0 ? 1 : 0);
+
+  let effectBeforeToday = 0;
+  let effectToday = 0;
+  let effectTotal = 0;
+  for (const transaction of transactions) {
+    const effect = balanceEffect(transaction.amount, transaction.type);
+    const dayKey = toDayKey(transaction.date);
+    effectTotal += effect;
+    if (dayKey < todayKey) {
+      effectBeforeToday += effect;
+    } else if (dayKey === todayKey) {
+      effectToday += effect;
+    }
+  }
+
+  const remainingBalance = roundCents(openingBalance + effectTotal);
+  const spentToday = monthOffset === 0 ? roundCents(-effectToday) : 0;
+  const safeToSpendToday = daysLeft > 0 && monthOffset === 0
+    ? roundCents(Math.max(0, openingBalance + effectBeforeToday) / daysLeft)
+    : daysLeft > 0 ? roundCents(Math.max(0, openingBalance) / budget.daysInMonth) : 0;
+
+  const spentSoFar = monthOffset < 0 ? roundCents(-effectTotal) : roundCents(-(effectBeforeToday + effectToday));
+  const expectedSpentSoFar = roundCents((budgetTotal * daysElapsed) / budget.daysInMonth);
+  const paceDifference = roundCents(expectedSpentSoFar - spentSoFar);
+  const tolerance = Math.abs(budgetTotal) * 0.01;
+
+  const projectedEndOfMonthBalance = monthOffset < 0
+    ? remainingBalance
+    : daysElapsed === 0
+      ? openingBalance
+      : roundCents(openingBalance - (spentSoFar / daysElapsed) * budget.daysInMonth);
+
+  return {
+    budgetTotal,
+    carriedOverAmount: Number(budget.carriedOverAmount ?? 0),
+    remainingBalance,
+    daysInMonth: budget.daysInMonth,
+    daysLeft,
+    safeToSpendToday,
+    spentToday,
+    leftToSpendToday: roundCents(safeToSpendToday - spentToday),
+    spentSoFar,
+    expectedSpentSoFar,
+    paceDifference,
+    paceStatus: Math.abs(paceDifference) <= tolerance ? "on_pace" : paceDifference > 0 ? "ahead" : "behind",
+    projectedEndOfMonthBalance
+  };
+};
@@ -0,0 +1,61 @@
+import { Request } from "express";
+
+/**
+ * Information about the request that triggered an operation
+ * actorAuthId is the authenticated account behind the request (the admin when impersonating)
+ */
+export interface RequestContext {
+  ipAddress?: string;
+  userAgent?: string;
+  actorAuthId?: string;
+}
+
+/**
+ * Extract the request context (IP address, user agent, acting account) from an Express request
+ * @param req Request object
+ * @returns Request context
+ */
+export const getRequestContext = (req: Request): RequestContext => {
+  return {
+    ipAddress: req.ip,
+    userAgent: req.get("user-agent"),
+    actorAuthId: req.impersonatorAuthId ?? req.authId
+  };
+};
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+  [/okhttp|Dart|CFNetwork/, "Mobile app"],
+  [/curl|PostmanRuntime|python-requests|axios|node-fetch/, "API client"]
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/Android/, "Android"],
+  [/iPhone|iPad|iOS/, "iOS"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/Linux/, "Linux"]
+];
+
+/**
+ * Describe the device behind a user agent, e.g. "Chrome on Windows"
+ * @param userAgent User agent header
+ * @returns Device description, or undefined without a user agent
+ */
+export const describeDevice = (userAgent?: string): string | undefined => {
+  if (!userAgent) {
+    return undefined;
+  }
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && platform) {
+    return `${browser} on ${platform}`;
+  }
+  return browser ?? platform ?? "Unknown device";
+};
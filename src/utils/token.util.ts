@@ -0,0 +1,20 @@
+import { createHash, randomBytes } from "crypto";
+
+/**
+ * Generate a random opaque token (URL safe)
+ * @param bytes Number of random bytes
+ * @returns Token string
+ */
+export const generateOpaqueToken = (bytes: number = 48): string => {
+  return randomBytes(bytes).toString("base64url");
+};
+
+/**
+ * Hash an opaque token for storage.
+ * Tokens are high entropy, so a fast SHA-256 digest is enough and keeps lookups by hash possible.
+ * @param token Plain token
+ * @returns Hex encoded hash
+ */
+export const hashToken = (token: string): string => {
+  return createHash("sha256").update(token).digest("hex");
+};
@@ -0,0 +1,138 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+
+/**
+ * Encode a buffer as base32 (RFC 4648, no padding)
+ * @param buffer Bytes to encode
+ * @returns Base32 string
+ */
+export const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+/**
+ * Decode a base32 string (RFC 4648, padding and case insensitive)
+ * @param input Base32 string
+ * @returns Decoded bytes
+ */
+export const base32Decode = (input: string): Buffer => {
+  const cleaned = input.toUpperCase().replace(/=+$/, "").replace(/\s/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error("Invalid base32 character");
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+/**
+ * Generate a new random TOTP secret
+ * @returns Base32 encoded secret (160 bits)
+ */
+export const generateTotpSecret = (): string => {
+  return base32Encode(randomBytes(20));
+};
+
+/**
+ * Get the TOTP time step for a timestamp
+ * @param timestamp Time in milliseconds
+ * @returns Time step counter
+ */
+export const getTotpStep = (timestamp: number = Date.now()): number => {
+  return Math.floor(timestamp / 1000 / TOTP_STEP_SECONDS);
+};
+
+/**
+ * Generate the TOTP code for a time step (RFC 6238, HMAC-SHA1, 6 digits)
+ * @param secret Base32 encoded secret
+ * @param step Time step counter
+ * @returns Zero padded code
+ */
+export const generateTotp = (secret: string, step: number = getTotpStep()): string => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = ((hmac[offset] & 0x7f) << 24)
+    | (hmac[offset + 1] << 16)
+    | (hmac[offset + 2] << 8)
+    | hmac[offset + 3];
+
+  return (binary % Math.pow(10, TOTP_DIGITS)).toString().padStart(TOTP_DIGITS, "0");
+};
+
+/**
+ * Verify a TOTP code, allowing for clock drift
+ * @param secret Base32 encoded secret
+ * @param code Code entered by the user
+ * @param window Number of steps accepted before and after the current one
+ * @returns The matching time step, or null if the code is invalid
+ */
+export const verifyTotp = (secret: string, code: string, window: number = 1): number | null => {
+  const normalized = code.replace(/\s/g, "");
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) {
+    return null;
+  }
+
+  const currentStep = getTotpStep();
+  for (let step = currentStep - window; step <= currentStep + window; step++) {
+    const expected = Buffer.from(generateTotp(secret, step));
+    if (timingSafeEqual(expected, Buffer.from(normalized))) {
+      return step;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Build an otpauth:// provisioning URI, rendered as a QR code by authenticator apps
+ * @param secret Base32 encoded secret
+ * @param accountName Account label (usually the email)
+ * @param issuer Issuer name shown in the app
+ * @returns Provisioning URI
+ */
+export const buildOtpauthUrl = (secret: string, accountName: string, issuer: string): string => {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: TOTP_DIGITS.toString(),
+    period: TOTP_STEP_SECONDS.toString()
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
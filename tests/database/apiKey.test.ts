@@ -0,0 +1,54 @@
+import { AppDataSource } from "../../src/config/data-source";
+import { ApiKey } from "../../src/entities/ApiKey";
+import { Auth, AuthType } from "../../src/entities/Auth";
+import { PermissionType } from "../../src/entities/Permission";
+import { ApiKeyService } from "../../src/services/ApiKeyService";
+import { describeWithDatabase, useTestDatabase } from "../helpers/database";
+
+describeWithDatabase("API key limit (database)", () => {
+  useTestDatabase();
+
+  beforeAll(() => {
+    process.env.API_KEY_MAX_PER_ACCOUNT = "3";
+  });
+
+  afterAll(() => {
+    delete process.env.API_KEY_MAX_PER_ACCOUNT;
+  });
+
+  const createAuth = (email: string): Promise<Auth> => AppDataSource.getRepository(Auth).save({
+    email,
+    password: "not-a-real-hash",
+    type: AuthType.CLIENT
+  });
+
+  const createKey = (auth: Auth) => new ApiKeyService().createApiKey(auth.id, [PermissionType.BUDGETS_READ], {
+    name: "script",
+    scopes: [PermissionType.BUDGETS_READ]
+  });
+
+  it("creates no more than the limit when many keys are requested at once", async () => {
+    const auth = await createAuth("parallel-keys@appfree.test");
+
+    const results = await Promise.allSettled(Array.from({ length: 10 }, () => createKey(auth)));
+
+    expect(results.filter(result => result.status === "fulfilled")).toHaveLength(3);
+    expect(await AppDataSource.getRepository(ApiKey).countBy({ authId: auth.id })).toBe(3);
+  });
+
+  it("does not count expired keys towards the limit", async () => {
+    const auth = await createAuth("expired-keys@appfree.test");
+    await AppDataSource.getRepository(ApiKey).save(["a", "b", "c"].map(prefix => ({
+      name: "old script",
+      prefix: `expired${prefix}`,
+      keyHash: "0".repeat(64),
+      scopes: [PermissionType.BUDGETS_READ],
+      authId: auth.id,
+      expiresAt: new Date(Date.now() - 60 * 1000)
+    })));
+
+    const { apiKey } = await createKey(auth);
+
+    expect(apiKey).not.toHaveProperty("keyHash");
+  });
+});
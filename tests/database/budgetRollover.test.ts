@@ -0,0 +1,51 @@
+import { AppDataSource } from "../../src/config/data-source";
+import { Client, RolloverPolicy } from "../../src/entities/Client";
+import { MonthlyBudget } from "../../src/entities/MonthlyBudget";
+import { TransactionType } from "../../src/entities/Transaction";
+import { createDailyTransactionWithBalance } from "../../src/repositories";
+import { MonthlyBudgetService } from "../../src/services/MonthlyBudgetService";
+import { describeWithDatabase, useTestDatabase } from "../helpers/database";
+
+describeWithDatabase("budget rollover (database)", () => {
+  useTestDatabase();
+
+  const load = (id: string): Promise<MonthlyBudget> => AppDataSource.getRepository(MonthlyBudget).findOneByOrFail({ id });
+
+  it("carries later changes of an earlier month into the following budgets, across skipped months", async () => {
+    const client = await AppDataSource.getRepository(Client).save({
+      name: "Rollover client",
+      email: "rollover@appfree.test",
+      cpf: "11122233344",
+      rolloverPolicy: RolloverPolicy.BOTH
+    });
+    const service = new MonthlyBudgetService();
+
+    const august = await service.getOrCreateMonthlyBudget(client.id, 2026, 8);
+    await service.updateBudgetAmount(august.id, 1000, false);
+
+    // September is skipped: October carries from August, November from October
+    const october = await service.getOrCreateMonthlyBudget(client.id, 2026, 10);
+    const november = await service.getOrCreateMonthlyBudget(client.id, 2026, 11);
+    expect(Number((await load(october.id)).carriedOverAmount)).toBe(1000);
+    expect((await load(october.id)).carriedOverFromId).toBe(august.id);
+
+    await createDailyTransactionWithBalance({
+      description: "rent",
+      amount: 400,
+      type: TransactionType.EXPENSE,
+      date: new Date(Date.UTC(2026, 7, 10)),
+      clientId: client.id,
+      monthlyBudgetId: august.id
+    });
+
+    expect(Number((await load(october.id)).carriedOverAmount)).toBe(600);
+    expect(Number((await load(october.id)).remainingBalance)).toBe(600);
+    expect(Number((await load(november.id)).carriedOverAmount)).toBe(600);
+
+    await service.updateRolloverSettings(client.id, { rolloverPolicy: RolloverPolicy.NONE });
+
+    expect(Number((await load(october.id)).carriedOverAmount)).toBe(0);
+    expect((await load(october.id)).carriedOverFromId).toBeNull();
+    expect(Number((await load(november.id)).remainingBalance)).toBe(0);
+  });
+});
@@ -0,0 +1,123 @@
+import { AppDataSource } from "../../src/config/data-source";
+import { Client } from "../../src/entities/Client";
+import { DailyTransaction } from "../../src/entities/DailyTransaction";
+import { MonthlyBudget } from "../../src/entities/MonthlyBudget";
+import { TransactionType } from "../../src/entities/Transaction";
+import { DailyTransactionService } from "../../src/services/DailyTransactionService";
+import {
+  createDailyTransactionWithBalance,
+  deleteDailyTransactionWithBalance,
+  updateDailyTransactionWithBalance
+} from "../../src/repositories";
+import { computeLedger } from "../../src/utils/ledger.util";
+import { describeWithDatabase, useTestDatabase } from "../helpers/database";
+
+describeWithDatabase("daily transaction ledger writes (database)", () => {
+  useTestDatabase();
+
+  let client: Client;
+  let october: MonthlyBudget;
+  let november: MonthlyBudget;
+
+  const createBudget = (month: number): Promise<MonthlyBudget> => AppDataSource.getRepository(MonthlyBudget).save({
+    clientId: client.id,
+    year: 2026,
+    month,
+    monthlySalary: 5000,
+    budgetAmount: 1000,
+    remainingBalance: 1000,
+    daysInMonth: new Date(2026, month, 0).getDate()
+  });
+
+  const record = (budget: MonthlyBudget, day: number, amount: number): Promise<DailyTransaction> =>
+    createDailyTransactionWithBalance({
+      description: `expense on ${day}/${budget.month}`,
+      amount,
+      type: TransactionType.EXPENSE,
+      date: new Date(Date.UTC(budget.year, budget.month - 1, day)),
+      clientId: client.id,
+      monthlyBudgetId: budget.id
+    });
+
+  const load = (id: string): Promise<DailyTransaction> => AppDataSource.getRepository(DailyTransaction).findOneByOrFail({ id });
+
+  const expectConsistent = async (budget: MonthlyBudget): Promise<void> => {
+    const stored = await AppDataSource.getRepository(MonthlyBudget).findOneByOrFail({ id: budget.id });
+    const transactions = await AppDataSource.getRepository(DailyTransaction).findBy({ monthlyBudgetId: budget.id });
+    const { remainingBalance, runningBalances } = computeLedger(stored, transactions);
+
+    expect(Number(stored.remainingBalance)).toBe(remainingBalance);
+    for (const transaction of transactions) {
+      expect(Number(transaction.remainingBalanceAfterTransaction)).toBe(runningBalances.get(transaction.id));
+    }
+  };
+
+  beforeAll(async () => {
+    client = await AppDataSource.getRepository(Client).save({
+      name: "Ledger client",
+      email: "ledger@appfree.test",
+      cpf: "98765432100"
+    });
+    october = await createBudget(10);
+    november = await createBudget(11);
+  });
+
+  it("keeps both budgets consistent under parallel creates, updates, moves and deletes", async () => {
+    const inOctober = [];
+    const inNovember = [];
+    for (let day = 1; day <= 10; day++) {
+      inOctober.push(await record(october, day, 10 * day));
+      inNovember.push(await record(november, day, 5 * day));
+    }
+
+    // Moves in both directions lock the same two budgets; they must wait for each other, not deadlock
+    const moveTo = (id: string, budget: MonthlyBudget, day: number) => updateDailyTransactionWithBalance(id, {
+      monthlyBudgetId: budget.id,
+      date: new Date(Date.UTC(budget.year, budget.month - 1, day))
+    });
+    const changeAmount = (id: string, amount: number) => updateDailyTransactionWithBalance(id, { amount });
+
+    const results = await Promise.allSettled([
+      ...inOctober.slice(0, 4).map((transaction, index) => moveTo(transaction.id, november, 20 + index)),
+      ...inNovember.slice(0, 4).map((transaction, index) => moveTo(transaction.id, october, 20 + index)),
+      ...inOctober.slice(4, 7).map(transaction => changeAmount(transaction.id, 1)),
+      ...inNovember.slice(4, 7).map(transaction => changeAmount(transaction.id, 2)),
+      ...inOctober.slice(7).map(transaction => deleteDailyTransactionWithBalance(transaction.id)),
+      ...inNovember.slice(7).map(transaction => deleteDailyTransactionWithBalance(transaction.id)),
+      ...Array.from({ length: 6 }, (_, index) => record(index % 2 === 0 ? october : november, 15 + index, 3))
+    ]);
+
+    expect(results.filter(result => result.status === "rejected")).toEqual([]);
+    expect(await AppDataSource.getRepository(DailyTransaction).countBy({ monthlyBudgetId: october.id })).toBe(10);
+    expect(await AppDataSource.getRepository(DailyTransaction).countBy({ monthlyBudgetId: november.id })).toBe(10);
+    await expectConsistent(october);
+    await expectConsistent(november);
+  });
+
+  it("keeps concurrent edits of different fields of the same transaction", async () => {
+    const september = await createBudget(9);
+    const transaction = await record(september, 1, 100);
+
+    await Promise.all([
+      updateDailyTransactionWithBalance(transaction.id, { description: "rent" }),
+      updateDailyTransactionWithBalance(transaction.id, { amount: 80 })
+    ]);
+
+    const updated = await load(transaction.id);
+    expect(updated.description).toBe("rent");
+    expect(Number(updated.amount)).toBe(80);
+    await expectConsistent(september);
+  });
+
+  it("recomputes the running balances when a transaction moves to another day of the month", async () => {
+    const december = await createBudget(12);
+    const first = await record(december, 1, 100);
+    const second = await record(december, 2, 50);
+
+    await new DailyTransactionService().updateDailyTransaction(first.id, { date: new Date(2026, 11, 3) });
+
+    expect(Number((await load(second.id)).remainingBalanceAfterTransaction)).toBe(950);
+    expect(Number((await load(first.id)).remainingBalanceAfterTransaction)).toBe(850);
+    await expectConsistent(december);
+  });
+});
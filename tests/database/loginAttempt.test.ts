@@ -0,0 +1,42 @@
+import { AppDataSource } from "../../src/config/data-source";
+import { Auth, AuthType } from "../../src/entities/Auth";
+import { LoginAttempt, LoginAttemptEvent } from "../../src/entities/LoginAttempt";
+import { LoginAttemptService } from "../../src/services/LoginAttemptService";
+import { describeWithDatabase, useTestDatabase } from "../helpers/database";
+
+describeWithDatabase("failed login counting (database)", () => {
+  useTestDatabase();
+
+  beforeAll(() => {
+    process.env.LOGIN_MAX_FAILED_ATTEMPTS = "5";
+  });
+
+  afterAll(() => {
+    delete process.env.LOGIN_MAX_FAILED_ATTEMPTS;
+  });
+
+  it("counts every one of many parallel failures and locks the account once", async () => {
+    const created = await AppDataSource.getRepository(Auth).save({
+      email: "parallel@appfree.test",
+      password: "not-a-real-hash",
+      type: AuthType.CLIENT
+    });
+    const service = new LoginAttemptService();
+
+    // Each request works on its own copy of the record, as concurrent logins do
+    await Promise.all(Array.from({ length: 20 }, async () => {
+      const auth = await AppDataSource.getRepository(Auth).findOneByOrFail({ id: created.id });
+      await service.recordFailure(auth.email, { ipAddress: "203.0.113.7" }, auth);
+    }));
+
+    const stored = await AppDataSource.getRepository(Auth).findOneByOrFail({ id: created.id });
+    expect(stored.failedLoginAttempts).toBe(20);
+    expect(stored.lockedUntil!.getTime()).toBeGreaterThan(Date.now());
+
+    const lockouts = await AppDataSource.getRepository(LoginAttempt).countBy({
+      authId: created.id,
+      event: LoginAttemptEvent.LOCKOUT
+    });
+    expect(lockouts).toBe(1);
+  });
+});
@@ -0,0 +1,23 @@
+import { AppDataSource } from "../../src/config/data-source";
+
+/**
+ * Database tests need a disposable PostgreSQL database named in TEST_DB_DATABASE (its schema is dropped);
+ * without one they are skipped
+ */
+export const describeWithDatabase: jest.Describe = process.env.TEST_DB_DATABASE ? describe : describe.skip;
+
+/**
+ * Connect to the test database with a fresh schema before the suite and disconnect after it
+ */
+export const useTestDatabase = (): void => {
+  beforeAll(async () => {
+    AppDataSource.setOptions({ dropSchema: true, synchronize: true });
+    await AppDataSource.initialize();
+  });
+
+  afterAll(async () => {
+    if (AppDataSource.isInitialized) {
+      await AppDataSource.destroy();
+    }
+  });
+};
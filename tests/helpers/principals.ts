@@ -0,0 +1,132 @@
+import { randomBytes, randomUUID } from "crypto";
+import { ApiKey } from "../../src/entities/ApiKey";
+import { Auth, AuthType } from "../../src/entities/Auth";
+import { User } from "../../src/entities/User";
+import { Client } from "../../src/entities/Client";
+import { Role, RoleType } from "../../src/entities/Role";
+import { PermissionType } from "../../src/entities/Permission";
+import { DatabaseService } from "../../src/services/DatabaseService";
+import { JwtKeyService } from "../../src/services/JwtKeyService";
+import * as repositories from "../../src/repositories";
+import { hashToken } from "../../src/utils/token.util";
+
+/**
+ * Accounts signed in by the tests, one per built-in role
+ */
+export type TestRole = `${RoleType}`;
+
+export interface TestAccount {
+  auth: Auth;
+  user?: User;
+  client?: Client;
+  permissions: PermissionType[];
+}
+
+/**
+ * Permissions the built-in roles get when the database is seeded
+ */
+export const defaultRolePermissions: Record<RoleType, PermissionType[]> = DatabaseService["defaultRolePermissions"];
+
+const buildRole = (name: RoleType): Role => Object.assign(new Role(), {
+  id: randomUUID(),
+  name,
+  isActive: true,
+  permissions: defaultRolePermissions[name].map(permission => ({ name: permission }))
+});
+
+/**
+ * Build an admin, a manager and a client (managed by the manager) with the default role permissions
+ */
+export const buildAccounts = (): Record<TestRole, TestAccount> => {
+  const roles = {
+    [RoleType.ADMIN]: buildRole(RoleType.ADMIN),
+    [RoleType.MANAGER]: buildRole(RoleType.MANAGER),
+    [RoleType.CLIENT]: buildRole(RoleType.CLIENT)
+  };
+
+  const buildUser = (role: RoleType.ADMIN | RoleType.MANAGER): TestAccount => {
+    const user = Object.assign(new User(), { id: randomUUID(), name: role, isActive: true, role: roles[role] });
+    const auth = Object.assign(new Auth(), {
+      id: randomUUID(),
+      email: `${role}@appfree.test`,
+      type: AuthType.ADMIN,
+      userId: user.id,
+      isActive: true,
+      tokenVersion: 0
+    });
+    return { auth, user, permissions: defaultRolePermissions[role] };
+  };
+
+  const admin = buildUser(RoleType.ADMIN);
+  const manager = buildUser(RoleType.MANAGER);
+
+  const client = Object.assign(new Client(), { id: randomUUID(), name: "client", isActive: true, managerId: manager.user!.id });
+  const clientAuth = Object.assign(new Auth(), {
+    id: randomUUID(),
+    email: "client@appfree.test",
+    type: AuthType.CLIENT,
+    clientId: client.id,
+    isActive: true,
+    tokenVersion: 0
+  });
+
+  return {
+    admin,
+    manager,
+    client: { auth: clientAuth, client, permissions: defaultRolePermissions[RoleType.CLIENT] }
+  };
+};
+
+/**
+ * Make the mocked repositories resolve the accounts the way authMiddleware loads a principal
+ * The repositories module must be mocked with jest.mock by the test.
+ */
+export const mockAccountLookups = (accounts: Record<TestRole, TestAccount>): void => {
+  const mocked = jest.mocked(repositories);
+  const all = Object.values(accounts);
+  const roles = all.map(account => account.user?.role).filter((role): role is Role => !!role);
+
+  mocked.findAuthById.mockImplementation(async id => all.find(account => account.auth.id === id)?.auth ?? null);
+  mocked.findUserById.mockImplementation(async id => all.find(account => account.user?.id === id)?.user ?? null);
+  mocked.findClientById.mockImplementation(async id => all.find(account => account.client?.id === id)?.client ?? null);
+  mocked.findRoleById.mockImplementation(async id => roles.find(role => role.id === id) ?? null);
+  mocked.findRoleByName.mockImplementation(async name => name === RoleType.CLIENT ? buildRole(RoleType.CLIENT) : null);
+  mocked.isTokenRevoked.mockResolvedValue(false);
+};
+
+/**
+ * Sign an access token for an account, the way login does (without a session)
+ */
+export const signAccessToken = (account: TestAccount): string => {
+  return JwtKeyService.getInstance().sign({
+    id: account.auth.id,
+    email: account.auth.email,
+    type: account.auth.type,
+    userId: account.auth.userId,
+    clientId: account.auth.clientId,
+    tv: account.auth.tokenVersion
+  }, { expiresIn: "15m", jwtid: randomUUID() });
+};
+
+/**
+ * Issue an API key of an account with the given scopes and make the mocked repositories resolve it
+ * Call after mockAccountLookups, the key is sent as a bearer token like a JWT.
+ */
+export const mockApiKey = (account: TestAccount, scopes: PermissionType[]): string => {
+  const prefix = randomBytes(6).toString("hex");
+  const key = `afk_${prefix}_${randomBytes(24).toString("base64url")}`;
+  const apiKey = Object.assign(new ApiKey(), {
+    id: randomUUID(),
+    name: "test key",
+    prefix,
+    keyHash: hashToken(key),
+    scopes,
+    authId: account.auth.id,
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    lastUsedAt: new Date(),
+    revokedAt: null
+  });
+
+  jest.mocked(repositories).findApiKeyByPrefix.mockImplementation(async candidate => candidate === prefix ? apiKey : null);
+  return key;
+};
@@ -0,0 +1,40 @@
+import { randomUUID } from "crypto";
+import { AuthType } from "../../src/entities/Auth";
+import { Client } from "../../src/entities/Client";
+import { PermissionType } from "../../src/entities/Permission";
+import { User } from "../../src/entities/User";
+import type { Principal } from "../../src/middlewares/auth.middleware";
+import { can, canAccessAllClients, PolicyAction } from "../../src/policies";
+import { defaultRolePermissions } from "../helpers/principals";
+
+describe("ownership policy", () => {
+  const user = Object.assign(new User(), { id: randomUUID() });
+  const otherClient = Object.assign(new Client(), { id: randomUUID(), managerId: randomUUID() });
+
+  const principal = (role: string, permissions: PermissionType[]): Principal => ({
+    authId: randomUUID(),
+    type: AuthType.ADMIN,
+    role,
+    permissions,
+    user
+  });
+
+  it("gives the built-in admin role access to every client", () => {
+    expect(canAccessAllClients(principal("admin", defaultRolePermissions.admin))).toBe(true);
+    expect(canAccessAllClients(principal("manager", defaultRolePermissions.manager))).toBe(false);
+  });
+
+  it("lets a custom role with clients:all access clients it does not manage", () => {
+    const auditor = principal("auditor", [PermissionType.CLIENTS_READ, PermissionType.CLIENTS_ALL]);
+
+    expect(can(auditor, PolicyAction.READ, otherClient)).toBe(true);
+  });
+
+  it("limits an admin role without clients:all to the clients it manages", () => {
+    const admin = principal("admin", defaultRolePermissions.admin.filter(permission => permission !== PermissionType.CLIENTS_ALL));
+    const managedClient = Object.assign(new Client(), { id: randomUUID(), managerId: user.id });
+
+    expect(can(admin, PolicyAction.READ, otherClient)).toBe(false);
+    expect(can(admin, PolicyAction.READ, managedClient)).toBe(true);
+  });
+});
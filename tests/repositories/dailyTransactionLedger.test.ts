@@ -0,0 +1,231 @@
+import { randomUUID } from "crypto";
+import { EntityManager, EntityTarget, ObjectLiteral, Repository } from "typeorm";
+import { AppDataSource } from "../../src/config/data-source";
+import { Client, RolloverPolicy } from "../../src/entities/Client";
+import { DailyTransaction, TransactionType } from "../../src/entities/DailyTransaction";
+import { MonthlyBudget } from "../../src/entities/MonthlyBudget";
+import {
+  createDailyTransactionWithBalance,
+  deleteDailyTransactionWithBalance,
+  rebuildMonthlyBudgetLedger,
+  updateDailyTransactionWithBalance
+} from "../../src/repositories/dailyTransactionRepository";
+
+type Row = ObjectLiteral;
+
+/**
+ * In-memory stand-in for the tables the ledger writes touch.
+ * Reads return copies, so only what a write saves is kept, like rows read from the database.
+ */
+class LedgerTables {
+  private tables = new Map<EntityTarget<ObjectLiteral>, Map<string, Row>>();
+
+  insert<T extends { id: string }>(entity: new () => T, data: Partial<T>): T {
+    const row = Object.assign(new entity(), { id: randomUUID() }, data);
+    this.table(entity).set(row.id, { ...row });
+    return row;
+  }
+
+  get<T extends { id: string }>(entity: new () => T, id: string): T {
+    return Object.assign(new entity(), this.table(entity).get(id));
+  }
+
+  /**
+   * Entity manager reading and writing these tables.
+   * Monthly budget query builders answer the two ledger queries: the latest budget before a month of a client
+   * when ordered newest first, the budgets after it when ordered oldest first.
+   */
+  manager(): EntityManager {
+    const copy = <T extends ObjectLiteral>(entity: EntityTarget<T>, row: Row): T =>
+      Object.assign(new (entity as new () => T)(), row);
+    const rows = <T extends ObjectLiteral>(entity: EntityTarget<T>): Row[] => [...this.table(entity).values()];
+
+    const manager = {
+      create: <T extends ObjectLiteral>(entity: EntityTarget<T>, data: Partial<T>) => copy(entity, data),
+      findOne: async <T extends ObjectLiteral>(entity: EntityTarget<T>, { where }: { where: { id: string } }) => {
+        const row = this.table(entity).get(where.id);
+        return row ? copy(entity, row) : null;
+      },
+      findOneOrFail: async <T extends ObjectLiteral>(entity: EntityTarget<T>, options: { where: { id: string } }) => {
+        const found = await manager.findOne(entity, options);
+        if (!found) {
+          throw new Error(`${String(entity)} ${options.where.id} not found`);
+        }
+        return found;
+      },
+      find: async <T extends ObjectLiteral>(entity: EntityTarget<T>, { where }: { where: Partial<T> }) =>
+        rows(entity)
+          .filter(row => Object.entries(where).every(([key, value]) => row[key] === value))
+          .map(row => copy(entity, row)),
+      save: async (entity: EntityTarget<ObjectLiteral>, saved: Row | Row[]) => {
+        for (const row of Array.isArray(saved) ? saved : [saved]) {
+          row.id ??= randomUUID();
+          this.table(entity).set(row.id, { ...row });
+        }
+        return saved;
+      },
+      remove: async (entity: EntityTarget<ObjectLiteral>, removed: Row) => {
+        this.table(entity).delete(removed.id);
+        return removed;
+      },
+      createQueryBuilder: () => this.budgetQuery()
+    };
+    return manager as unknown as EntityManager;
+  }
+
+  private budgetQuery() {
+    const parameters: { clientId?: string; year?: number; month?: number } = {};
+    let newestFirst = false;
+    const matching = (): MonthlyBudget[] => {
+      const key = parameters.year! * 12 + parameters.month!;
+      return [...this.table(MonthlyBudget).values()]
+        .map(row => Object.assign(new MonthlyBudget(), row))
+        .filter(budget => budget.clientId === parameters.clientId)
+        .filter(budget => (newestFirst ? budget.year * 12 + budget.month < key : budget.year * 12 + budget.month > key))
+        .sort((a, b) => (a.year * 12 + a.month - (b.year * 12 + b.month)) * (newestFirst ? -1 : 1));
+    };
+    const query = {
+      where: (_condition: string, values: object) => Object.assign(parameters, values) && query,
+      andWhere: (_condition: string, values: object) => Object.assign(parameters, values) && query,
+      orderBy: (_column: string, order: "ASC" | "DESC") => {
+        newestFirst = order === "DESC";
+        return query;
+      },
+      addOrderBy: () => query,
+      getOne: async () => matching()[0] ?? null,
+      getMany: async () => matching()
+    };
+    return query;
+  }
+
+  private table(entity: EntityTarget<ObjectLiteral>): Map<string, Row> {
+    if (!this.tables.has(entity)) {
+      this.tables.set(entity, new Map());
+    }
+    return this.tables.get(entity)!;
+  }
+}
+
+describe("daily transaction ledger writes", () => {
+  let tables: LedgerTables;
+  let client: Client;
+
+  const budget = (month: number, budgetAmount: number, balances: Partial<MonthlyBudget> = {}): MonthlyBudget =>
+    tables.insert(MonthlyBudget, {
+      clientId: client.id,
+      year: 2026,
+      month,
+      monthlySalary: 5000,
+      budgetAmount,
+      isPercentage: false,
+      carriedOverAmount: 0,
+      remainingBalance: budgetAmount,
+      ...balances
+    });
+  const expense = (budgetId: string, day: number, amount: number, createdAt = new Date(2026, 9, day)) =>
+    createDailyTransactionWithBalance({
+      description: `expense of ${amount}`,
+      amount,
+      type: TransactionType.EXPENSE,
+      date: new Date(2026, 9, day),
+      createdAt,
+      clientId: client.id,
+      monthlyBudgetId: budgetId
+    });
+  const balanceOf = (id: string): number => Number(tables.get(MonthlyBudget, id).remainingBalance);
+  const runningBalanceOf = (id: string): number => Number(tables.get(DailyTransaction, id).remainingBalanceAfterTransaction);
+
+  beforeEach(() => {
+    tables = new LedgerTables();
+    client = tables.insert(Client, { name: "Ledger client", rolloverPolicy: RolloverPolicy.SURPLUS });
+
+    const manager = tables.manager();
+    jest.spyOn(AppDataSource, "transaction").mockImplementation(
+      (async (run: (manager: EntityManager) => Promise<unknown>) => run(manager)) as typeof AppDataSource.transaction
+    );
+    jest.spyOn(AppDataSource, "getRepository").mockReturnValue(manager as unknown as Repository<ObjectLiteral>);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("replays the running balances in ledger order whatever order the transactions are created in", async () => {
+    const october = budget(10, 1000);
+
+    const late = await expense(october.id, 20, 100);
+    const sameDayLater = await expense(october.id, 5, 30, new Date(2026, 9, 5, 18));
+    const sameDayEarlier = await expense(october.id, 5, 20, new Date(2026, 9, 5, 9));
+
+    expect(runningBalanceOf(sameDayEarlier.id)).toBe(980);
+    expect(runningBalanceOf(sameDayLater.id)).toBe(950);
+    expect(runningBalanceOf(late.id)).toBe(850);
+    expect(balanceOf(october.id)).toBe(850);
+  });
+
+  it("carries a changed balance into the following budgets and stops at the first one that stays the same", async () => {
+    const august = budget(8, 100);
+    const october = budget(10, 0, { carriedOverAmount: 100, carriedOverFromId: august.id, remainingBalance: 100 });
+    await expense(october.id, 10, 500);
+    const november = budget(11, 200, { remainingBalance: 200 });
+    // Left inconsistent on purpose: it is only rebuilt if the carry reaches it
+    const december = budget(12, 300, { remainingBalance: 999 });
+
+    await createDailyTransactionWithBalance({
+      description: "groceries",
+      amount: 50,
+      type: TransactionType.EXPENSE,
+      date: new Date(2026, 7, 12),
+      clientId: client.id,
+      monthlyBudgetId: august.id
+    });
+
+    expect(balanceOf(august.id)).toBe(50);
+    expect(tables.get(MonthlyBudget, october.id)).toMatchObject({ carriedOverAmount: 50, carriedOverFromId: august.id });
+    expect(balanceOf(october.id)).toBe(-450);
+    expect(tables.get(MonthlyBudget, november.id)).toMatchObject({ carriedOverAmount: 0, carriedOverFromId: null });
+    expect(balanceOf(november.id)).toBe(200);
+    expect(balanceOf(december.id)).toBe(999);
+  });
+
+  it("rebuilds both budgets when a transaction moves to another month", async () => {
+    const september = budget(9, 500);
+    const october = budget(10, 1000, { carriedOverAmount: 500, carriedOverFromId: september.id, remainingBalance: 1500 });
+    client.rolloverPolicy = RolloverPolicy.BOTH;
+    await tables.manager().save(Client, client);
+    const moved = await expense(october.id, 3, 200);
+    const kept = await expense(october.id, 4, 100);
+
+    await updateDailyTransactionWithBalance(moved.id, { date: new Date(2026, 8, 28), monthlyBudgetId: september.id });
+
+    expect(balanceOf(september.id)).toBe(300);
+    expect(runningBalanceOf(moved.id)).toBe(300);
+    expect(tables.get(MonthlyBudget, october.id).carriedOverAmount).toBe(300);
+    expect(runningBalanceOf(kept.id)).toBe(1200);
+    expect(balanceOf(october.id)).toBe(1200);
+  });
+
+  it("rebuilds the budget without a deleted transaction", async () => {
+    const october = budget(10, 1000);
+    const deleted = await expense(october.id, 2, 300);
+    const kept = await expense(october.id, 9, 100);
+
+    await deleteDailyTransactionWithBalance(deleted.id);
+
+    expect(runningBalanceOf(kept.id)).toBe(900);
+    expect(balanceOf(october.id)).toBe(900);
+  });
+
+  it("checks budget changes before saving them", async () => {
+    const october = budget(10, 1000);
+    await expense(october.id, 2, 300);
+
+    await expect(rebuildMonthlyBudgetLedger(october.id, { budgetAmount: 100 }, () => {
+      throw new Error("rejected");
+    })).rejects.toThrow("rejected");
+    expect(tables.get(MonthlyBudget, october.id).budgetAmount).toBe(1000);
+
+    await rebuildMonthlyBudgetLedger(october.id, { budgetAmount: 400 });
+    expect(balanceOf(october.id)).toBe(100);
+  });
+});
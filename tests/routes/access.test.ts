@@ -0,0 +1,293 @@
+jest.mock("../../src/repositories");
+
+import request from "supertest";
+import { Router } from "express";
+import app from "../../src/app";
+import routes from "../../src/routes";
+import authRoutes from "../../src/routes/auth.routes";
+import userRoutes from "../../src/routes/user.routes";
+import categoryRoutes from "../../src/routes/category.routes";
+import transactionRoutes from "../../src/routes/transaction.routes";
+import clientRoutes from "../../src/routes/client.routes";
+import roleRoutes from "../../src/routes/role.routes";
+import monthlyBudgetRoutes from "../../src/routes/monthlyBudget.routes";
+import dailyTransactionRoutes from "../../src/routes/dailyTransaction.routes";
+import clientMonthlyBudgetRoutes from "../../src/routes/clientMonthlyBudget.routes";
+import clientDailyTransactionRoutes from "../../src/routes/clientDailyTransaction.routes";
+import { PermissionType } from "../../src/entities/Permission";
+import { buildAccounts, mockAccountLookups, mockApiKey, signAccessToken, TestRole } from "../helpers/principals";
+
+/**
+ * What a route requires: nothing, any signed-in account, an interactive sign-in (no API key), or every listed permission
+ */
+type Guard = "public" | "authenticated" | "session" | PermissionType[];
+
+const {
+  AUTH_ADMIN,
+  USERS_ADMIN,
+  CATEGORIES_READ,
+  CATEGORIES_ADMIN,
+  CLIENTS_READ,
+  CLIENTS_WRITE,
+  STATS_READ,
+  ROLES_ADMIN,
+  BUDGETS_READ,
+  BUDGETS_MANAGE,
+  BUDGETS_ADMIN,
+  TRANSACTIONS_READ,
+  TRANSACTIONS_MANAGE
+} = PermissionType;
+
+/**
+ * Routers as mounted in src/routes/index.ts
+ */
+const mounts: [string, Router][] = [
+  ["/api/auth", authRoutes],
+  ["/api/users", userRoutes],
+  ["/api/clients/:clientId/monthly-budgets", clientMonthlyBudgetRoutes],
+  ["/api/clients/:clientId/daily-transactions", clientDailyTransactionRoutes],
+  ["/api/clients", clientRoutes],
+  ["/api/roles", roleRoutes],
+  ["/api/monthly-budgets", monthlyBudgetRoutes],
+  ["/api/daily-transactions", dailyTransactionRoutes],
+  ["/api/categories", categoryRoutes],
+  ["/api/users/:userId/transactions", transactionRoutes]
+];
+
+/**
+ * Expected guard of every route
+ */
+const guards: Record<string, Guard> = {
+  "POST /api/auth/login": "public",
+  "POST /api/auth/2fa/verify": "public",
+  "POST /api/auth/refresh": "public",
+  "POST /api/auth/register": [USERS_ADMIN],
+  "GET /api/auth/profile": "authenticated",
+  "POST /api/auth/logout": "authenticated",
+  "POST /api/auth/logout-all": "session",
+  "POST /api/auth/change-password": "session",
+  "POST /api/auth/reset-password": [AUTH_ADMIN],
+  "POST /api/auth/unlock/:authId": [AUTH_ADMIN],
+  "GET /api/auth/login-attempts": [AUTH_ADMIN],
+  "POST /api/auth/2fa/setup": "session",
+  "POST /api/auth/2fa/enable": "session",
+  "POST /api/auth/2fa/disable": "session",
+  "POST /api/auth/2fa/recovery-codes": "session",
+  "PUT /api/auth/2fa/required/:authId": [AUTH_ADMIN],
+  "POST /api/auth/forgot-password": "public",
+  "POST /api/auth/reset-password/confirm": "public",
+  "POST /api/auth/verify-email": "public",
+  "POST /api/auth/verify-email/resend": "public",
+  "POST /api/auth/invitations/accept": "public",
+  "GET /api/auth/api-keys": "session",
+  "POST /api/auth/api-keys": "session",
+  "DELETE /api/auth/api-keys/:id": "session",
+  "POST /api/auth/impersonate/:authId": [AUTH_ADMIN],
+  "GET /api/auth/impersonation-logs": [AUTH_ADMIN],
+  "GET /api/auth/security-events": "authenticated",
+  "GET /api/auth/accounts/security-events": [AUTH_ADMIN],
+  "GET /api/auth/sessions": "session",
+  "DELETE /api/auth/sessions/:id": "session",
+  "GET /api/auth/accounts/:authId/sessions": [AUTH_ADMIN],
+  "DELETE /api/auth/accounts/:authId/sessions/:id": [AUTH_ADMIN],
+
+  "GET /api/users": [USERS_ADMIN],
+  "GET /api/users/:id": [USERS_ADMIN],
+  "POST /api/users": [USERS_ADMIN],
+  "PUT /api/users/:id": "session",
+  "DELETE /api/users/:id": [USERS_ADMIN],
+  "PATCH /api/users/:id/role": [USERS_ADMIN],
+  "POST /api/users/:id/change-password": "session",
+
+  "GET /api/users/:userId/transactions": [TRANSACTIONS_READ],
+  "GET /api/users/:userId/transactions/:id": [TRANSACTIONS_READ],
+  "POST /api/users/:userId/transactions": [TRANSACTIONS_MANAGE],
+  "PUT /api/users/:userId/transactions/:id": [TRANSACTIONS_MANAGE],
+  "DELETE /api/users/:userId/transactions/:id": [TRANSACTIONS_MANAGE],
+
+  "GET /api/categories": [CATEGORIES_READ],
+  "GET /api/categories/:id": [CATEGORIES_READ],
+  "POST /api/categories": [CATEGORIES_ADMIN],
+  "PUT /api/categories/:id": [CATEGORIES_ADMIN],
+  "DELETE /api/categories/:id": [CATEGORIES_ADMIN],
+
+  "GET /api/clients": [CLIENTS_READ],
+  "GET /api/clients/:id": "session",
+  "POST /api/clients/register": [CLIENTS_WRITE],
+  "POST /api/clients": [CLIENTS_WRITE],
+  "PUT /api/clients/:id": "session",
+  "PATCH /api/clients/:id/deactivate": [CLIENTS_WRITE],
+  "DELETE /api/clients/:id": [CLIENTS_WRITE],
+  "POST /api/clients/:id/invitation": [CLIENTS_WRITE],
+  "POST /api/clients/:id/invitation/resend": [CLIENTS_WRITE],
+  "DELETE /api/clients/:id/invitation": [CLIENTS_WRITE],
+  "GET /api/clients/stats/dashboard": [STATS_READ],
+  "GET /api/clients/stats/recent-activities": [STATS_READ],
+
+  "GET /api/roles": [ROLES_ADMIN],
+  "GET /api/roles/permissions": [ROLES_ADMIN],
+  "GET /api/roles/:id": [ROLES_ADMIN],
+  "POST /api/roles": [ROLES_ADMIN],
+  "PUT /api/roles/:id": [ROLES_ADMIN],
+  "DELETE /api/roles/:id": [ROLES_ADMIN],
+
+  "GET /api/monthly-budgets": [BUDGETS_READ],
+  "GET /api/monthly-budgets/ledger/check": [BUDGETS_ADMIN],
+  "POST /api/monthly-budgets/ledger/rebuild": [BUDGETS_ADMIN],
+  "GET /api/monthly-budgets/rollover": [BUDGETS_READ],
+  "PATCH /api/monthly-budgets/rollover": [BUDGETS_MANAGE],
+  "GET /api/monthly-budgets/:id": [BUDGETS_READ],
+  "GET /api/monthly-budgets/:id/pacing": [BUDGETS_READ],
+  "GET /api/monthly-budgets/year/:year/month/:month": [BUDGETS_READ],
+  "PATCH /api/monthly-budgets/:id/salary": [BUDGETS_MANAGE],
+  "PATCH /api/monthly-budgets/:id/budget": [BUDGETS_MANAGE],
+  "GET /api/monthly-budgets/:id/categories": [BUDGETS_READ],
+  "POST /api/monthly-budgets/:id/categories": [BUDGETS_MANAGE],
+  "PATCH /api/monthly-budgets/:id/categories/:categoryBudgetId": [BUDGETS_MANAGE],
+  "DELETE /api/monthly-budgets/:id/categories/:categoryBudgetId": [BUDGETS_MANAGE],
+
+  "GET /api/clients/:clientId/monthly-budgets": [BUDGETS_READ],
+  "GET /api/clients/:clientId/monthly-budgets/year/:year/month/:month": [BUDGETS_READ],
+  "GET /api/clients/:clientId/monthly-budgets/rollover": [BUDGETS_READ],
+  "PATCH /api/clients/:clientId/monthly-budgets/rollover": [BUDGETS_MANAGE],
+  "GET /api/clients/:clientId/monthly-budgets/:id": [BUDGETS_READ],
+  "GET /api/clients/:clientId/monthly-budgets/:id/pacing": [BUDGETS_READ],
+  "PATCH /api/clients/:clientId/monthly-budgets/:id/salary": [BUDGETS_MANAGE],
+  "PATCH /api/clients/:clientId/monthly-budgets/:id/budget": [BUDGETS_MANAGE],
+  "GET /api/clients/:clientId/monthly-budgets/:id/categories": [BUDGETS_READ],
+  "POST /api/clients/:clientId/monthly-budgets/:id/categories": [BUDGETS_MANAGE],
+  "PATCH /api/clients/:clientId/monthly-budgets/:id/categories/:categoryBudgetId": [BUDGETS_MANAGE],
+  "DELETE /api/clients/:clientId/monthly-budgets/:id/categories/:categoryBudgetId": [BUDGETS_MANAGE],
+
+  "GET /api/daily-transactions": [TRANSACTIONS_READ],
+  "GET /api/daily-transactions/client/:clientId": [TRANSACTIONS_READ],
+  "GET /api/daily-transactions/date/:date": [TRANSACTIONS_READ],
+  "GET /api/daily-transactions/year/:year/month/:month": [TRANSACTIONS_READ],
+  "GET /api/daily-transactions/:id": [TRANSACTIONS_READ],
+  "POST /api/daily-transactions": [TRANSACTIONS_MANAGE],
+  "PUT /api/daily-transactions/:id": [TRANSACTIONS_MANAGE],
+  "DELETE /api/daily-transactions/:id": [TRANSACTIONS_MANAGE],
+  "GET /api/daily-transactions/sum/date/:date": [TRANSACTIONS_READ],
+  "GET /api/daily-transactions/sum/year/:year/month/:month": [TRANSACTIONS_READ],
+
+  "GET /api/clients/:clientId/daily-transactions": [TRANSACTIONS_READ],
+  "GET /api/clients/:clientId/daily-transactions/date/:date": [TRANSACTIONS_READ],
+  "GET /api/clients/:clientId/daily-transactions/year/:year/month/:month": [TRANSACTIONS_READ],
+  "GET /api/clients/:clientId/daily-transactions/sum/date/:date": [TRANSACTIONS_READ],
+  "GET /api/clients/:clientId/daily-transactions/sum/year/:year/month/:month": [TRANSACTIONS_READ],
+  "GET /api/clients/:clientId/daily-transactions/:id": [TRANSACTIONS_READ],
+  "POST /api/clients/:clientId/daily-transactions": [TRANSACTIONS_MANAGE],
+  "PUT /api/clients/:clientId/daily-transactions/:id": [TRANSACTIONS_MANAGE],
+  "DELETE /api/clients/:clientId/daily-transactions/:id": [TRANSACTIONS_MANAGE]
+};
+
+/**
+ * Every route registered on the mounted routers, as "METHOD /path"
+ */
+const listRoutes = (): string[] => {
+  return mounts.flatMap(([prefix, router]) =>
+    router.stack
+      .filter(layer => layer.route)
+      .flatMap(layer => {
+        const route = layer.route as unknown as { path: string; methods: Record<string, boolean> };
+        const path = route.path === "/" ? prefix : `${prefix}${route.path}`;
+        return Object.keys(route.methods).map(method => `${method.toUpperCase()} ${path}`);
+      })
+  );
+};
+
+/**
+ * Fill in the route parameters with values that pass validation
+ */
+const samplePath = (path: string, clientId: string): string => {
+  return path
+    .replace(":clientId", clientId)
+    .replace(":year", "2026")
+    .replace(":month", "10")
+    .replace(":date", "2026-10-01")
+    .replace(/:\w+/g, "8a7d6f0e-2b1c-4d3e-9f8a-7b6c5d4e3f2a");
+};
+
+/**
+ * Send a request to a route, signed in as an account or anonymously
+ */
+const send = (route: string, clientId: string, token?: string) => {
+  const [method, path] = route.split(" ");
+  const call = request(app)[method.toLowerCase() as "get" | "post" | "put" | "patch" | "delete"](samplePath(path, clientId));
+  return token ? call.set("Authorization", `Bearer ${token}`) : call;
+};
+
+/**
+ * Whether a response was produced by the authentication or permission middleware rather than the route handler
+ */
+const isRejectedByGuard = (res: request.Response): boolean => {
+  return res.body?.status === "error" && (res.status === 401 || res.status === 403);
+};
+
+describe("route access", () => {
+  const accounts = buildAccounts();
+  const tokens = Object.fromEntries(
+    Object.entries(accounts).map(([role, account]) => [role, signAccessToken(account)])
+  ) as Record<TestRole, string>;
+  const clientId = accounts.client.client!.id;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockAccountLookups(accounts);
+  });
+
+  it("mounts every router under /api", () => {
+    expect(routes.stack).toHaveLength(mounts.length);
+  });
+
+  it("lists the guard of every route", () => {
+    expect(listRoutes().sort()).toEqual(Object.keys(guards).sort());
+  });
+
+  const routeCases = Object.entries(guards);
+
+  describe.each(routeCases.filter(([, guard]) => guard !== "public"))("%s", (route, guard) => {
+    it("requires authentication", async () => {
+      const res = await send(route, clientId);
+      expect(res.status).toBe(401);
+      expect(isRejectedByGuard(res)).toBe(true);
+    });
+
+    it.each(Object.keys(accounts) as TestRole[])("as %s", async role => {
+      const allowed = !Array.isArray(guard) || guard.every(permission => accounts[role].permissions.includes(permission));
+      const res = await send(route, clientId, tokens[role]);
+
+      if (allowed) {
+        expect(isRejectedByGuard(res)).toBe(false);
+      } else {
+        expect(res.status).toBe(403);
+        expect(res.body).toEqual({ status: "error", message: "Access denied" });
+      }
+    });
+  });
+
+  describe.each(routeCases.filter(([, guard]) => guard !== "public"))("%s with an API key", (route, guard) => {
+    const scopes = [BUDGETS_READ];
+
+    it("only allows what the key's scopes grant", async () => {
+      const key = mockApiKey(accounts.admin, scopes);
+      const allowed = guard === "authenticated" || (Array.isArray(guard) && guard.every(permission => scopes.includes(permission)));
+      const res = await send(route, clientId, key);
+
+      if (allowed) {
+        expect(isRejectedByGuard(res)).toBe(false);
+      } else {
+        expect(res.status).toBe(403);
+        expect(isRejectedByGuard(res)).toBe(true);
+      }
+    });
+  });
+
+  it.each(routeCases.filter(([, guard]) => guard === "public").map(([route]) => route))(
+    "%s is public",
+    async route => {
+      const res = await send(route, clientId);
+      expect(isRejectedByGuard(res)).toBe(false);
+    }
+  );
+});
@@ -0,0 +1,81 @@
+jest.mock("../../src/repositories");
+
+import * as bcrypt from "bcryptjs";
+import request from "supertest";
+import app from "../../src/app";
+import { Auth } from "../../src/entities/Auth";
+import { Client } from "../../src/entities/Client";
+import * as repositories from "../../src/repositories";
+import { buildAccounts, mockAccountLookups, signAccessToken } from "../helpers/principals";
+
+describe("updating clients", () => {
+  const mocked = jest.mocked(repositories);
+  const accounts = buildAccounts();
+  const client = accounts.client.client!;
+  const clientToken = signAccessToken(accounts.client);
+  const managerToken = signAccessToken(accounts.manager);
+  const currentPassword = "Current-passw0rd!";
+  const profile = { name: "client", email: "client@appfree.test", cpf: "123.456.789-09" };
+  let passwordHash: string;
+
+  beforeAll(async () => {
+    passwordHash = await bcrypt.hash(currentPassword, 4);
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    Object.assign(client, profile);
+    mockAccountLookups(accounts);
+    mocked.findAuthByClientId.mockImplementation(async () => Object.assign(new Auth(), accounts.client.auth));
+    mocked.findAuthByEmail.mockImplementation(async email =>
+      email === accounts.client.auth.email ? Object.assign(new Auth(), accounts.client.auth, { password: passwordHash }) : null
+    );
+    mocked.findClientByEmail.mockResolvedValue(null);
+    mocked.findRecentPasswordHashes.mockResolvedValue([]);
+    mocked.updateClientWithAuth.mockImplementation(async (updated: Client) => updated);
+  });
+
+  it("requires the current password to change the own email", async () => {
+    const res = await request(app)
+      .put(`/api/clients/${client.id}`)
+      .set("Authorization", `Bearer ${clientToken}`)
+      .send({ ...profile, email: "new-client@appfree.test" });
+
+    expect(res.status).toBe(400);
+    expect(res.body).toEqual({ message: "Current password is required" });
+    expect(mocked.updateClientWithAuth).not.toHaveBeenCalled();
+  });
+
+  it("rejects a wrong current password when changing the own password", async () => {
+    const res = await request(app)
+      .put(`/api/clients/${client.id}`)
+      .set("Authorization", `Bearer ${clientToken}`)
+      .send({ ...profile, password: "Brand-new-passw0rd!", currentPassword: "Not-the-passw0rd!" });
+
+    expect(res.status).toBe(401);
+    expect(mocked.updateClientWithAuth).not.toHaveBeenCalled();
+  });
+
+  it("changes the own email with the current password", async () => {
+    const res = await request(app)
+      .put(`/api/clients/${client.id}`)
+      .set("Authorization", `Bearer ${clientToken}`)
+      .send({ ...profile, email: "new-client@appfree.test", currentPassword });
+
+    expect(res.status).toBe(200);
+    expect(mocked.updateClientWithAuth).toHaveBeenCalledWith(
+      expect.objectContaining({ email: "new-client@appfree.test" }),
+      expect.objectContaining({ email: "new-client@appfree.test", emailVerifiedAt: null })
+    );
+  });
+
+  it("lets the client's manager change the profile without a password", async () => {
+    const res = await request(app)
+      .put(`/api/clients/${client.id}`)
+      .set("Authorization", `Bearer ${managerToken}`)
+      .send({ ...profile, email: "managed-client@appfree.test" });
+
+    expect(res.status).toBe(200);
+    expect(mocked.updateClientWithAuth).toHaveBeenCalled();
+  });
+});
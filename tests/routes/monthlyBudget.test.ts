@@ -0,0 +1,74 @@
+jest.mock("../../src/repositories");
+
+import { randomUUID } from "crypto";
+import request from "supertest";
+import app from "../../src/app";
+import { Client } from "../../src/entities/Client";
+import { MonthlyBudget } from "../../src/entities/MonthlyBudget";
+import * as repositories from "../../src/repositories";
+import { buildAccounts, mockAccountLookups, signAccessToken } from "../helpers/principals";
+
+describe("monthly budget routes", () => {
+  const mocked = jest.mocked(repositories);
+  const accounts = buildAccounts();
+  const managerToken = signAccessToken(accounts.manager);
+  const client = accounts.client.client!;
+  const otherClient = Object.assign(new Client(), { id: randomUUID(), name: "other", isActive: true, managerId: client.managerId });
+
+  const buildBudget = (owner: Client): MonthlyBudget => Object.assign(new MonthlyBudget(), {
+    id: randomUUID(),
+    client: owner,
+    clientId: owner.id,
+    year: 2026,
+    month: 10,
+    monthlySalary: 5000,
+    budgetAmount: 2000,
+    isPercentage: false,
+    carriedOverAmount: 0
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockAccountLookups(accounts);
+    mocked.findCategoryBudgetsByMonthlyBudget.mockResolvedValue([]);
+    mocked.sumDailyTransactionsByCategory.mockResolvedValue([]);
+  });
+
+  it.each([
+    ["GET", ""],
+    ["GET", "/pacing"],
+    ["PATCH", "/salary"],
+    ["PATCH", "/budget"],
+    ["GET", "/categories"],
+    ["POST", "/categories"],
+    ["PATCH", "/categories/:categoryBudgetId"],
+    ["DELETE", "/categories/:categoryBudgetId"]
+  ])("%s /:id%s answers 404 for a budget of another client in the route", async (method, suffix) => {
+    const budget = buildBudget(otherClient);
+    mocked.findMonthlyBudgetById.mockResolvedValue(budget);
+
+    const res = await request(app)[method.toLowerCase() as "get" | "post" | "patch" | "delete"](
+      `/api/clients/${client.id}/monthly-budgets/${budget.id}${suffix.replace(":categoryBudgetId", randomUUID())}`
+    )
+      .set("Authorization", `Bearer ${managerToken}`)
+      .send({ monthlySalary: 1, budgetAmount: 1, isPercentage: false, categoryId: randomUUID(), amount: 1 });
+
+    expect(res.status).toBe(404);
+    expect(res.body).toEqual({ message: "Monthly budget not found" });
+  });
+
+  it("gets or creates the budget of a month on GET", async () => {
+    const budget = buildBudget(client);
+    mocked.findMonthlyBudgetByYearAndMonth.mockResolvedValue(null);
+    mocked.findMonthlyBudgetsByClient.mockResolvedValue([]);
+    mocked.createMonthlyBudget.mockResolvedValue(budget);
+
+    const res = await request(app)
+      .get(`/api/clients/${client.id}/monthly-budgets/year/2026/month/10`)
+      .set("Authorization", `Bearer ${managerToken}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.id).toBe(budget.id);
+    expect(mocked.createMonthlyBudget).toHaveBeenCalledWith(expect.objectContaining({ clientId: client.id, year: 2026, month: 10 }));
+  });
+});
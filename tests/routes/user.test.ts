@@ -0,0 +1,97 @@
+jest.mock("../../src/repositories");
+
+import * as bcrypt from "bcryptjs";
+import request from "supertest";
+import app from "../../src/app";
+import { Auth } from "../../src/entities/Auth";
+import { User } from "../../src/entities/User";
+import * as repositories from "../../src/repositories";
+import { buildAccounts, mockAccountLookups, signAccessToken, TestAccount } from "../helpers/principals";
+
+describe("updating users", () => {
+  const mocked = jest.mocked(repositories);
+  const accounts = buildAccounts();
+  const adminToken = signAccessToken(accounts.admin);
+  const managerToken = signAccessToken(accounts.manager);
+  const currentPassword = "Current-passw0rd!";
+  const newPassword = "Brand-new-passw0rd!";
+  let passwordHash: string;
+
+  const loginOf = (account: TestAccount): Auth => Object.assign(new Auth(), account.auth, {
+    password: passwordHash,
+    user: account.user
+  });
+
+  beforeAll(async () => {
+    passwordHash = await bcrypt.hash(currentPassword, 4);
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockAccountLookups(accounts);
+    mocked.findAuthByUserId.mockImplementation(async userId =>
+      Object.values(accounts).find(account => account.user?.id === userId)?.auth ?? null
+    );
+    mocked.findAuthByEmail.mockImplementation(async email => {
+      const account = Object.values(accounts).find(candidate => candidate.auth.email === email);
+      return account ? loginOf(account) : null;
+    });
+    mocked.findUserByEmail.mockResolvedValue(null);
+    mocked.findRecentPasswordHashes.mockResolvedValue([]);
+    mocked.updateUserWithAuth.mockImplementation(async (user: User) => user);
+  });
+
+  it("does not let a user change another user without users:admin", async () => {
+    const res = await request(app)
+      .put(`/api/users/${accounts.admin.user!.id}`)
+      .set("Authorization", `Bearer ${managerToken}`)
+      .send({ email: "taken-over@appfree.test", password: newPassword });
+
+    expect(res.status).toBe(403);
+    expect(mocked.updateUserWithAuth).not.toHaveBeenCalled();
+  });
+
+  it("requires the current password to change the own password", async () => {
+    const res = await request(app)
+      .put(`/api/users/${accounts.manager.user!.id}`)
+      .set("Authorization", `Bearer ${managerToken}`)
+      .send({ password: newPassword });
+
+    expect(res.status).toBe(400);
+    expect(res.body).toEqual({ message: "Current password is required" });
+    expect(mocked.updateUserWithAuth).not.toHaveBeenCalled();
+  });
+
+  it("rejects a wrong current password when changing the own email", async () => {
+    const res = await request(app)
+      .put(`/api/users/${accounts.manager.user!.id}`)
+      .set("Authorization", `Bearer ${managerToken}`)
+      .send({ email: "new-manager@appfree.test", currentPassword: "Not-the-passw0rd!" });
+
+    expect(res.status).toBe(401);
+    expect(mocked.updateUserWithAuth).not.toHaveBeenCalled();
+  });
+
+  it("changes the own email with the current password", async () => {
+    const res = await request(app)
+      .put(`/api/users/${accounts.manager.user!.id}`)
+      .set("Authorization", `Bearer ${managerToken}`)
+      .send({ email: "new-manager@appfree.test", currentPassword });
+
+    expect(res.status).toBe(200);
+    expect(mocked.updateUserWithAuth).toHaveBeenCalledWith(
+      expect.objectContaining({ email: "new-manager@appfree.test" }),
+      expect.objectContaining({ email: "new-manager@appfree.test" })
+    );
+  });
+
+  it("lets a user admin change the name of another user without a password", async () => {
+    const res = await request(app)
+      .put(`/api/users/${accounts.manager.user!.id}`)
+      .set("Authorization", `Bearer ${adminToken}`)
+      .send({ name: "Renamed manager" });
+
+    expect(res.status).toBe(200);
+    expect(mocked.updateUserWithAuth).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,40 @@
+jest.mock("../../src/repositories");
+
+import { ApiKey } from "../../src/entities/ApiKey";
+import { PermissionType } from "../../src/entities/Permission";
+import { ApiKeyService } from "../../src/services/ApiKeyService";
+import * as repositories from "../../src/repositories";
+
+describe("creating an API key", () => {
+  const mocked = jest.mocked(repositories);
+  const authId = "5b4a3c2d-1e0f-4a9b-8c7d-6e5f4a3b2c1d";
+  const data = { name: "script", scopes: [PermissionType.BUDGETS_READ] };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mocked.createApiKeyWithinLimit.mockImplementation(async apiKeyData => Object.assign(new ApiKey(), {
+      id: "0f1e2d3c-4b5a-4697-8877-665544332211",
+      ...apiKeyData
+    }));
+  });
+
+  it("returns the key once without its hash", async () => {
+    const { apiKey, key } = await new ApiKeyService().createApiKey(authId, [PermissionType.BUDGETS_READ], data);
+
+    expect(key).toMatch(/^afk_[0-9a-f]{12}_/);
+    expect(apiKey).not.toHaveProperty("keyHash");
+    expect(mocked.createApiKeyWithinLimit).toHaveBeenCalledWith(expect.objectContaining({ authId }), 10);
+  });
+
+  it("rejects the key when the account has reached the limit", async () => {
+    mocked.createApiKeyWithinLimit.mockResolvedValue(null);
+
+    await expect(new ApiKeyService().createApiKey(authId, [PermissionType.BUDGETS_READ], data))
+      .rejects.toMatchObject({ statusCode: 400, message: "Too many API keys, revoke one first" });
+  });
+
+  it("rejects scopes the account does not have", async () => {
+    await expect(new ApiKeyService().createApiKey(authId, [], data)).rejects.toMatchObject({ statusCode: 400 });
+    expect(mocked.createApiKeyWithinLimit).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,72 @@
+jest.mock("../../src/repositories");
+
+import { DailyTransaction, TransactionType } from "../../src/entities/DailyTransaction";
+import { MonthlyBudget } from "../../src/entities/MonthlyBudget";
+import { BudgetLedgerService } from "../../src/services/BudgetLedgerService";
+import * as repositories from "../../src/repositories";
+
+describe("checking the budget ledger", () => {
+  const mocked = jest.mocked(repositories);
+  const augustId = "8a8a8a8a-1b1b-4c1c-8d1d-1e1e1e1e1e1e";
+
+  const october = Object.assign(new MonthlyBudget(), {
+    id: "0c0c0c0c-2d2d-4e2e-8f2f-2a2a2a2a2a2a",
+    clientId: "2c3d4e5f-6a7b-4c8d-9e0f-1a2b3c4d5e6f",
+    year: 2026,
+    month: 10,
+    monthlySalary: 5000,
+    budgetAmount: 1000,
+    isPercentage: false,
+    carriedOverAmount: 150,
+    carriedOverFromId: augustId,
+    remainingBalance: 1100
+  });
+  const rent = Object.assign(new DailyTransaction(), {
+    id: "6f5e4d3c-2b1a-4098-8765-43210fedcba9",
+    amount: 50,
+    type: TransactionType.EXPENSE,
+    date: new Date(2026, 9, 5),
+    createdAt: new Date(2026, 9, 5),
+    remainingBalanceAfterTransaction: 1100,
+    monthlyBudgetId: october.id
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mocked.findMonthlyBudgetById.mockResolvedValue(october);
+    mocked.findDailyTransactionsByMonthlyBudget.mockResolvedValue([rent]);
+  });
+
+  it("reports a consistent budget when the stored carry is what a rebuild would derive", async () => {
+    mocked.deriveCarriedOver.mockResolvedValue({ carriedOverAmount: 150, carriedOverFromId: augustId });
+
+    const result = await new BudgetLedgerService().check(october.id);
+
+    expect(mocked.deriveCarriedOver).toHaveBeenCalledWith(october);
+    expect(result).toEqual({ checked: 1, drifted: [] });
+  });
+
+  it("reports the balances a rebuild would derive when the earlier budget's balance changed", async () => {
+    mocked.deriveCarriedOver.mockResolvedValue({ carriedOverAmount: 90, carriedOverFromId: augustId });
+
+    const { drifted } = await new BudgetLedgerService().check(october.id);
+
+    expect(drifted).toEqual([expect.objectContaining({
+      budgetId: october.id,
+      storedCarriedOverAmount: 150,
+      expectedCarriedOverAmount: 90,
+      storedRemainingBalance: 1100,
+      expectedRemainingBalance: 1040,
+      transactions: [{ id: rent.id, storedBalance: 1100, expectedBalance: 1040 }]
+    })]);
+  });
+
+  it("reports a carry that comes from a budget that is no longer the latest earlier one", async () => {
+    mocked.deriveCarriedOver.mockResolvedValue({ carriedOverAmount: 150, carriedOverFromId: "9b9b9b9b-1b1b-4c1c-8d1d-1e1e1e1e1e1e" });
+
+    const { drifted } = await new BudgetLedgerService().check(october.id);
+
+    expect(drifted).toHaveLength(1);
+    expect(drifted[0].transactions).toEqual([]);
+  });
+});
@@ -0,0 +1,101 @@
+jest.mock("../../src/repositories");
+
+import { Category } from "../../src/entities/Category";
+import { CategoryBudget } from "../../src/entities/CategoryBudget";
+import { MonthlyBudget } from "../../src/entities/MonthlyBudget";
+import { CategoryBudgetService } from "../../src/services/CategoryBudgetService";
+import { MonthlyBudgetService } from "../../src/services/MonthlyBudgetService";
+import * as repositories from "../../src/repositories";
+
+describe("category budget allocation", () => {
+  const mocked = jest.mocked(repositories);
+  const groceries = Object.assign(new Category(), { id: "1a2b3c4d-5e6f-4a7b-8c9d-0e1f2a3b4c5d", name: "Groceries" });
+  const october = Object.assign(new MonthlyBudget(), {
+    id: "0c0c0c0c-2d2d-4e2e-8f2f-2a2a2a2a2a2a",
+    clientId: "2c3d4e5f-6a7b-4c8d-9e0f-1a2b3c4d5e6f",
+    year: 2026,
+    month: 10,
+    monthlySalary: 5000,
+    budgetAmount: 1000,
+    isPercentage: false,
+    daysInMonth: 31,
+    dailyBudget: 1000 / 31
+  });
+  const envelope = (id: string, categoryId: string, amount: number, isPercentage = false): CategoryBudget =>
+    Object.assign(new CategoryBudget(), { id, monthlyBudgetId: october.id, categoryId, amount, isPercentage });
+
+  // Envelopes stored when the budget row is locked, which may differ from what a read before the lock saw
+  let lockedEnvelopes: CategoryBudget[];
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    lockedEnvelopes = [];
+    mocked.findMonthlyBudgetById.mockResolvedValue(october);
+    mocked.findCategoryById.mockResolvedValue(groceries);
+    mocked.findCategoryBudgetsByMonthlyBudget.mockResolvedValue([]);
+    mocked.saveCategoryBudgetWithinBudget.mockImplementation(async (categoryBudget, check) => {
+      check(Object.assign(new MonthlyBudget(), october), lockedEnvelopes.filter(other => other.id !== categoryBudget.id));
+      return Object.assign(new CategoryBudget(), categoryBudget);
+    });
+    mocked.rebuildMonthlyBudgetLedger.mockImplementation(async (budgetId, changes = {}, check) => {
+      check?.(Object.assign(new MonthlyBudget(), october, changes), lockedEnvelopes);
+      return { budget: october, previousRemainingBalance: 0, runningBalances: new Map(), transactionsUpdated: 0 };
+    });
+  });
+
+  it("checks a new envelope against the envelopes stored when the budget is locked", async () => {
+    lockedEnvelopes = [envelope("5e5e5e5e-1b1b-4c1c-8d1d-1e1e1e1e1e1e", "9f9f9f9f-1b1b-4c1c-8d1d-1e1e1e1e1e1e", 700)];
+
+    await expect(new CategoryBudgetService().createCategoryBudget(october.id, {
+      categoryId: groceries.id,
+      amount: 400,
+      isPercentage: false
+    })).rejects.toMatchObject({ statusCode: 400, message: "Category budgets exceed the monthly budget" });
+  });
+
+  it("rejects a second envelope for a category created while waiting for the lock", async () => {
+    lockedEnvelopes = [envelope("5e5e5e5e-1b1b-4c1c-8d1d-1e1e1e1e1e1e", groceries.id, 100)];
+
+    await expect(new CategoryBudgetService().createCategoryBudget(october.id, {
+      categoryId: groceries.id,
+      amount: 100,
+      isPercentage: false
+    })).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it("creates an envelope that fits in the budget", async () => {
+    lockedEnvelopes = [envelope("5e5e5e5e-1b1b-4c1c-8d1d-1e1e1e1e1e1e", "9f9f9f9f-1b1b-4c1c-8d1d-1e1e1e1e1e1e", 30, true)];
+
+    const created = await new CategoryBudgetService().createCategoryBudget(october.id, {
+      categoryId: groceries.id,
+      amount: 700,
+      isPercentage: false
+    });
+
+    expect(created).toMatchObject({ monthlyBudgetId: october.id, categoryId: groceries.id, amount: 700 });
+  });
+
+  it("checks a changed envelope without counting its previous amount", async () => {
+    const stored = envelope("5e5e5e5e-1b1b-4c1c-8d1d-1e1e1e1e1e1e", groceries.id, 600);
+    lockedEnvelopes = [stored, envelope("6d6d6d6d-1b1b-4c1c-8d1d-1e1e1e1e1e1e", "9f9f9f9f-1b1b-4c1c-8d1d-1e1e1e1e1e1e", 300)];
+    mocked.findCategoryBudgetById.mockResolvedValue(Object.assign(new CategoryBudget(), stored));
+
+    const service = new CategoryBudgetService();
+    await expect(service.updateCategoryBudget(october.id, stored.id, { amount: 700 })).resolves.toMatchObject({ amount: 700 });
+    await expect(service.updateCategoryBudget(october.id, stored.id, { amount: 701 })).rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it("rejects a budget amount the envelopes no longer fit in", async () => {
+    lockedEnvelopes = [envelope("5e5e5e5e-1b1b-4c1c-8d1d-1e1e1e1e1e1e", groceries.id, 800)];
+
+    await expect(new MonthlyBudgetService().updateBudgetAmount(october.id, 500, false))
+      .rejects.toMatchObject({ statusCode: 400, message: "Category budgets exceed the monthly budget" });
+    expect(mocked.rebuildMonthlyBudgetLedger).toHaveBeenCalledWith(october.id, expect.objectContaining({ budgetAmount: 500 }), expect.any(Function));
+  });
+
+  it("accepts a budget amount that percentage envelopes scale with", async () => {
+    lockedEnvelopes = [envelope("5e5e5e5e-1b1b-4c1c-8d1d-1e1e1e1e1e1e", groceries.id, 80, true)];
+
+    await expect(new MonthlyBudgetService().updateBudgetAmount(october.id, 10, true)).resolves.toBe(october);
+  });
+});
@@ -0,0 +1,84 @@
+jest.mock("../../src/repositories");
+
+import request from "supertest";
+import app from "../../src/app";
+import { Auth } from "../../src/entities/Auth";
+import { Client } from "../../src/entities/Client";
+import { ClientInvitation } from "../../src/entities/ClientInvitation";
+import { ClientInvitationService } from "../../src/services/ClientInvitationService";
+import * as repositories from "../../src/repositories";
+
+describe("accepting a client invitation", () => {
+  const mocked = jest.mocked(repositories);
+  const client = Object.assign(new Client(), {
+    id: "3f2e1d0c-9b8a-4765-8432-10fedcba9876",
+    name: "Maria Souza",
+    email: "maria@appfree.test",
+    cpf: "12345678901",
+    isActive: true
+  });
+  const invitation = Object.assign(new ClientInvitation(), {
+    id: "7a6b5c4d-3e2f-4109-8a7b-6c5d4e3f2a1b",
+    client,
+    clientId: client.id,
+    email: client.email,
+    acceptedAt: null,
+    revokedAt: null,
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000)
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mocked.findClientInvitationByHash.mockResolvedValue(invitation);
+    mocked.findAuthByEmail.mockResolvedValue(null);
+    mocked.markClientInvitationAccepted.mockResolvedValue(true);
+    mocked.createAuth.mockImplementation(async data => Object.assign(new Auth(), data, { id: "9e8d7c6b-5a4f-4e3d-8c2b-1a0f9e8d7c6b" }));
+  });
+
+  it("keeps the invitation when the password breaks the policy", async () => {
+    await expect(new ClientInvitationService().acceptInvitation("token", "Maria2024souza"))
+      .rejects.toMatchObject({ statusCode: 400 });
+    expect(mocked.markClientInvitationAccepted).not.toHaveBeenCalled();
+    expect(mocked.createAuth).not.toHaveBeenCalled();
+  });
+
+  it("keeps the invitation when the email already has a login", async () => {
+    mocked.findAuthByEmail.mockResolvedValue(Object.assign(new Auth(), { id: "existing", email: client.email }));
+
+    await expect(new ClientInvitationService().acceptInvitation("token", "Correct-Horse-42"))
+      .rejects.toMatchObject({ statusCode: 409 });
+    expect(mocked.markClientInvitationAccepted).not.toHaveBeenCalled();
+  });
+
+  it("verifies the email the invitation was sent to", async () => {
+    await new ClientInvitationService().acceptInvitation("token", "Correct-Horse-42");
+
+    expect(mocked.createAuth).toHaveBeenCalledWith(expect.objectContaining({
+      email: client.email,
+      emailVerifiedAt: expect.any(Date)
+    }));
+  });
+
+  it("does not verify an email that changed after the invitation was sent", async () => {
+    mocked.findClientInvitationByHash.mockResolvedValue(
+      Object.assign(new ClientInvitation(), invitation, { client: Object.assign(new Client(), client, { email: "maria.souza@appfree.test" }) })
+    );
+
+    await new ClientInvitationService().acceptInvitation("token", "Correct-Horse-42");
+
+    expect(mocked.createAuth).toHaveBeenCalledWith(expect.objectContaining({
+      email: "maria.souza@appfree.test",
+      emailVerifiedAt: null
+    }));
+  });
+
+  it("rejects a password the policy does not allow before reaching the service", async () => {
+    const res = await request(app)
+      .post("/api/auth/invitations/accept")
+      .send({ token: "token", password: "alllowercase1" });
+
+    expect(res.status).toBe(400);
+    expect(res.body.errors[0].msg).toBe("Password must contain an uppercase letter");
+    expect(mocked.findClientInvitationByHash).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,69 @@
+jest.mock("../../src/repositories");
+
+import { DailyTransaction, TransactionType } from "../../src/entities/DailyTransaction";
+import { Client } from "../../src/entities/Client";
+import { MonthlyBudget } from "../../src/entities/MonthlyBudget";
+import { DailyTransactionService } from "../../src/services/DailyTransactionService";
+import * as repositories from "../../src/repositories";
+
+describe("updating a daily transaction", () => {
+  const mocked = jest.mocked(repositories);
+  const budgetId = "1a2b3c4d-5e6f-4a7b-8c9d-0e1f2a3b4c5d";
+  const clientId = "9e8d7c6b-5a4f-4e3d-8c2b-1a0f9e8d7c6b";
+
+  const buildTransaction = (): DailyTransaction => Object.assign(new DailyTransaction(), {
+    id: "6f5e4d3c-2b1a-4098-8765-43210fedcba9",
+    description: "groceries",
+    amount: 50,
+    type: TransactionType.EXPENSE,
+    date: new Date(2026, 9, 5),
+    remainingBalanceAfterTransaction: 950,
+    clientId,
+    monthlyBudgetId: budgetId
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mocked.findDailyTransactionById.mockImplementation(async () => buildTransaction());
+    mocked.findClientById.mockResolvedValue(Object.assign(new Client(), { id: clientId }));
+    mocked.updateDailyTransactionWithBalance.mockImplementation(async (_, changes) => Object.assign(buildTransaction(), changes));
+  });
+
+  it("passes only the changed fields, to be applied to the locked row", async () => {
+    const updated = await new DailyTransactionService().updateDailyTransaction(buildTransaction().id, { description: "market" });
+
+    expect(mocked.updateDailyTransactionWithBalance).toHaveBeenCalledWith(buildTransaction().id, { description: "market" });
+    expect(updated).toMatchObject({ description: "market", amount: 50 });
+  });
+
+  it("rebuilds the ledger of the budget of the month for a new date within the month", async () => {
+    const date = new Date(2026, 9, 20);
+    mocked.findMonthlyBudgetByYearAndMonth.mockResolvedValue(Object.assign(new MonthlyBudget(), { id: budgetId }));
+
+    await new DailyTransactionService().updateDailyTransaction(buildTransaction().id, { date });
+
+    expect(mocked.findMonthlyBudgetByYearAndMonth).toHaveBeenCalledWith(clientId, 2026, 10);
+    expect(mocked.updateDailyTransactionWithBalance).toHaveBeenCalledWith(buildTransaction().id, { date, monthlyBudgetId: budgetId });
+  });
+
+  it("moves the transaction to the budget of its new month", async () => {
+    const date = new Date(2026, 10, 2);
+    const novemberId = "2b3c4d5e-6f7a-4b8c-9d0e-1f2a3b4c5d6e";
+    mocked.findMonthlyBudgetByYearAndMonth.mockResolvedValue(Object.assign(new MonthlyBudget(), { id: novemberId }));
+
+    await new DailyTransactionService().updateDailyTransaction(buildTransaction().id, { date, amount: 70 });
+
+    expect(mocked.findMonthlyBudgetByYearAndMonth).toHaveBeenCalledWith(clientId, 2026, 11);
+    expect(mocked.updateDailyTransactionWithBalance).toHaveBeenCalledWith(
+      buildTransaction().id,
+      { date, amount: 70, monthlyBudgetId: novemberId }
+    );
+  });
+
+  it("deletes by ID under the lock without loading the budget first", async () => {
+    await new DailyTransactionService().deleteDailyTransaction(buildTransaction().id);
+
+    expect(mocked.deleteDailyTransactionWithBalance).toHaveBeenCalledWith(buildTransaction().id);
+    expect(mocked.findMonthlyBudgetById).not.toHaveBeenCalled();
+  });
+});
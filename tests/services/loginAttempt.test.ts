@@ -0,0 +1,60 @@
+jest.mock("../../src/repositories");
+
+import { Auth, AuthType } from "../../src/entities/Auth";
+import { LoginAttemptEvent } from "../../src/entities/LoginAttempt";
+import { LoginAttemptService } from "../../src/services/LoginAttemptService";
+import * as repositories from "../../src/repositories";
+
+describe("LoginAttemptService.recordFailure", () => {
+  const mocked = jest.mocked(repositories);
+  const buildAuth = () => Object.assign(new Auth(), {
+    id: "0c9b8a7d-6e5f-4a3b-8c2d-1e0f9a8b7c6d",
+    email: "client@appfree.test",
+    type: AuthType.CLIENT,
+    isActive: true,
+    failedLoginAttempts: 0,
+    lockedUntil: null
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    process.env.LOGIN_MAX_FAILED_ATTEMPTS = "5";
+  });
+
+  afterAll(() => {
+    delete process.env.LOGIN_MAX_FAILED_ATTEMPTS;
+  });
+
+  it("counts the failure in the database instead of saving the loaded record", async () => {
+    mocked.incrementFailedLoginAttempts.mockResolvedValue({ failedLoginAttempts: 3, lockedUntil: null });
+    const auth = buildAuth();
+
+    await new LoginAttemptService().recordFailure(auth.email, {}, auth);
+
+    expect(mocked.incrementFailedLoginAttempts).toHaveBeenCalledWith(auth.id, expect.any(Date));
+    expect(mocked.lockAuthUntil).not.toHaveBeenCalled();
+    expect(mocked.updateAuth).not.toHaveBeenCalled();
+    expect(auth.failedLoginAttempts).toBe(3);
+  });
+
+  it("locks the account from the returned count", async () => {
+    mocked.incrementFailedLoginAttempts.mockResolvedValue({ failedLoginAttempts: 5, lockedUntil: null });
+    mocked.lockAuthUntil.mockResolvedValue(true);
+    const auth = buildAuth();
+
+    await new LoginAttemptService().recordFailure(auth.email, {}, auth);
+
+    expect(mocked.lockAuthUntil).toHaveBeenCalledWith(auth.id, expect.any(Date), expect.any(Date));
+    expect(auth.lockedUntil).toBeInstanceOf(Date);
+    expect(mocked.createLoginAttempt).toHaveBeenCalledWith(expect.objectContaining({ event: LoginAttemptEvent.LOCKOUT }));
+  });
+
+  it("records the lockout only once when another failure locked the account first", async () => {
+    mocked.incrementFailedLoginAttempts.mockResolvedValue({ failedLoginAttempts: 6, lockedUntil: null });
+    mocked.lockAuthUntil.mockResolvedValue(false);
+
+    await new LoginAttemptService().recordFailure("client@appfree.test", {}, buildAuth());
+
+    expect(mocked.createLoginAttempt).not.toHaveBeenCalledWith(expect.objectContaining({ event: LoginAttemptEvent.LOCKOUT }));
+  });
+});
@@ -0,0 +1,109 @@
+jest.mock("../../src/repositories");
+
+import { Client, RolloverPolicy } from "../../src/entities/Client";
+import { MonthlyBudget } from "../../src/entities/MonthlyBudget";
+import { MonthlyBudgetService } from "../../src/services/MonthlyBudgetService";
+import { getCarriedOverAmount } from "../../src/utils/ledger.util";
+import * as repositories from "../../src/repositories";
+
+describe("budget rollover", () => {
+  const mocked = jest.mocked(repositories);
+  const client = Object.assign(new Client(), {
+    id: "2c3d4e5f-6a7b-4c8d-9e0f-1a2b3c4d5e6f",
+    salary: 5000,
+    rolloverPolicy: RolloverPolicy.BOTH,
+    copyPreviousBudget: true
+  });
+  const august = Object.assign(new MonthlyBudget(), {
+    id: "8a8a8a8a-1b1b-4c1c-8d1d-1e1e1e1e1e1e",
+    clientId: client.id,
+    year: 2026,
+    month: 8,
+    budgetAmount: 1200,
+    isPercentage: false,
+    remainingBalance: 150
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mocked.findClientById.mockResolvedValue(client);
+    mocked.createMonthlyBudget.mockImplementation(async data => Object.assign(new MonthlyBudget(), data));
+    mocked.findMonthlyBudgetsByClient.mockResolvedValue([]);
+  });
+
+  const budgetIn = (month: number): MonthlyBudget => Object.assign(new MonthlyBudget(), {
+    ...august,
+    id: `${month.toString(16).repeat(8)}-1b1b-4c1c-8d1d-1e1e1e1e1e1e`,
+    month
+  });
+
+  it.each([
+    [RolloverPolicy.NONE, 150, 0],
+    [RolloverPolicy.SURPLUS, 150, 150],
+    [RolloverPolicy.SURPLUS, -80, 0],
+    [RolloverPolicy.DEFICIT, -80, -80],
+    [RolloverPolicy.BOTH, -80, -80]
+  ])("carries %s of a %d balance as %d", (policy, balance, carried) => {
+    expect(getCarriedOverAmount(policy, balance)).toBe(carried);
+  });
+
+  it("carries the balance of the latest earlier budget when the month before has none", async () => {
+    mocked.findMonthlyBudgetByYearAndMonth.mockResolvedValue(null);
+    mocked.findLatestMonthlyBudgetBefore.mockResolvedValue(august);
+
+    const october = await new MonthlyBudgetService().getOrCreateMonthlyBudget(client.id, 2026, 10);
+
+    expect(mocked.findLatestMonthlyBudgetBefore).toHaveBeenCalledWith(client.id, 2026, 10);
+    expect(october).toMatchObject({ carriedOverAmount: 150, carriedOverFromId: august.id, budgetAmount: 1200 });
+    expect(october.remainingBalance).toBe(1350);
+  });
+
+  it("rebuilds the client's budgets oldest first when the rollover policy changes", async () => {
+    const october = Object.assign(new MonthlyBudget(), { ...august, id: "0c0c0c0c-2d2d-4e2e-8f2f-2a2a2a2a2a2a", month: 10 });
+    mocked.updateClient.mockImplementation(async updated => updated);
+    mocked.findMonthlyBudgetsByClient.mockResolvedValue([october, august]);
+
+    await new MonthlyBudgetService().updateRolloverSettings(client.id, { rolloverPolicy: RolloverPolicy.SURPLUS });
+
+    expect(mocked.rebuildMonthlyBudgetLedger.mock.calls.map(([id]) => id)).toEqual([august.id, october.id]);
+  });
+
+  it("rebuilds the later budgets oldest first when a month is created between two others", async () => {
+    const [july, november, december] = [budgetIn(7), budgetIn(11), budgetIn(12)];
+    mocked.findMonthlyBudgetByYearAndMonth.mockResolvedValue(null);
+    mocked.findLatestMonthlyBudgetBefore.mockResolvedValue(august);
+    mocked.findMonthlyBudgetsByClient.mockResolvedValue([december, november, august, july]);
+
+    await new MonthlyBudgetService().getOrCreateMonthlyBudget(client.id, 2026, 10);
+
+    expect(mocked.rebuildMonthlyBudgetLedger.mock.calls.map(([id]) => id)).toEqual([november.id, december.id]);
+  });
+
+  it("does not rebuild anything when the month already exists", async () => {
+    mocked.findMonthlyBudgetByYearAndMonth.mockResolvedValue(august);
+
+    await new MonthlyBudgetService().getOrCreateMonthlyBudget(client.id, 2026, 8);
+
+    expect(mocked.createMonthlyBudget).not.toHaveBeenCalled();
+    expect(mocked.rebuildMonthlyBudgetLedger).not.toHaveBeenCalled();
+  });
+
+  it("rebuilds the later budgets oldest first when a month is deleted", async () => {
+    const [july, november, december] = [budgetIn(7), budgetIn(11), budgetIn(12)];
+    mocked.findMonthlyBudgetById.mockResolvedValue(august);
+    mocked.findMonthlyBudgetsByClient.mockResolvedValue([december, november, july]);
+
+    await new MonthlyBudgetService().deleteMonthlyBudget(august.id);
+
+    expect(mocked.deleteMonthlyBudget).toHaveBeenCalledWith(august);
+    expect(mocked.rebuildMonthlyBudgetLedger.mock.calls.map(([id]) => id)).toEqual([november.id, december.id]);
+  });
+
+  it("leaves the budgets alone when only copyPreviousBudget changes", async () => {
+    mocked.updateClient.mockImplementation(async updated => updated);
+
+    await new MonthlyBudgetService().updateRolloverSettings(client.id, { copyPreviousBudget: false });
+
+    expect(mocked.rebuildMonthlyBudgetLedger).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,68 @@
+jest.mock("../../src/repositories");
+
+import { Auth, AuthType } from "../../src/entities/Auth";
+import { AuthService } from "../../src/services/AuthService";
+import { MailMessage, MailService, MailTransport } from "../../src/services/MailService";
+import * as repositories from "../../src/repositories";
+
+/**
+ * Transport that holds every message until released, like a slow mail provider
+ */
+class PendingMailTransport implements MailTransport {
+  public readonly messages: MailMessage[] = [];
+  private release: () => void;
+  private released = new Promise<void>(resolve => (this.release = resolve));
+
+  public async send(message: MailMessage & { from: string }): Promise<void> {
+    await this.released;
+    this.messages.push(message);
+  }
+
+  public flush(): void {
+    this.release();
+  }
+}
+
+const waitFor = async (condition: () => boolean): Promise<void> => {
+  for (let attempt = 0; attempt < 50 && !condition(); attempt++) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+};
+
+describe("AuthService.requestPasswordReset", () => {
+  const mocked = jest.mocked(repositories);
+  const auth = Object.assign(new Auth(), {
+    id: "5b0f4a52-6f0e-4f7e-9d8a-1c2b3d4e5f60",
+    email: "known@appfree.test",
+    type: AuthType.CLIENT,
+    isActive: true
+  });
+  let transport: PendingMailTransport;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mocked.findAuthByEmail.mockImplementation(async email => (email === auth.email ? auth : null));
+    mocked.updateAuth.mockImplementation(async updated => updated);
+    transport = new PendingMailTransport();
+    MailService.getInstance().setTransport(transport);
+  });
+
+  it("answers for a registered email without waiting for the token or the mail", async () => {
+    await new AuthService().requestPasswordReset(auth.email);
+    expect(transport.messages).toHaveLength(0);
+
+    transport.flush();
+    await waitFor(() => transport.messages.length > 0);
+    expect(mocked.updateAuth).toHaveBeenCalledTimes(1);
+    expect(transport.messages).toEqual([expect.objectContaining({ to: auth.email })]);
+  });
+
+  it("answers the same way for an unknown email and sends nothing", async () => {
+    await expect(new AuthService().requestPasswordReset("unknown@appfree.test")).resolves.toBeUndefined();
+
+    transport.flush();
+    await waitFor(() => mocked.findAuthByEmail.mock.calls.length > 0);
+    expect(mocked.updateAuth).not.toHaveBeenCalled();
+    expect(transport.messages).toHaveLength(0);
+  });
+});
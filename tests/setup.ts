@@ -0,0 +1,21 @@
+import "reflect-metadata";
+
+// Keep test output quiet and mail in memory
+process.env.NODE_ENV = "test";
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || "silent";
+process.env.MAIL_TRANSPORT = "memory";
+
+// Sign tokens with a key generated for the test run
+process.env.JWT_KEYS_DIR = "tests/keys-not-configured";
+delete process.env.JWT_ACTIVE_KID;
+
+// Database tests run against TEST_DB_DATABASE only, never against the database in .env
+if (process.env.TEST_DB_DATABASE) {
+  process.env.DB_HOST = process.env.TEST_DB_HOST || process.env.DB_HOST || "localhost";
+  process.env.DB_PORT = process.env.TEST_DB_PORT || process.env.DB_PORT || "5432";
+  process.env.DB_USERNAME = process.env.TEST_DB_USERNAME || process.env.DB_USERNAME;
+  process.env.DB_PASSWORD = process.env.TEST_DB_PASSWORD || process.env.DB_PASSWORD;
+  process.env.DB_DATABASE = process.env.TEST_DB_DATABASE;
+} else {
+  process.env.DB_DATABASE = "";
+}
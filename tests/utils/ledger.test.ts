@@ -0,0 +1,151 @@
+import { DailyTransaction, TransactionType } from "../../src/entities/DailyTransaction";
+import { MonthlyBudget } from "../../src/entities/MonthlyBudget";
+import { computeLedger, computePacing } from "../../src/utils/ledger.util";
+
+describe("ledger", () => {
+  const budget = { budgetAmount: 1000, isPercentage: false, monthlySalary: 5000, carriedOverAmount: -100.1 };
+  const transaction = (id: string, date: Date | string, amount: number, type = TransactionType.EXPENSE, createdAt = new Date(2026, 9, 1)) =>
+    Object.assign(new DailyTransaction(), { id, date, amount, type, createdAt });
+
+  it("replays the transactions by date, then by creation, from the opening balance with the carried amount", () => {
+    const { remainingBalance, runningBalances } = computeLedger(budget, [
+      transaction("c", "2026-10-20", 0.2),
+      transaction("b", new Date(2026, 9, 5), 0.1, TransactionType.EXPENSE, new Date(2026, 9, 5, 18)),
+      transaction("a", "2026-10-05", 50, TransactionType.INCOME, new Date(2026, 9, 5, 9))
+    ]);
+
+    expect([...runningBalances]).toEqual([["a", 949.9], ["b", 949.8], ["c", 949.6]]);
+    expect(remainingBalance).toBe(949.6);
+  });
+
+  it("reads decimal columns returned as strings", () => {
+    const stored = { ...budget, budgetAmount: "1000.00", carriedOverAmount: "0.00" } as unknown as typeof budget;
+
+    const { remainingBalance } = computeLedger(stored, [transaction("a", "2026-10-05", "12.34" as unknown as number)]);
+
+    expect(remainingBalance).toBe(987.66);
+  });
+});
+
+describe("budget pacing", () => {
+  const october = Object.assign(new MonthlyBudget(), {
+    id: "0c0c0c0c-2d2d-4e2e-8f2f-2a2a2a2a2a2a",
+    year: 2026,
+    month: 10,
+    daysInMonth: 31,
+    monthlySalary: 5000,
+    budgetAmount: 3100,
+    isPercentage: false,
+    carriedOverAmount: 0
+  });
+  const transaction = (day: number, amount: number, type = TransactionType.EXPENSE): DailyTransaction =>
+    Object.assign(new DailyTransaction(), {
+      id: `${day.toString().padStart(2, "0")}${amount}`,
+      amount,
+      type,
+      date: new Date(2026, 9, day),
+      createdAt: new Date(2026, 9, day),
+      monthlyBudgetId: october.id
+    });
+
+  it("spreads the opening balance over the whole month on its first day", () => {
+    const budget = Object.assign(new MonthlyBudget(), october, { carriedOverAmount: 310 });
+
+    const pacing = computePacing(budget, [transaction(1, 40)], new Date(2026, 9, 1, 9, 30));
+
+    expect(pacing).toMatchObject({
+      budgetTotal: 3100,
+      carriedOverAmount: 310,
+      remainingBalance: 3370,
+      daysLeft: 31,
+      safeToSpendToday: 110,
+      spentToday: 40,
+      leftToSpendToday: 70,
+      spentSoFar: 40,
+      expectedSpentSoFar: 100,
+      paceStatus: "ahead",
+      projectedEndOfMonthBalance: 2170
+    });
+  });
+
+  it("leaves the whole balance for the last day of the month", () => {
+    const transactions = [transaction(5, 2000), transaction(20, 100, TransactionType.INCOME), transaction(31, 50)];
+
+    const pacing = computePacing(october, transactions, new Date(2026, 9, 31, 23, 59));
+
+    expect(pacing).toMatchObject({
+      remainingBalance: 1150,
+      daysLeft: 1,
+      safeToSpendToday: 1200,
+      spentToday: 50,
+      leftToSpendToday: 1150,
+      spentSoFar: 1950,
+      expectedSpentSoFar: 3100,
+      paceDifference: 1150,
+      paceStatus: "ahead",
+      projectedEndOfMonthBalance: 1150
+    });
+  });
+
+  it("reports a month without transactions as unspent", () => {
+    const pacing = computePacing(october, [], new Date(2026, 9, 11));
+
+    expect(pacing).toMatchObject({
+      remainingBalance: 3100,
+      daysLeft: 21,
+      safeToSpendToday: 147.62,
+      leftToSpendToday: 147.62,
+      expectedSpentSoFar: 1100,
+      paceDifference: 1100,
+      paceStatus: "ahead",
+      projectedEndOfMonthBalance: 3100
+    });
+    expect(pacing.spentToday).toBeCloseTo(0);
+    expect(pacing.spentSoFar).toBeCloseTo(0);
+  });
+
+  it("reports spending faster than an even spread as behind", () => {
+    const pacing = computePacing(october, [transaction(2, 900)], new Date(2026, 9, 5));
+
+    expect(pacing).toMatchObject({
+      safeToSpendToday: 81.48,
+      spentSoFar: 900,
+      expectedSpentSoFar: 500,
+      paceDifference: -400,
+      paceStatus: "behind",
+      projectedEndOfMonthBalance: -2480
+    });
+  });
+
+  it("treats a past month as fully elapsed", () => {
+    const pacing = computePacing(october, [transaction(5, 2000), transaction(31, 50)], new Date(2026, 10, 15));
+
+    expect(pacing).toMatchObject({
+      remainingBalance: 1050,
+      daysLeft: 0,
+      safeToSpendToday: 0,
+      spentToday: 0,
+      leftToSpendToday: 0,
+      spentSoFar: 2050,
+      expectedSpentSoFar: 3100,
+      paceStatus: "ahead",
+      projectedEndOfMonthBalance: 1050
+    });
+  });
+
+  it("treats a future month as not started", () => {
+    const pacing = computePacing(october, [transaction(3, 200)], new Date(2026, 8, 20));
+
+    expect(pacing).toMatchObject({
+      remainingBalance: 2900,
+      daysLeft: 31,
+      safeToSpendToday: 100,
+      spentToday: 0,
+      leftToSpendToday: 100,
+      expectedSpentSoFar: 0,
+      paceStatus: "on_pace",
+      projectedEndOfMonthBalance: 3100
+    });
+    expect(pacing.spentSoFar).toBeCloseTo(0);
+  });
+});